@@ -44,13 +44,16 @@
 
 pragma solidity ^0.8.22;
 
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {SignerRotation} from "./utils/SignerRotation.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import {ERC20Burnable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import {ERC20Pausable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Pausable.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 
-contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
+contract ACID is ERC20, ERC20Burnable, ERC20Pausable, SignerRotation, EIP712 {
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    // EIP-712 struct type for useTyped and useFromTyped
+    bytes32 public constant USE_TYPEHASH = keccak256("Use(uint256 id,uint256 value,address account,uint256 param)");
 
     uint public mintLimitPerTx = 10_000 * (10 ** decimals());
     address public signerAddress;
@@ -61,12 +64,12 @@ contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
 
     error TransfersNotAllowed();
     error MintLimit();
-    error ZeroAddress();
     error WrongSignature();
     error IdUsed();
 
     constructor(address defaultAdmin, address minter, address _signerAddress)
         ERC20("Roach Acid", "ACID")
+        EIP712("ACID", "1")
     {
         if (defaultAdmin == address(0x0)) {
             revert ZeroAddress();
@@ -110,6 +113,11 @@ contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
         signerAddress = newSigner;
     }
 
+    /// @dev signerAddress is the main signer checked by isSigner
+    function _signerAddress() internal view override returns (address) {
+        return signerAddress;
+    }
+
     /**
      * @notice Claim ACID tokens with signature verification
      * @param id The unique identifier for the claim to prevent double spending
@@ -132,7 +140,7 @@ contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
         }
 
         bytes32 msgHash = keccak256(abi.encode('claim', id, account, amount, address(this)));
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
@@ -152,6 +160,7 @@ contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
      * @param sigV The recovery ID component of the ECDSA signature.
      * @param sigR The R component of the ECDSA signature.
      * @param sigS The S component of the ECDSA signature.
+     * @param typed Whether the signature is over EIP-712 typed data (Use struct) or the legacy message hash.
      *
      * Requirements:
      * - The signature must be valid and signed by the `signerAddress`.
@@ -164,9 +173,11 @@ contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
      * - `WrongSignature()` if the signature is invalid or not signed by the expected signer.
      * - `IdUsed()` if the `id` has already been used.
      */
-    function _use(uint256 value, uint256 id, address account, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) virtual internal {
-        bytes32 msgHash = keccak256(abi.encode(id, value, account, param, address(this)));
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+    function _use(uint256 value, uint256 id, address account, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS, bool typed) virtual internal {
+        bytes32 msgHash = typed
+            ? _hashTypedDataV4(keccak256(abi.encode(USE_TYPEHASH, id, value, account, param)))
+            : keccak256(abi.encode(id, value, account, param, address(this)));
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
         if (usedId[id]) {
@@ -183,7 +194,16 @@ contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
      */
     function use(uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
         _burn(_msgSender(), value);
-        _use(value, id, _msgSender(), param, sigV, sigR, sigS);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as use, but signed as EIP-712 typed data (Use struct, see USE_TYPEHASH).
+     * Ids are shared with the legacy functions.
+     */
+    function useTyped(uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
+        _burn(_msgSender(), value);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, true);
     }
 
     /**
@@ -202,7 +222,16 @@ contract ACID is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
     function useFrom(address account, uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
         _spendAllowance(account, _msgSender(), value);
         _burn(account, value);
-        _use(value, id, _msgSender(), param, sigV, sigR, sigS);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as useFrom, but signed as EIP-712 typed data (Use struct with account = caller).
+     */
+    function useFromTyped(address account, uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
+        _spendAllowance(account, _msgSender(), value);
+        _burn(account, value);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, true);
     }
 
     /**
@@ -4,12 +4,13 @@ pragma solidity ^0.8.0;
 
 import {ERC1155} from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {SignerRotation} from "./utils/SignerRotation.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 /// @title Badges
 /// @notice ERC1155-based contract for managing unique badge tokens
 /// @dev Each user can own at most 1 of each badge ID; transfers are disabled
-contract Badges is ERC1155, AccessControl {
+contract Badges is ERC1155, SignerRotation {
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
     bytes32 public constant WITHDRAW_ROLE = keccak256("WITHDRAW_ROLE");
 
@@ -25,9 +26,6 @@ contract Badges is ERC1155, AccessControl {
     /// @notice Error thrown when a transfer attempt is made (transfers are not allowed)
     error TransfersNotAllowed();
 
-    /// @notice Error thrown when a zero address is provided where it is not allowed
-    error ZeroAddress();
-
     /// @notice Error thrown when sent fee is insufficient for a claim
     error NotEnoughFee();
 
@@ -73,6 +71,11 @@ contract Badges is ERC1155, AccessControl {
         signerAddress = newSigner;
     }
 
+    /// @dev signerAddress is the main signer checked by isSigner
+    function _signerAddress() internal view override returns (address) {
+        return signerAddress;
+    }
+
     /// @dev Internal hook to check for transfer rules and ownership constraints
     /// @param from The sender address
     /// @param to The recipient address
@@ -146,7 +149,7 @@ contract Badges is ERC1155, AccessControl {
     /// @param sigS The S component of the signature
     function _claim(uint signId, address account, uint256 id, uint fee, uint8 sigV, bytes32 sigR, bytes32 sigS) internal {
         bytes32 msgHash = keccak256(abi.encode(signId, account, id, fee, address(this)));
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
         _mint(account, id, 1, "");
@@ -43,7 +43,7 @@
 */
 pragma solidity ^0.8.0;
 
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {SignerRotation} from "./utils/SignerRotation.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 /**
@@ -53,7 +53,7 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
  * based on off-chain authorizations signed by a designated signer.
  * Fork of {GridleToken} contract.
  */
-contract Bank is AccessControl {
+contract Bank is SignerRotation {
     bytes32 public constant WITHDRAW_ROLE = keccak256("WITHDRAW_ROLE");
     bytes32 public constant REFUND_ROLE = keccak256("REFUND_ROLE");
 
@@ -94,9 +94,6 @@ contract Bank is AccessControl {
     /// @notice Error thrown when an order has already been processed
     error OrderAlreadyProcessed();
 
-    /// @notice Error thrown when a zero address is provided where not allowed
-    error ZeroAddress();
-
     /// @notice Error thrown when reserved amount exceeds available balance
     error InsufficientBalance();
 
@@ -188,6 +185,11 @@ contract Bank is AccessControl {
         signerAddress = newSigner;
     }
 
+    /// @dev signerAddress is the main signer checked by isSigner
+    function _signerAddress() internal view override returns (address) {
+        return signerAddress;
+    }
+
     /// @notice Set minimum and maximum reserve coefficients
     /// @param _minReservesCoef The minimum reserves coefficient in basis points (10000 = 100%)
     /// @param _maxReservesCoef The maximum reserves coefficient in basis points (10000 = 100%)
@@ -286,7 +288,7 @@ contract Bank is AccessControl {
         bytes32 msgHash = keccak256(
             abi.encode(signId, msg.sender, token, amount, deadline, systemBalance, address(this))
         );
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
@@ -329,7 +331,7 @@ contract Bank is AccessControl {
         bytes32 msgHash = keccak256(
             abi.encode(signId, account, token, amount, address(this))
         );
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
@@ -48,25 +48,43 @@ import "./interfaces/ITRAX.sol";
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 
 /**
  * @title BankV2
  * @dev Contract for accepting payments in ERC20 tokens and ETH.
  * Uses signature verification to validate and track payments.
  */
-contract BankV2 is AccessControl {
+contract BankV2 is AccessControl, EIP712 {
     using SafeERC20 for IERC20;
 
     bytes32 public constant WITHDRAW_ROLE = keccak256("WITHDRAW_ROLE");
     bytes32 public constant SIGNER_ROLE = keccak256("SIGNER_ROLE");
     bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
 
+    // EIP-712 struct types for the *Typed functions
+    // useETHTyped and useTokenTyped sign fee = 0, claimEthTyped signs token = address(0), claimTraxTyped signs token = traxToken
+    bytes32 public constant USE_TYPEHASH = keccak256("Use(uint256 signId,uint256 value,address token,address account,uint256 param,uint256 fee,uint256 deadline)");
+    bytes32 public constant CLAIM_TYPEHASH = keccak256("Claim(uint256 signId,address account,address token,uint256 value,uint256 fee,uint256 deadline)");
+
     mapping(uint256 => bool) public usedSignIds;
     // TRAX token contract for minting claims
     ITRAX public immutable traxToken;
     // Token send limits for operators (token => max amount per transaction)
     mapping(address => uint256) public sendTokenLimit;
 
+    // Signed claim payload of claimBatch: token = address(0) claims ETH, token = traxToken mints TRAX, any other token is ERC20
+    struct ClaimRequest {
+        address token;
+        uint256 value;
+        uint256 fee;
+        uint256 deadline;
+        uint256 signId;
+        uint8 sigV;
+        bytes32 sigR;
+        bytes32 sigS;
+    }
+
     event Used(uint256 indexed signId, uint256 value, address indexed token, address indexed sender, uint256 param);
     event Claimed(address indexed account, address indexed token, uint256 value, uint256 deadline, uint256 signId);
     event Withdrawn(address indexed token, address indexed recipient, uint256 amount);
@@ -81,8 +99,9 @@ contract BankV2 is AccessControl {
     error InsufficientFee();
     error SignIdAlreadyUsed();
     error ExceedsTokenLimit();
+    error EmptyBatch();
 
-    constructor(address defaultAdmin, address withdrawRole, address signer, address _traxToken) {
+    constructor(address defaultAdmin, address withdrawRole, address signer, address _traxToken) EIP712("BankV2", "1") {
         if (defaultAdmin == address(0x0) || signer == address(0x0) || _traxToken == address(0x0)) {
             revert ZeroAddress();
         }
@@ -106,6 +125,7 @@ contract BankV2 is AccessControl {
      * @param sigV The recovery ID component of the ECDSA signature.
      * @param sigR The R component of the ECDSA signature.
      * @param sigS The S component of the ECDSA signature.
+     * @param typed Whether the signature is over EIP-712 typed data (Use struct) or the legacy message hash.
      */
     function _use(
         uint256 signId,
@@ -117,7 +137,8 @@ contract BankV2 is AccessControl {
         uint256 deadline,
         uint8 sigV,
         bytes32 sigR,
-        bytes32 sigS
+        bytes32 sigS,
+        bool typed
     ) internal {
         if (msg.value < fee) {
             revert InsufficientFee();
@@ -125,7 +146,9 @@ contract BankV2 is AccessControl {
         if (block.timestamp > deadline) {
             revert DeadlineExpired();
         }
-        bytes32 msgHash = keccak256(abi.encode('use', signId, value, token, account, param, fee, deadline, address(this)));
+        bytes32 msgHash = typed
+            ? _hashTypedDataV4(keccak256(abi.encode(USE_TYPEHASH, signId, value, token, account, param, fee, deadline)))
+            : keccak256(abi.encode('use', signId, value, token, account, param, fee, deadline, address(this)));
         address signer = ecrecover(msgHash, sigV, sigR, sigS);
         if (!hasRole(SIGNER_ROLE, signer)) {
             revert WrongSignature();
@@ -154,10 +177,22 @@ contract BankV2 is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external payable {
-        if (msg.value == 0) {
-            revert ZeroValue();
-        }
-        _use(signId, msg.value, address(0), msg.sender, param, 0, deadline, sigV, sigR, sigS);
+        _useETH(signId, param, deadline, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as useETH, but signed as EIP-712 typed data (Use struct with token = address(0) and fee = 0).
+     * Signature IDs are shared with the legacy functions.
+     */
+    function useETHTyped(
+        uint256 signId,
+        uint256 param,
+        uint256 deadline,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _useETH(signId, param, deadline, sigV, sigR, sigS, true);
     }
 
     /**
@@ -182,6 +217,51 @@ contract BankV2 is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external {
+        _useToken(token, value, signId, param, deadline, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as useToken, but signed as EIP-712 typed data (Use struct with fee = 0).
+     */
+    function useTokenTyped(
+        IERC20 token,
+        uint256 value,
+        uint256 signId,
+        uint256 param,
+        uint256 deadline,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external {
+        _useToken(token, value, signId, param, deadline, sigV, sigR, sigS, true);
+    }
+
+    function _useETH(
+        uint256 signId,
+        uint256 param,
+        uint256 deadline,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
+        if (msg.value == 0) {
+            revert ZeroValue();
+        }
+        _use(signId, msg.value, address(0), msg.sender, param, 0, deadline, sigV, sigR, sigS, typed);
+    }
+
+    function _useToken(
+        IERC20 token,
+        uint256 value,
+        uint256 signId,
+        uint256 param,
+        uint256 deadline,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
         if (value == 0) {
             revert ZeroValue();
         }
@@ -189,7 +269,7 @@ contract BankV2 is AccessControl {
             revert ZeroAddress();
         }
         token.transferFrom(msg.sender, address(this), value);
-        _use(signId, value, address(token), msg.sender, param, 0, deadline, sigV, sigR, sigS);
+        _use(signId, value, address(token), msg.sender, param, 0, deadline, sigV, sigR, sigS, typed);
     }
 
     /**
@@ -203,6 +283,7 @@ contract BankV2 is AccessControl {
      * @param sigV ECDSA signature v component.
      * @param sigR ECDSA signature r component.
      * @param sigS ECDSA signature s component.
+     * @param typed Whether the signature is over EIP-712 typed data (Claim struct) or the legacy message hash.
      */
     function _claim(
         uint256 signId,
@@ -213,11 +294,9 @@ contract BankV2 is AccessControl {
         uint256 deadline,
         uint8 sigV,
         bytes32 sigR,
-        bytes32 sigS
+        bytes32 sigS,
+        bool typed
     ) internal {
-        if (msg.value < fee) {
-            revert InsufficientFee();
-        }
         if (account == address(0)) {
             revert ZeroAddress();
         }
@@ -231,8 +310,7 @@ contract BankV2 is AccessControl {
             revert SignIdAlreadyUsed();
         }
 
-        bytes32 message = keccak256(abi.encode('claim', signId, account, token, value, fee, deadline, address(this)));
-        address signer = ecrecover(message, sigV, sigR, sigS);
+        address signer = ecrecover(_claimHash(signId, account, token, value, fee, deadline, typed), sigV, sigR, sigS);
         if (!hasRole(SIGNER_ROLE, signer)) {
             revert WrongSignature();
         }
@@ -242,6 +320,24 @@ contract BankV2 is AccessControl {
         emit Claimed(account, token, value, deadline, signId);
     }
 
+    /**
+     * @dev Message hash of a claim: EIP-712 digest of a Claim struct if `typed`, legacy hash otherwise
+     */
+    function _claimHash(
+        uint256 signId,
+        address account,
+        address token,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        bool typed
+    ) internal view returns (bytes32) {
+        if (typed) {
+            return _hashTypedDataV4(keccak256(abi.encode(CLAIM_TYPEHASH, signId, account, token, value, fee, deadline)));
+        }
+        return keccak256(abi.encode('claim', signId, account, token, value, fee, deadline, address(this)));
+    }
+
     /**
      * @dev Claim tokens using an authorized signature
      * @param account Address that will receive the tokens
@@ -265,19 +361,26 @@ contract BankV2 is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external payable {
-        if (token == address(0)) {
-            revert ZeroAddress();
-        }
-
-        _claim(signId, account, token, value, fee, deadline, sigV, sigR, sigS);
-
-        IERC20 tokenContract = IERC20(token);
-        uint256 balance = tokenContract.balanceOf(address(this));
-        if (balance < value) {
-            revert InsufficientBalance();
-        }
+        _checkFee(fee);
+        _claimToken(account, token, value, fee, deadline, signId, sigV, sigR, sigS, false);
+    }
 
-        tokenContract.safeTransfer(account, value);
+    /**
+     * @dev Same as claim, but signed as EIP-712 typed data (Claim struct, see CLAIM_TYPEHASH)
+     */
+    function claimTyped(
+        address account,
+        address token,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _checkFee(fee);
+        _claimToken(account, token, value, fee, deadline, signId, sigV, sigR, sigS, true);
     }
 
     /**
@@ -301,16 +404,25 @@ contract BankV2 is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external payable {
-        _claim(signId, account, address(0), value, fee, deadline, sigV, sigR, sigS);
-
-        if (address(this).balance < value) {
-            revert InsufficientBalance();
-        }
+        _checkFee(fee);
+        _claimEth(account, value, fee, deadline, signId, sigV, sigR, sigS, false);
+    }
 
-        (bool success,) = account.call{value: value}("");
-        if (!success) {
-            revert TransferFailed();
-        }
+    /**
+     * @dev Same as claimEth, but signed as EIP-712 typed data (Claim struct with token = address(0))
+     */
+    function claimEthTyped(
+        address account,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _checkFee(fee);
+        _claimEth(account, value, fee, deadline, signId, sigV, sigR, sigS, true);
     }
 
     /**
@@ -334,11 +446,145 @@ contract BankV2 is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external payable {
-        _claim(signId, account, address(traxToken), value, fee, deadline, sigV, sigR, sigS);
+        _checkFee(fee);
+        _claimTrax(account, value, fee, deadline, signId, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as claimTrax, but signed as EIP-712 typed data (Claim struct with token = traxToken)
+     */
+    function claimTraxTyped(
+        address account,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _checkFee(fee);
+        _claimTrax(account, value, fee, deadline, signId, sigV, sigR, sigS, true);
+    }
+
+    /**
+     * @dev Claim several signed payloads for one account in a single transaction.
+     * All claims succeed or the whole batch reverts, e.g. if one signId is already used.
+     * One fee is charged per transaction: msg.value must cover the highest fee signed in the batch.
+     * @param account Address that will receive the tokens, ETH and TRAX
+     * @param claims Signed payloads, mixed ERC20 / ETH / TRAX, signed as for claim / claimEth / claimTrax
+     */
+    function claimBatch(address account, ClaimRequest[] calldata claims) external payable {
+        _claimBatch(account, claims, false);
+    }
+
+    /**
+     * @dev Same as claimBatch, but every payload is signed as EIP-712 typed data (Claim struct)
+     */
+    function claimBatchTyped(address account, ClaimRequest[] calldata claims) external payable {
+        _claimBatch(account, claims, true);
+    }
+
+    function _claimBatch(address account, ClaimRequest[] calldata claims, bool typed) internal {
+        if (claims.length == 0) {
+            revert EmptyBatch();
+        }
+
+        uint256 batchFee;
+        for (uint256 i = 0; i < claims.length; i++) {
+            if (claims[i].fee > batchFee) {
+                batchFee = claims[i].fee;
+            }
+        }
+        _checkFee(batchFee);
+
+        for (uint256 i = 0; i < claims.length; i++) {
+            ClaimRequest calldata request = claims[i];
+            if (request.token == address(0)) {
+                _claimEth(account, request.value, request.fee, request.deadline, request.signId, request.sigV, request.sigR, request.sigS, typed);
+            } else if (request.token == address(traxToken)) {
+                _claimTrax(account, request.value, request.fee, request.deadline, request.signId, request.sigV, request.sigR, request.sigS, typed);
+            } else {
+                _claimToken(account, request.token, request.value, request.fee, request.deadline, request.signId, request.sigV, request.sigR, request.sigS, typed);
+            }
+        }
+    }
+
+    /**
+     * @dev Validate fee payment
+     */
+    function _checkFee(uint256 fee) internal view {
+        if (msg.value < fee) {
+            revert InsufficientFee();
+        }
+    }
+
+    function _claimToken(
+        address account,
+        address token,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
+        if (token == address(0)) {
+            revert ZeroAddress();
+        }
+
+        _claim(signId, account, token, value, fee, deadline, sigV, sigR, sigS, typed);
+
+        IERC20 tokenContract = IERC20(token);
+        uint256 balance = tokenContract.balanceOf(address(this));
+        if (balance < value) {
+            revert InsufficientBalance();
+        }
+
+        tokenContract.safeTransfer(account, value);
+    }
+
+    function _claimTrax(
+        address account,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
+        _claim(signId, account, address(traxToken), value, fee, deadline, sigV, sigR, sigS, typed);
 
         traxToken.mint(account, value);
     }
 
+    function _claimEth(
+        address account,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
+        _claim(signId, account, address(0), value, fee, deadline, sigV, sigR, sigS, typed);
+
+        if (address(this).balance < value) {
+            revert InsufficientBalance();
+        }
+
+        (bool success,) = account.call{value: value}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+    }
+
     /**
      * @dev Set the send limit for a specific token or ETH (admin only)
      * @param token ERC20 token address (address(0) for ETH)
@@ -47,6 +47,7 @@ pragma solidity ^0.8.22;
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "./interfaces/ITRAX.sol";
 
 /**
@@ -55,7 +56,7 @@ import "./interfaces/ITRAX.sol";
  * The contract can hold multiple ERC20 tokens and distribute them
  * based on off-chain authorizations signed by a designated signer.
  */
-contract Claimer is AccessControl {
+contract Claimer is AccessControl, EIP712 {
     using SafeERC20 for IERC20;
 
     // Role for accounts that can sign claim authorizations
@@ -63,12 +64,31 @@ contract Claimer is AccessControl {
     // Role for withdrawing tokens from the contract
     bytes32 public constant WITHDRAW_ROLE = keccak256("WITHDRAW_ROLE");
 
+    // EIP-712 struct type for the *Typed claim functions
+    // claimEthTyped signs token = address(0) and fee = 0, claimTraxTyped signs token = traxToken
+    bytes32 public constant CLAIM_TYPEHASH = keccak256("Claim(uint256 signId,address account,address token,uint256 value,uint256 fee,uint256 deadline)");
+
     // TRAX token contract for minting claims
     ITRAX public immutable traxToken;
 
     // Mapping to track used signature IDs to prevent replay attacks
     mapping(uint256 => bool) public usedSignIds;
 
+    /**
+     * @dev Signed claim payload of claimBatch, signed with the same message as claim / claimEth / claimTrax:
+     * token = address(0) claims ETH (fee is not signed and must be 0), token = traxToken mints TRAX, any other token is ERC20
+     */
+    struct ClaimRequest {
+        address token;
+        uint256 value;
+        uint256 fee;
+        uint256 deadline;
+        uint256 signId;
+        uint8 sigV;
+        bytes32 sigR;
+        bytes32 sigS;
+    }
+
     /**
      * @dev Emitted when tokens are successfully claimed
      */
@@ -126,6 +146,8 @@ contract Claimer is AccessControl {
     error ZeroAddress();
     error TransferFailed();
     error InsufficientFee();
+    error EmptyBatch();
+    error UnexpectedFee();
 
     /**
      * @dev Constructor to initialize the Claimer contract
@@ -137,7 +159,7 @@ contract Claimer is AccessControl {
         address _admin,
         address _signer,
         address _traxToken
-    ) {
+    ) EIP712("Claimer", "1") {
         if (_admin == address(0) || _signer == address(0) || _traxToken == address(0)) {
             revert ZeroAddress();
         }
@@ -171,11 +193,181 @@ contract Claimer is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external payable {
-        // Validate fee payment
+        _checkFee(fee);
+        _claim(account, token, value, fee, deadline, signId, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as claim, but signed as EIP-712 typed data (Claim struct, see CLAIM_TYPEHASH)
+     * Signature IDs are shared with the legacy functions
+     */
+    function claimTyped(
+        address account,
+        address token,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _checkFee(fee);
+        _claim(account, token, value, fee, deadline, signId, sigV, sigR, sigS, true);
+    }
+
+    /**
+     * @dev Claim ETH using an authorized signature
+     * @param account Address that will receive the ETH
+     * @param value Amount of ETH to claim (in wei)
+     * @param deadline Timestamp after which the signature expires
+     * @param signId Unique signature ID for this claim to prevent replay
+     * @param sigV ECDSA signature v component
+     * @param sigR ECDSA signature r component
+     * @param sigS ECDSA signature s component
+     */
+    function claimEth(
+        address account,
+        uint256 value,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external {
+        _claimEth(account, value, deadline, signId, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as claimEth, but signed as EIP-712 typed data (Claim struct with token = address(0) and fee = 0)
+     */
+    function claimEthTyped(
+        address account,
+        uint256 value,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external {
+        _claimEth(account, value, deadline, signId, sigV, sigR, sigS, true);
+    }
+
+    /**
+     * @dev Claim TRAX tokens using an authorized signature
+     * @param account Address that will receive the TRAX tokens
+     * @param value Amount of TRAX to mint and claim (in wei, 18 decimals)
+     * @param fee Fee in ETH required for this claim (must send as msg.value)
+     * @param deadline Timestamp after which the signature expires
+     * @param signId Unique signature ID for this claim to prevent replay
+     * @param sigV ECDSA signature v component
+     * @param sigR ECDSA signature r component
+     * @param sigS ECDSA signature s component
+     */
+    function claimTrax(
+        address account,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _checkFee(fee);
+        _claimTrax(account, value, fee, deadline, signId, sigV, sigR, sigS, false);
+    }
+
+    /**
+     * @dev Same as claimTrax, but signed as EIP-712 typed data (Claim struct with token = traxToken)
+     */
+    function claimTraxTyped(
+        address account,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _checkFee(fee);
+        _claimTrax(account, value, fee, deadline, signId, sigV, sigR, sigS, true);
+    }
+
+    /**
+     * @dev Claim several signed payloads for one account in a single transaction
+     * All claims succeed or the whole batch reverts, e.g. if one signId is already used
+     * @param account Address that will receive the tokens, ETH and TRAX
+     * @param claims Signed payloads, mixed ERC20 / ETH / TRAX
+     */
+    function claimBatch(address account, ClaimRequest[] calldata claims) external payable {
+        _claimBatch(account, claims, false);
+    }
+
+    /**
+     * @dev Same as claimBatch, but every payload is signed as EIP-712 typed data (see claimTyped / claimEthTyped / claimTraxTyped)
+     */
+    function claimBatchTyped(address account, ClaimRequest[] calldata claims) external payable {
+        _claimBatch(account, claims, true);
+    }
+
+    /**
+     * @dev One fee is charged per transaction: msg.value must cover the highest fee signed in the batch
+     */
+    function _claimBatch(address account, ClaimRequest[] calldata claims, bool typed) internal {
+        if (claims.length == 0) {
+            revert EmptyBatch();
+        }
+
+        uint256 batchFee;
+        for (uint256 i = 0; i < claims.length; i++) {
+            if (claims[i].fee > batchFee) {
+                batchFee = claims[i].fee;
+            }
+        }
+        _checkFee(batchFee);
+
+        for (uint256 i = 0; i < claims.length; i++) {
+            ClaimRequest calldata request = claims[i];
+            if (request.token == address(0)) {
+                // ETH claims do not sign a fee, a non-zero one would be charged without authorization
+                if (request.fee != 0) {
+                    revert UnexpectedFee();
+                }
+                _claimEth(account, request.value, request.deadline, request.signId, request.sigV, request.sigR, request.sigS, typed);
+            } else if (request.token == address(traxToken)) {
+                _claimTrax(account, request.value, request.fee, request.deadline, request.signId, request.sigV, request.sigR, request.sigS, typed);
+            } else {
+                _claim(account, request.token, request.value, request.fee, request.deadline, request.signId, request.sigV, request.sigR, request.sigS, typed);
+            }
+        }
+    }
+
+    /**
+     * @dev Validate fee payment
+     */
+    function _checkFee(uint256 fee) internal view {
         if (msg.value < fee) {
             revert InsufficientFee();
         }
+    }
 
+    /**
+     * @dev Claim tokens, `typed` selects EIP-712 or legacy message hash
+     */
+    function _claim(
+        address account,
+        address token,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
         // Validate inputs
         if (account == address(0) || token == address(0)) {
             revert ZeroAddress();
@@ -191,7 +383,9 @@ contract Claimer is AccessControl {
         }
 
         // Verify the signature
-        bytes32 message = keccak256(abi.encode(signId, account, token, value, fee, deadline, address(this)));
+        bytes32 message = typed
+            ? _claimDigest(signId, account, token, value, fee, deadline)
+            : keccak256(abi.encode(signId, account, token, value, fee, deadline, address(this)));
 
         address signer = ecrecover(message, sigV, sigR, sigS);
 
@@ -216,24 +410,18 @@ contract Claimer is AccessControl {
     }
 
     /**
-     * @dev Claim ETH using an authorized signature
-     * @param account Address that will receive the ETH
-     * @param value Amount of ETH to claim (in wei)
-     * @param deadline Timestamp after which the signature expires
-     * @param signId Unique signature ID for this claim to prevent replay
-     * @param sigV ECDSA signature v component
-     * @param sigR ECDSA signature r component
-     * @param sigS ECDSA signature s component
+     * @dev Claim ETH, `typed` selects EIP-712 or legacy message hash
      */
-    function claimEth(
+    function _claimEth(
         address account,
         uint256 value,
         uint256 deadline,
         uint256 signId,
         uint8 sigV,
         bytes32 sigR,
-        bytes32 sigS
-    ) external {
+        bytes32 sigS,
+        bool typed
+    ) internal {
         // Validate inputs
         if (account == address(0)) {
             revert ZeroAddress();
@@ -250,7 +438,9 @@ contract Claimer is AccessControl {
 
         // Verify the signature
         // Note: Using address(0) as token parameter to indicate ETH claim
-        bytes32 message = keccak256(abi.encode(signId, account, address(0), value, deadline, address(this)));
+        bytes32 message = typed
+            ? _claimDigest(signId, account, address(0), value, 0, deadline)
+            : keccak256(abi.encode(signId, account, address(0), value, deadline, address(this)));
 
         address signer = ecrecover(message, sigV, sigR, sigS);
 
@@ -276,17 +466,9 @@ contract Claimer is AccessControl {
     }
 
     /**
-     * @dev Claim TRAX tokens using an authorized signature
-     * @param account Address that will receive the TRAX tokens
-     * @param value Amount of TRAX to mint and claim (in wei, 18 decimals)
-     * @param fee Fee in ETH required for this claim (must send as msg.value)
-     * @param deadline Timestamp after which the signature expires
-     * @param signId Unique signature ID for this claim to prevent replay
-     * @param sigV ECDSA signature v component
-     * @param sigR ECDSA signature r component
-     * @param sigS ECDSA signature s component
+     * @dev Claim TRAX, `typed` selects EIP-712 or legacy message hash
      */
-    function claimTrax(
+    function _claimTrax(
         address account,
         uint256 value,
         uint256 fee,
@@ -294,13 +476,9 @@ contract Claimer is AccessControl {
         uint256 signId,
         uint8 sigV,
         bytes32 sigR,
-        bytes32 sigS
-    ) external payable {
-        // Validate fee payment
-        if (msg.value < fee) {
-            revert InsufficientFee();
-        }
-
+        bytes32 sigS,
+        bool typed
+    ) internal {
         // Validate inputs
         if (account == address(0)) {
             revert ZeroAddress();
@@ -317,7 +495,9 @@ contract Claimer is AccessControl {
 
         // Verify the signature
         // Note: Using address(traxToken) to indicate TRAX claim
-        bytes32 message = keccak256(abi.encode(signId, account, address(traxToken), value, fee, deadline, address(this)));
+        bytes32 message = typed
+            ? _claimDigest(signId, account, address(traxToken), value, fee, deadline)
+            : keccak256(abi.encode(signId, account, address(traxToken), value, fee, deadline, address(this)));
 
         address signer = ecrecover(message, sigV, sigR, sigS);
 
@@ -334,6 +514,20 @@ contract Claimer is AccessControl {
         emit ClaimedTrax(account, value, deadline, signId);
     }
 
+    /**
+     * @dev EIP-712 digest of a Claim struct
+     */
+    function _claimDigest(
+        uint256 signId,
+        address account,
+        address token,
+        uint256 value,
+        uint256 fee,
+        uint256 deadline
+    ) internal view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(CLAIM_TYPEHASH, signId, account, token, value, fee, deadline)));
+    }
+
     /**
      * @dev Withdraw tokens from the contract
      * @param token ERC20 token address to withdraw
@@ -0,0 +1,336 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+//
+// Roach Racing Club makes trading a social and competitive game —
+// play with friends, prove your edge, and win while having fun
+// https://roach.fun
+/*
+                                                                   ..::--------::..
+                                                               .:--------------------::
+                                                            :----------------------------:
+                                                         .:---------------------------------.
+                                                        :-------------------------------------
+                                                      .----------------------------------------:
+                                                     :------------------------------------------:
+                                                    :--===----------------------------------===--:
+                                                   .--+@@@@%%#+=----------------------=+*#%@@@@+--:
+                                                   ---@@@@@@@@@@@#+----------------+#@@@@@@@@@@@=--
+                                                  :--+@@@@@@@@@@@@@@#+----------=#@@@@@@@@@@@@@@*--:
+                                                  ---#@@@@@@@@@@@@@@@@%+------=%@@@@@@@@@@@@@@@@%---
+                                                  -----==+*%@@@@@@@@@@@@%=--=#@@@@@@@@@@@@%*++=-----
+                                                  -----------=*@@@@@@@@@@@*+@@@@@@@@@@@#+-----------
+                                                  :-------------+%@@@@@@@@@@@@@@@@@@%+-------------:
+                                                   ---------------*@@@@@@@@@@@@@@@@*---------------
+                                                   :---------------=@@@@@@@@@@@@@@+---------------:
+                                                    :---------------=@@@@@@@@@@@@=----------------
+                                                     :---------------+@@@@@@@@@@*---------------:
+                                                      :---------------%@@@@@@@@@---------------:
+                                                        --------------#@@@@@@@@%--------------.
+                                                         .------------#@@@@@@@@#------------.
+                                                            :---------*@@@@@@@@#---------:.
+                                                               :----------------------:.
+                                                                     ..::--------:::.
+
+
+
+███████╗██╗  ██╗ █████╗ ██████╗  ██████╗ ██╗    ██╗    ███████╗██╗   ██╗███╗   ██╗██████╗ ██╗ ██████╗ █████╗ ████████╗███████╗    ██╗███╗   ██╗ ██████╗
+██╔════╝██║  ██║██╔══██╗██╔══██╗██╔═══██╗██║    ██║    ██╔════╝╚██╗ ██╔╝████╗  ██║██╔══██╗██║██╔════╝██╔══██╗╚══██╔══╝██╔════╝    ██║████╗  ██║██╔════╝
+███████╗███████║███████║██║  ██║██║   ██║██║ █╗ ██║    ███████╗ ╚████╔╝ ██╔██╗ ██║██║  ██║██║██║     ███████║   ██║   █████╗      ██║██╔██╗ ██║██║
+╚════██║██╔══██║██╔══██║██║  ██║██║   ██║██║███╗██║    ╚════██║  ╚██╔╝  ██║╚██╗██║██║  ██║██║██║     ██╔══██║   ██║   ██╔══╝      ██║██║╚██╗██║██║
+███████║██║  ██║██║  ██║██████╔╝╚██████╔╝╚███╔███╔╝    ███████║   ██║   ██║ ╚████║██████╔╝██║╚██████╗██║  ██║   ██║   ███████╗    ██║██║ ╚████║╚██████╗██╗
+╚══════╝╚═╝  ╚═╝╚═╝  ╚═╝╚═════╝  ╚═════╝  ╚══╝╚══╝     ╚══════╝   ╚═╝   ╚═╝  ╚═══╝╚═════╝ ╚═╝ ╚═════╝╚═╝  ╚═╝   ╚═╝   ╚══════╝    ╚═╝╚═╝  ╚═══╝ ╚═════╝╚═╝
+
+*/
+
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "./interfaces/IInventory.sol";
+import "./interfaces/IACID.sol";
+import "./interfaces/IROACH.sol";
+
+/**
+ * @title Crafter
+ * @dev Contract for crafting Inventory items from recipes.
+ * Managers define recipes (input items burned, output items minted, optional cooldown,
+ * optional ACID/ROACH price and time window), users craft them against their Inventory balance.
+ */
+contract Crafter is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
+    // Role for managing recipes
+    bytes32 public constant MANAGER_ROLE = keccak256("MANAGER_ROLE");
+
+    /**
+     * @dev Recipe structure
+     * @param inputIds Item IDs burned from the crafter
+     * @param inputCounts Corresponding quantities for each input item
+     * @param outputIds Item IDs minted to the crafter
+     * @param outputCounts Corresponding quantities for each output item
+     * @param cooldown Seconds between two crafts of this recipe by the same account (0 = none)
+     * @param priceInAcid Price in ACID tokens (0 = ACID payment not available)
+     * @param priceInRoach Price in ROACH tokens (0 = ROACH payment not available)
+     * @param startTime Unix timestamp when the recipe becomes available
+     * @param deadline Unix timestamp when the recipe expires (0 = no deadline)
+     */
+    struct Recipe {
+        uint256[] inputIds;
+        uint256[] inputCounts;
+        uint256[] outputIds;
+        uint256[] outputCounts;
+        uint256 cooldown;
+        uint256 priceInAcid;
+        uint256 priceInRoach;
+        uint256 startTime;
+        uint256 deadline;
+    }
+
+    // Inventory contract for minting/burning items
+    IInventory public inventory;
+    // ACID token used as payment currency (burned on craft)
+    IACID public acid;
+    // ROACH token used as payment currency (burned on craft)
+    IROACH public roach;
+
+    // Mapping from recipe ID to Recipe details
+    mapping(uint256 => Recipe) internal recipes;
+    // Last craft timestamp per account per recipe (account -> recipeId -> timestamp)
+    mapping(address => mapping(uint256 => uint256)) public lastCraftedAt;
+
+    /**
+     * @dev Emitted when a recipe is crafted
+     */
+    event Crafted(
+        address indexed account,
+        uint256 indexed recipeId,
+        uint256 acidAmount,
+        uint256 roachAmount,
+        uint256 signId
+    );
+
+    /**
+     * @dev Emitted when a recipe is created or updated
+     */
+    event RecipeSet(uint256 indexed recipeId, uint256 priceAcid, uint256 priceRoach, uint256 startTime, uint256 deadline);
+
+    // Custom errors for gas-efficient reverts
+    error InvalidRecipe(); // Recipe doesn't exist or has no outputs
+    error ArraysLengthMismatch(); // Item IDs and counts arrays have different lengths
+    error RecipeNotActive(); // Recipe is outside its time window
+    error CooldownActive(); // Account crafted this recipe too recently
+    error InsufficientItems(); // Account doesn't own enough of an input item
+    error PaymentRequired(); // Recipe has a price, use craftForACID or craftForRoach
+    error AcidPaymentNotAvailable(); // Recipe doesn't support ACID payment
+    error RoachPaymentNotAvailable(); // Recipe doesn't support ROACH payment
+    error InsufficientPayment(); // Payment amount is less than required
+    error ZeroAddress(); // Required address cannot be zero
+
+    /**
+     * @dev Constructor that disables initializers to prevent implementation contract initialization
+     */
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize the Crafter contract (replaces constructor for upgradeable pattern)
+     * @param _inventory Address of the Inventory contract
+     * @param _acid Address of the ACID token contract
+     * @param _roach Address of the ROACH token contract
+     * @param _admin Address to be granted admin and manager roles
+     */
+    function initialize(
+        address _inventory,
+        address _acid,
+        address _roach,
+        address _admin
+    ) public initializer {
+        if (_inventory == address(0)) revert ZeroAddress();
+        if (_acid == address(0)) revert ZeroAddress();
+        if (_roach == address(0)) revert ZeroAddress();
+        if (_admin == address(0)) revert ZeroAddress();
+
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
+
+        inventory = IInventory(_inventory);
+        acid = IACID(_acid);
+        roach = IROACH(_roach);
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        _grantRole(MANAGER_ROLE, _admin);
+    }
+
+    /**
+     * @dev Function that authorizes contract upgrades
+     * @param newImplementation Address of the new implementation contract
+     */
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    /**
+     * @dev Create or update a recipe, a recipe is disabled by moving its deadline to the past
+     * @param recipeId Unique identifier for the recipe
+     * @param recipe Recipe details
+     */
+    function setRecipe(uint256 recipeId, Recipe calldata recipe) external onlyRole(MANAGER_ROLE) {
+        if (recipe.outputIds.length == 0) {
+            revert InvalidRecipe();
+        }
+        if (recipe.inputIds.length != recipe.inputCounts.length || recipe.outputIds.length != recipe.outputCounts.length) {
+            revert ArraysLengthMismatch();
+        }
+
+        recipes[recipeId] = recipe;
+
+        emit RecipeSet(recipeId, recipe.priceInAcid, recipe.priceInRoach, recipe.startTime, recipe.deadline);
+    }
+
+    /**
+     * @dev Craft a recipe without a price
+     * @param recipeId ID of the recipe to craft
+     */
+    function craft(uint256 recipeId) external {
+        Recipe storage recipe = _getRecipe(recipeId);
+
+        if (recipe.priceInAcid != 0 || recipe.priceInRoach != 0) {
+            revert PaymentRequired();
+        }
+
+        _craft(recipeId, recipe);
+
+        emit Crafted(msg.sender, recipeId, 0, 0, 0);
+    }
+
+    /**
+     * @dev Craft a recipe paying with ACID tokens
+     * @param recipeId ID of the recipe to craft
+     * @param acidValue Amount of ACID to spend
+     * @param signId Signature ID for ACID burn
+     * @param sigV ECDSA signature v component
+     * @param sigR ECDSA signature r component
+     * @param sigS ECDSA signature s component
+     */
+    function craftForACID(
+        uint256 recipeId,
+        uint256 acidValue,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external {
+        Recipe storage recipe = _getRecipe(recipeId);
+
+        if (recipe.priceInAcid == 0) {
+            revert AcidPaymentNotAvailable();
+        }
+        if (acidValue < recipe.priceInAcid) {
+            revert InsufficientPayment();
+        }
+
+        // Burn ACID tokens as payment (requires signature)
+        acid.useFrom(msg.sender, acidValue, signId, 0, sigV, sigR, sigS);
+
+        _craft(recipeId, recipe);
+
+        emit Crafted(msg.sender, recipeId, acidValue, 0, signId);
+    }
+
+    /**
+     * @dev Craft a recipe paying with ROACH tokens
+     * @param recipeId ID of the recipe to craft
+     * @param roachValue Amount of ROACH to spend
+     * @param signId Signature ID for ROACH burn
+     * @param sigV ECDSA signature v component
+     * @param sigR ECDSA signature r component
+     * @param sigS ECDSA signature s component
+     */
+    function craftForRoach(
+        uint256 recipeId,
+        uint256 roachValue,
+        uint256 signId,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external {
+        Recipe storage recipe = _getRecipe(recipeId);
+
+        if (recipe.priceInRoach == 0) {
+            revert RoachPaymentNotAvailable();
+        }
+        if (roachValue < recipe.priceInRoach) {
+            revert InsufficientPayment();
+        }
+
+        // Burn ROACH tokens as payment (requires signature)
+        roach.useFrom(msg.sender, roachValue, signId, 0, sigV, sigR, sigS);
+
+        _craft(recipeId, recipe);
+
+        emit Crafted(msg.sender, recipeId, 0, roachValue, signId);
+    }
+
+    /**
+     * @dev Internal function to load an existing recipe
+     * @param recipeId ID of the recipe
+     */
+    function _getRecipe(uint256 recipeId) internal view returns (Recipe storage recipe) {
+        recipe = recipes[recipeId];
+        if (recipe.outputIds.length == 0) {
+            revert InvalidRecipe();
+        }
+    }
+
+    /**
+     * @dev Internal function to validate the craft, burn inputs and mint outputs
+     * @param recipeId ID of the recipe being crafted
+     * @param recipe The recipe being crafted
+     */
+    function _craft(uint256 recipeId, Recipe storage recipe) internal {
+        // Verify the recipe is within its active time window
+        if (block.timestamp < recipe.startTime || (recipe.deadline != 0 && block.timestamp > recipe.deadline)) {
+            revert RecipeNotActive();
+        }
+
+        // Ensure the account's previous craft of this recipe is out of cooldown
+        uint256 lastCraft = lastCraftedAt[msg.sender][recipeId];
+        if (recipe.cooldown != 0 && lastCraft != 0 && lastCraft + recipe.cooldown > block.timestamp) {
+            revert CooldownActive();
+        }
+        // Start the cooldown before the external calls, mintBatch calls back into contract crafters
+        lastCraftedAt[msg.sender][recipeId] = block.timestamp;
+
+        // Consume input items
+        for (uint256 i = 0; i < recipe.inputIds.length; i++) {
+            if (inventory.balanceOf(msg.sender, recipe.inputIds[i]) < recipe.inputCounts[i]) {
+                revert InsufficientItems();
+            }
+            inventory.burnAdmin(msg.sender, recipe.inputIds[i], recipe.inputCounts[i], "");
+        }
+
+        inventory.mintBatch(msg.sender, recipe.outputIds, recipe.outputCounts, "");
+    }
+
+    /**
+     * @dev Get the earliest time an account can craft a recipe again
+     * @param account Account to check
+     * @param recipeId ID of the recipe
+     * @return uint256 Unix timestamp, 0 if the account is not in cooldown
+     */
+    function getNextCraftTime(address account, uint256 recipeId) external view returns (uint256) {
+        uint256 lastCraft = lastCraftedAt[account][recipeId];
+        uint256 cooldown = recipes[recipeId].cooldown;
+        if (cooldown == 0 || lastCraft == 0 || lastCraft + cooldown <= block.timestamp) {
+            return 0;
+        }
+        return lastCraft + cooldown;
+    }
+
+    /**
+     * @dev Get complete information about a specific recipe
+     * @param recipeId ID of the recipe to query
+     * @return Recipe details (empty outputIds if the recipe doesn't exist)
+     */
+    function getRecipe(uint256 recipeId) external view returns (Recipe memory) {
+        return recipes[recipeId];
+    }
+}
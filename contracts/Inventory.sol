@@ -45,12 +45,14 @@
 pragma solidity ^0.8.0;
 
 import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import {SignerRotationUpgradeable} from "./utils/SignerRotationUpgradeable.sol";
 import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import {ERC1155Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC1155/ERC1155Upgradeable.sol";
 import {ERC1155BurnableUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC1155/extensions/ERC1155BurnableUpgradeable.sol";
 import {ERC1155PausableUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC1155/extensions/ERC1155PausableUpgradeable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import {EIP712Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
@@ -71,8 +73,9 @@ import "./interfaces/IERC173.sol";
  * - Role-based access control (MINTER, BURNER, BAN, and WITHDRAW roles).
  * - ETH and ERC20 withdrawal capabilities.
  * - Deadline-based signature validation.
+ * - EIP-712 typed data variants of claim and use.
  */
-contract Inventory is Initializable, IInventory, AccessControlUpgradeable, ERC1155BurnableUpgradeable, ERC1155PausableUpgradeable, UUPSUpgradeable, OwnableUpgradeable {
+contract Inventory is Initializable, IInventory, SignerRotationUpgradeable, ERC1155BurnableUpgradeable, ERC1155PausableUpgradeable, UUPSUpgradeable, OwnableUpgradeable, EIP712Upgradeable {
     using SafeERC20 for IERC20;
 
     /// @notice Role identifier for accounts authorized to mint new tokens
@@ -90,6 +93,12 @@ contract Inventory is Initializable, IInventory, AccessControlUpgradeable, ERC11
     /// @notice Role identifier for accounts authorized to pause/unpause the contract
     bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
 
+    /// @notice EIP-712 struct type for claimTyped, data is hashed as keccak256(data)
+    bytes32 public constant CLAIM_TYPEHASH = keccak256("Claim(uint256 signId,address account,uint256 tokenId,uint256 amount,uint256 fee,uint256 deadline,bytes data)");
+
+    /// @notice EIP-712 struct type for useTyped, data is hashed as keccak256(data)
+    bytes32 public constant USE_TYPEHASH = keccak256("Use(uint256 signId,address account,uint256 id,uint256 amount,uint256 fee,uint256 deadline,bytes data)");
+
     /// @notice Address used to verify signatures for claim and use operations
     address public signerAddress;
 
@@ -131,9 +140,6 @@ contract Inventory is Initializable, IInventory, AccessControlUpgradeable, ERC11
     /// @notice Thrown when a provided signature is invalid
     error WrongSignature();
 
-    /// @notice Thrown when a zero address is provided where it's not allowed
-    error ZeroAddress();
-
     /// @notice Thrown when attempting to use a signature that has already been used
     error SignAlreadyUsed();
 
@@ -298,6 +304,11 @@ contract Inventory is Initializable, IInventory, AccessControlUpgradeable, ERC11
         signerAddress = newSigner;
     }
 
+    /// @dev signerAddress is the main signer checked by isSigner
+    function _signerAddress() internal view override returns (address) {
+        return signerAddress;
+    }
+
     /// @notice Mints a specified amount of a token to an account
     /// @dev Only callable by accounts with MINTER_ROLE
     /// @param account Address to mint tokens to
@@ -351,26 +362,23 @@ contract Inventory is Initializable, IInventory, AccessControlUpgradeable, ERC11
     /// @param sigS S component of the ECDSA signature
     /// @param data Additional data to include in the claim event
     function claim(uint signId, uint256 tokenId, uint amount, uint fee, uint deadline, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes memory data) external payable {
-        if (msg.value < fee) {
-            revert NotEnoughFee();
-        }
-        if (deadline < block.timestamp) {
-            revert DeadlineExceeded();
-        }
         address account = msg.sender;
 
         // Hash the claim parameters including deadline and contract address
         bytes32 msgHash = keccak256(abi.encode(signId, account, tokenId, amount, fee, deadline, data, address(this), "claim"));
+        _checkSigned(signId, fee, deadline, msgHash, sigV, sigR, sigS);
 
-        // Recover signer from signature and validate
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
-            revert WrongSignature();
-        }
+        _mint(account, tokenId, amount, data);
+        emit Claimed(signId, account, tokenId, amount, data);
+    }
 
-        if (usedSignId[signId]) {
-            revert SignAlreadyUsed();
-        }
-        usedSignId[signId] = true;
+    /// @notice Same as claim, but signed as EIP-712 typed data (Claim struct, see CLAIM_TYPEHASH)
+    /// @dev Signature IDs are shared with claim and use, each signId can be used once across all of them
+    function claimTyped(uint signId, uint256 tokenId, uint amount, uint fee, uint deadline, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes memory data) external payable {
+        address account = msg.sender;
+
+        bytes32 digest = _hashTypedDataV4(_hashSignedStruct(CLAIM_TYPEHASH, signId, account, tokenId, amount, fee, deadline, data));
+        _checkSigned(signId, fee, deadline, digest, sigV, sigR, sigS);
 
         _mint(account, tokenId, amount, data);
         emit Claimed(signId, account, tokenId, amount, data);
@@ -388,18 +396,39 @@ contract Inventory is Initializable, IInventory, AccessControlUpgradeable, ERC11
     /// @param sigS S component of the ECDSA signature
     /// @param data Additional data to include in the use event
     function use(uint signId, uint256 id, uint amount, uint fee, uint deadline, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes memory data) external payable {
+        address account = msg.sender;
+        // Hash the use parameters including deadline and contract address
+        bytes32 msgHash = keccak256(abi.encode(signId, account, id, amount, fee, deadline, data, address(this), "use"));
+        _checkSigned(signId, fee, deadline, msgHash, sigV, sigR, sigS);
+        emit SignUsed(signId, account, id, amount, data);
+
+        _use(account, id, amount, data);
+    }
+
+    /// @notice Same as use, but signed as EIP-712 typed data (Use struct, see USE_TYPEHASH)
+    /// @dev Signature IDs are shared with claim and use, each signId can be used once across all of them
+    function useTyped(uint signId, uint256 id, uint amount, uint fee, uint deadline, uint8 sigV, bytes32 sigR, bytes32 sigS, bytes memory data) external payable {
+        address account = msg.sender;
+
+        bytes32 digest = _hashTypedDataV4(_hashSignedStruct(USE_TYPEHASH, signId, account, id, amount, fee, deadline, data));
+        _checkSigned(signId, fee, deadline, digest, sigV, sigR, sigS);
+        emit SignUsed(signId, account, id, amount, data);
+
+        _use(account, id, amount, data);
+    }
+
+    /// @dev Checks fee, deadline and signer of a signed claim/use message, then marks signId as used
+    /// @param msgHash Legacy message hash or EIP-712 digest
+    function _checkSigned(uint signId, uint fee, uint deadline, bytes32 msgHash, uint8 sigV, bytes32 sigR, bytes32 sigS) internal {
         if (msg.value < fee) {
             revert NotEnoughFee();
         }
         if (deadline < block.timestamp) {
             revert DeadlineExceeded();
         }
-        address account = msg.sender;
-        // Hash the use parameters including deadline and contract address
-        bytes32 msgHash = keccak256(abi.encode(signId, account, id, amount, fee, deadline, data, address(this), "use"));
 
         // Recover signer from signature and validate
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
@@ -407,9 +436,21 @@ contract Inventory is Initializable, IInventory, AccessControlUpgradeable, ERC11
             revert SignAlreadyUsed();
         }
         usedSignId[signId] = true;
-        emit SignUsed(signId, account, id, amount, data);
+    }
 
-        _use(account, id, amount, data);
+    /// @dev EIP-712 struct hash shared by Claim and Use, which only differ in type name and id field name
+    function _hashSignedStruct(bytes32 typeHash, uint signId, address account, uint256 id, uint amount, uint fee, uint deadline, bytes memory data) internal pure returns (bytes32) {
+        return keccak256(abi.encode(typeHash, signId, account, id, amount, fee, deadline, keccak256(data)));
+    }
+
+    /// @dev EIP-712 domain name, returned directly so proxies deployed before EIP-712 support need no reinitialization
+    function _EIP712Name() internal pure override returns (string memory) {
+        return "Inventory";
+    }
+
+    /// @dev EIP-712 domain version
+    function _EIP712Version() internal pure override returns (string memory) {
+        return "1";
     }
 
     /// @notice Allows authorized burners to burn tokens from any account
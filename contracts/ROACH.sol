@@ -43,13 +43,16 @@
 */
 pragma solidity ^0.8.24;
 
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {SignerRotation} from "./utils/SignerRotation.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import {ERC20Burnable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import {ERC20Pausable} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Pausable.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 
-contract ROACH is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
+contract ROACH is ERC20, ERC20Burnable, ERC20Pausable, SignerRotation, EIP712 {
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    // EIP-712 struct type for useTyped and useFromTyped
+    bytes32 public constant USE_TYPEHASH = keccak256("Use(uint256 id,uint256 value,address account,uint256 param)");
 
     uint public mintLimitPerTx = 10_000 * (10 ** decimals());
     address public signerAddress;
@@ -58,12 +61,12 @@ contract ROACH is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
     event Used(uint256 indexed id, uint256 value, address indexed sender, uint256 indexed param);
 
     error MintLimit();
-    error ZeroAddress();
     error WrongSignature();
     error IdUsed();
 
     constructor(address defaultAdmin, address minter, address _signerAddress)
         ERC20("Roach Racing Club", "ROACH")
+        EIP712("ROACH", "1")
     {
         if (defaultAdmin == address(0x0)) {
             revert ZeroAddress();
@@ -92,9 +95,16 @@ contract ROACH is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
         signerAddress = newSigner;
     }
 
-    function _use(uint256 value, uint256 id, address account, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) virtual internal {
-        bytes32 msgHash = keccak256(abi.encode(id, value, account, param, address(this)));
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+    /// @dev signerAddress is the main signer checked by isSigner
+    function _signerAddress() internal view override returns (address) {
+        return signerAddress;
+    }
+
+    function _use(uint256 value, uint256 id, address account, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS, bool typed) virtual internal {
+        bytes32 msgHash = typed
+            ? _hashTypedDataV4(keccak256(abi.encode(USE_TYPEHASH, id, value, account, param)))
+            : keccak256(abi.encode(id, value, account, param, address(this)));
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
         if (usedId[id]) {
@@ -106,13 +116,24 @@ contract ROACH is ERC20, ERC20Burnable, ERC20Pausable, AccessControl {
 
     function use(uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
         _burn(_msgSender(), value);
-        _use(value, id, _msgSender(), param, sigV, sigR, sigS);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, false);
+    }
+
+    function useTyped(uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
+        _burn(_msgSender(), value);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, true);
     }
 
     function useFrom(address account, uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
         _spendAllowance(account, _msgSender(), value);
         _burn(account, value);
-        _use(value, id, _msgSender(), param, sigV, sigR, sigS);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, false);
+    }
+
+    function useFromTyped(address account, uint256 value, uint256 id, uint256 param, uint8 sigV, bytes32 sigR, bytes32 sigS) external {
+        _spendAllowance(account, _msgSender(), value);
+        _burn(account, value);
+        _use(value, id, _msgSender(), param, sigV, sigR, sigS, true);
     }
 
     function _update(address from, address to, uint256 value)
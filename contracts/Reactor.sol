@@ -54,7 +54,7 @@ import "./interfaces/IInventory.sol";
  * @dev Contract for Reactor upgrades and activations.
  * Allows users to upgrade reactors by burning batteries and the current reactor
  * to obtain the next-level reactor. Each upgrade triggers a time-limited boost period
- * during which no further upgrades are allowed.
+ * during which no further upgrades of the same reactor series are allowed.
  * Reactors follow a sequential upgrade path with configurable limits.
  */
 contract Reactor is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
@@ -76,7 +76,8 @@ contract Reactor is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
     // Maximum number of activations allowed per reactor line
     uint256 public activationCount;
 
-    // Mapping from user address to their activation expiry timestamp
+    // Legacy per-user activation expiry, written before cooldowns were tracked per series.
+    // Still honored for every series of the user until it expires, no longer written
     mapping(address => uint256) public activeUntil;
     // Track battery usage history per reactor per user (user -> reactorId -> array of batteryIds used)
     mapping(address => mapping(uint256 => uint256[])) public batteryUsageHistory;
@@ -84,6 +85,30 @@ contract Reactor is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
     mapping(uint256 => uint256) public batteryReactorOffset;
     // Array of all configured battery item IDs
     uint256[] public configuredBatteryIds;
+    // Activation expiry per user per reactor series (user -> seriesId -> timestamp)
+    mapping(address => mapping(uint256 => uint256)) public seriesActiveUntil;
+
+    /**
+     * @dev Status of one reactor item owned by a user, returned by getReactorStatus
+     * @param itemId Reactor item ID owned by the user
+     * @param seriesId Base reactor series ID
+     * @param activationLevel Current activation level (capped at activationCount for final variants)
+     * @param canActivate True if the reactor can be activated further
+     * @param batteryHistory Battery item IDs used in this series (see getBatteryHistory)
+     * @param predictedFinalItemId Final variant from the batteries used so far (the last battery can still raise it)
+     * @param activeUntil Activation expiry of the series (see getActiveUntil)
+     * @param remainingTime Seconds until the series can be activated again
+     */
+    struct ReactorStatus {
+        uint256 itemId;
+        uint256 seriesId;
+        uint256 activationLevel;
+        bool canActivate;
+        uint256[] batteryHistory;
+        uint256 predictedFinalItemId;
+        uint256 activeUntil;
+        uint256 remainingTime;
+    }
 
     /**
      * @dev Emitted when a reactor is successfully activated/upgraded
@@ -97,6 +122,17 @@ contract Reactor is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
         uint256 activeUntil
     );
 
+    /**
+     * @dev Emitted when a manager reverts the last activation of a reactor
+     */
+    event ActivationReverted(
+        address indexed account,
+        uint256 indexed revertedItemId,
+        uint256 indexed restoredItemId,
+        uint256 batteryItemId,
+        bool batteryRefunded
+    );
+
     /**
      * @dev Emitted when a battery item ID is added or removed
      */
@@ -118,6 +154,7 @@ contract Reactor is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
     error InvalidBatteryId(); // Battery ID is not enabled
     error MaxActivationsReached(); // Reactor has reached max upgrade level
     error ActivationStillActive(); // Previous activation hasn't expired yet
+    error NoActivationToRevert(); // Reactor is at its base level or has no battery history
 
     /**
      * @dev Constructor that disables initializers to prevent implementation contract initialization
@@ -290,14 +327,170 @@ contract Reactor is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
         return activations < activationCount;
     }
 
+    /**
+     * @dev Get the battery usage history of a user for a reactor series
+     * @param user User address to check
+     * @param reactorItemId Any reactor item ID of the series
+     * @return history Battery item IDs used in this series, grouped by history key (per itemId, then per seriesId)
+     */
+    function getBatteryHistory(address user, uint256 reactorItemId) public view returns (uint256[] memory history) {
+        uint256 seriesId = getReactorSeries(reactorItemId);
+
+        // Same backward compatible lookup as getOffsetFromActivationHistory (history per itemId and per seriesId)
+        uint256 length = 0;
+        for (uint256 i = 0; i < activationCount; i++) {
+            length += batteryUsageHistory[user][seriesId + i].length;
+        }
+
+        history = new uint256[](length);
+        uint256 index = 0;
+        for (uint256 i = 0; i < activationCount; i++) {
+            uint256[] storage entries = batteryUsageHistory[user][seriesId + i];
+            for (uint256 j = 0; j < entries.length; j++) {
+                history[index++] = entries[j];
+            }
+        }
+    }
+
+    /**
+     * @dev Get all configured battery item IDs
+     * @return uint256[] Battery item IDs (including disabled ones with zero duration)
+     */
+    function getConfiguredBatteryIds() external view returns (uint256[] memory) {
+        return configuredBatteryIds;
+    }
+
+    /**
+     * @dev Get the activation expiry of a user's reactor series, including the legacy per-user expiry
+     * @param user User address to check
+     * @param reactorItemId Any reactor item ID of the series
+     * @return uint256 Timestamp until which the series cannot be activated
+     */
+    function getActiveUntil(address user, uint256 reactorItemId) public view returns (uint256) {
+        uint256 expiry = seriesActiveUntil[user][getReactorSeries(reactorItemId)];
+        uint256 legacyExpiry = activeUntil[user];
+        return legacyExpiry > expiry ? legacyExpiry : expiry;
+    }
+
+    /**
+     * @dev Get the time left before a user can activate a reactor series again
+     * @param user User address to check
+     * @param reactorItemId Any reactor item ID of the series
+     * @return uint256 Seconds until getActiveUntil, 0 if no activation is running
+     */
+    function getRemainingActivationTime(address user, uint256 reactorItemId) public view returns (uint256) {
+        uint256 expiry = getActiveUntil(user, reactorItemId);
+        return expiry > block.timestamp ? expiry - block.timestamp : 0;
+    }
+
+    /**
+     * @dev Get all reactor items owned by a user: every activation level and final variant of each series
+     * @param user User address to check
+     * @return owned Owned reactor item IDs, in series order
+     */
+    function getOwnedReactors(address user) public view returns (uint256[] memory owned) {
+        if (reactorIdStep == 0 || maxReactorId < minReactorId) {
+            return owned;
+        }
+
+        uint256[] memory finalOffsets = _getDistinctBatteryOffsets();
+        uint256 seriesCount = (maxReactorId - minReactorId) / reactorIdStep + 1;
+        uint256 perSeries = activationCount + finalOffsets.length;
+
+        // Candidate item IDs: levels 0..activationCount-1 and final variants of each series
+        address[] memory accounts = new address[](seriesCount * perSeries);
+        uint256[] memory ids = new uint256[](seriesCount * perSeries);
+        uint256 index = 0;
+        for (uint256 seriesId = minReactorId; seriesId <= maxReactorId; seriesId += reactorIdStep) {
+            for (uint256 level = 0; level < activationCount; level++) {
+                accounts[index] = user;
+                ids[index++] = seriesId + level * activationStep;
+            }
+            for (uint256 i = 0; i < finalOffsets.length; i++) {
+                accounts[index] = user;
+                ids[index++] = seriesId + activationCount * activationStep + finalOffsets[i];
+            }
+        }
+
+        uint256[] memory balances = inventory.balanceOfBatch(accounts, ids);
+        uint256 count = 0;
+        for (uint256 i = 0; i < balances.length; i++) {
+            if (balances[i] > 0) {
+                count++;
+            }
+        }
+
+        owned = new uint256[](count);
+        index = 0;
+        for (uint256 i = 0; i < balances.length; i++) {
+            if (balances[i] > 0) {
+                owned[index++] = ids[i];
+            }
+        }
+    }
+
+    /**
+     * @dev Get the full reactor status of a user for the game UI
+     * @param user User address to check
+     * @return reactors Status of each owned reactor item
+     */
+    function getReactorStatus(address user) external view returns (ReactorStatus[] memory reactors) {
+        uint256[] memory owned = getOwnedReactors(user);
+        reactors = new ReactorStatus[](owned.length);
+
+        for (uint256 i = 0; i < owned.length; i++) {
+            uint256 itemId = owned[i];
+            uint256 seriesId = getReactorSeries(itemId);
+            uint256 level = getCurrentActivationLevel(itemId);
+
+            reactors[i] = ReactorStatus({
+                itemId: itemId,
+                seriesId: seriesId,
+                activationLevel: level > activationCount ? activationCount : level,
+                canActivate: canActivate(itemId),
+                batteryHistory: getBatteryHistory(user, itemId),
+                predictedFinalItemId: seriesId + activationCount * activationStep + getOffsetFromActivationHistory(user, itemId),
+                activeUntil: getActiveUntil(user, itemId),
+                remainingTime: getRemainingActivationTime(user, itemId)
+            });
+        }
+    }
+
+    /**
+     * @dev Internal function to list the distinct reactor offsets of configured batteries
+     * @return offsets Distinct offsets, in configuration order
+     */
+    function _getDistinctBatteryOffsets() internal view returns (uint256[] memory offsets) {
+        uint256[] memory buffer = new uint256[](configuredBatteryIds.length);
+        uint256 count = 0;
+        for (uint256 i = 0; i < configuredBatteryIds.length; i++) {
+            uint256 offset = batteryReactorOffset[configuredBatteryIds[i]];
+            bool seen = false;
+            for (uint256 j = 0; j < count; j++) {
+                if (buffer[j] == offset) {
+                    seen = true;
+                    break;
+                }
+            }
+            if (!seen) {
+                buffer[count++] = offset;
+            }
+        }
+
+        offsets = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            offsets[i] = buffer[i];
+        }
+    }
+
     /**
      * @dev Activate/upgrade a reactor by burning battery and current reactor
      * @param reactorItemId Current reactor item ID to upgrade
      * @param batteryItemId Battery item ID to use for activation
      */
     function activate(uint256 reactorItemId, uint256 batteryItemId) external {
-        // Ensure previous activation has expired before allowing new upgrade
-        if (activeUntil[msg.sender] > block.timestamp) {
+        // Ensure previous activation of this series has expired before allowing new upgrade
+        if (getActiveUntil(msg.sender, reactorItemId) > block.timestamp) {
             revert ActivationStillActive();
         }
 
@@ -351,9 +544,56 @@ contract Reactor is Initializable, AccessControlUpgradeable, UUPSUpgradeable {
         uint256 activatedAt = block.timestamp;
         uint256 expiryTime = activatedAt + activationDuration;
 
-        // Record activation expiry to prevent immediate re-activation
-        activeUntil[msg.sender] = expiryTime;
+        // Record activation expiry to prevent immediate re-activation of this series
+        seriesActiveUntil[msg.sender][seriesId] = expiryTime;
 
         emit Activated(msg.sender, reactorItemId, newItemId, batteryItemId, activatedAt, expiryTime);
     }
+
+    /**
+     * @dev Revert the last activation of a user's reactor: burn the current reactor, restore the previous one,
+     * pop the last battery from the series history and optionally re-mint that battery.
+     * Also clears the series cooldown so the user can activate it again. The legacy per-user activeUntil blocks
+     * every series of the user and is left to expire, reverting one series must not unlock the others.
+     * @param user User whose activation is reverted
+     * @param reactorItemId Reactor item ID the user currently owns (result of the activation to revert)
+     * @param refundBattery True to mint the popped battery back to the user
+     */
+    function revertActivation(address user, uint256 reactorItemId, bool refundBattery) external onlyRole(MANAGER_ROLE) {
+        uint256 seriesId = getReactorSeries(reactorItemId);
+        uint256 level = getCurrentActivationLevel(reactorItemId);
+        if (seriesId < minReactorId || seriesId > maxReactorId || level == 0) {
+            revert NoActivationToRevert();
+        }
+
+        if (inventory.balanceOf(user, reactorItemId) == 0) {
+            revert ItemNotOwned();
+        }
+
+        // Final variants (level >= activationCount) were minted from the last activatable level
+        uint256 restoredItemId = level >= activationCount
+            ? seriesId + (activationCount - 1) * activationStep
+            : reactorItemId - activationStep;
+
+        // History is stored per seriesId, the per-itemId history of old activations is only used when it is empty
+        uint256[] storage history = batteryUsageHistory[user][seriesId];
+        if (history.length == 0) {
+            history = batteryUsageHistory[user][restoredItemId];
+        }
+        if (history.length == 0) {
+            revert NoActivationToRevert();
+        }
+        uint256 batteryItemId = history[history.length - 1];
+        history.pop();
+
+        inventory.burnAdmin(user, reactorItemId, 1, "");
+        inventory.mint(user, restoredItemId, 1, "");
+        if (refundBattery) {
+            inventory.mint(user, batteryItemId, 1, "");
+        }
+
+        seriesActiveUntil[user][seriesId] = 0;
+
+        emit ActivationReverted(user, reactorItemId, restoredItemId, batteryItemId, refundBattery);
+    }
 }
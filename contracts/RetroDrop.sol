@@ -46,6 +46,7 @@ pragma solidity ^0.8.24;
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 interface IVotingEscrowLock {
     function create_lock_for(uint256 _value, uint256 _lock_duration, address _to) external returns (uint256);
@@ -57,6 +58,7 @@ interface IVotingEscrowLock {
  * The amount received is calculated using: roachMax * sqrt((lockWeeks + 1) / 209)
  * - lockWeeks = 0: tokens transferred directly (no lock)
  * - lockWeeks > 0: tokens locked via VotingEscrow.create_lock_for
+ * roachMax is authorized either by a SIGNER_ROLE signature (claim) or by a proof against merkleRoot (claimWithProof)
  */
 contract RetroDrop is AccessControl {
     using SafeERC20 for IERC20;
@@ -69,6 +71,15 @@ contract RetroDrop is AccessControl {
 
     mapping(uint256 => bool) public usedSignIds;
 
+    // Root of (account, roachMax) leaves for claimWithProof, 0 = Merkle mode disabled
+    bytes32 public merkleRoot;
+    // Accounts that claimed with a proof, one proof claim per account. Signature claims are limited by signId only
+    mapping(address => bool) public merkleClaimed;
+
+    // Claim window for claim and claimWithProof, 0 = unbounded. The remainder can be swept after claimEnd
+    uint256 public claimStart;
+    uint256 public claimEnd;
+
     uint256 public immutable EPOCH;
     uint256 public immutable MAX_LOCK_WEEKS;
     uint256 public immutable DIVISOR;
@@ -83,7 +94,19 @@ contract RetroDrop is AccessControl {
         uint256 tokenId
     );
 
+    // claimWithProof has no signId, so it does not show up as a used signId in Claimed
+    event ClaimedWithProof(
+        address indexed account,
+        uint256 roachMax,
+        uint256 lockWeeks,
+        uint256 actualAmount,
+        uint256 tokenId
+    );
+
     event Withdrawn(address indexed recipient, uint256 amount);
+    event MerkleRootSet(bytes32 merkleRoot);
+    event ClaimWindowSet(uint256 claimStart, uint256 claimEnd);
+    event Swept(address indexed treasury, uint256 amount, uint256 lockWeeks, uint256 tokenId);
 
     error InvalidSignature();
     error DeadlineExpired();
@@ -92,6 +115,13 @@ contract RetroDrop is AccessControl {
     error InsufficientBalance();
     error ZeroAddress();
     error ZeroValue();
+    error MerkleRootNotSet();
+    error InvalidProof();
+    error AlreadyClaimed();
+    error ClaimNotStarted();
+    error ClaimEnded();
+    error InvalidClaimWindow();
+    error ClaimWindowOpen();
 
     /**
      * @dev Constructor
@@ -147,6 +177,8 @@ contract RetroDrop is AccessControl {
         bytes32 r,
         bytes32 s
     ) external returns (uint256 actualAmount, uint256 tokenId) {
+        _checkClaimWindow();
+
         // Validate inputs
         if (lockWeeks > MAX_LOCK_WEEKS) {
             revert InvalidLockWeeks();
@@ -176,6 +208,53 @@ contract RetroDrop is AccessControl {
         // Mark signId as used (CEI pattern)
         usedSignIds[signId] = true;
 
+        (actualAmount, tokenId) = _payout(roachMax, lockWeeks);
+
+        emit Claimed(msg.sender, signId, roachMax, lockWeeks, actualAmount, tokenId);
+    }
+
+    /**
+     * @dev Claim ROACH tokens with a Merkle proof instead of a signature, once per account
+     * Proof and signature claims are independent, the backend must not sign for accounts in the tree
+     * Leaf: keccak256(bytes.concat(keccak256(abi.encode(account, roachMax))))
+     * @param lockWeeks Number of weeks to lock (0-208). 0 = no lock, direct transfer
+     * @param roachMax Maximum claimable amount at 208 weeks lock, as in the leaf
+     * @param proof Merkle proof of the (msg.sender, roachMax) leaf
+     * @return actualAmount Amount of tokens received
+     * @return tokenId VotingEscrow NFT ID (0 if lockWeeks = 0)
+     */
+    function claimWithProof(
+        uint256 lockWeeks,
+        uint256 roachMax,
+        bytes32[] calldata proof
+    ) external returns (uint256 actualAmount, uint256 tokenId) {
+        _checkClaimWindow();
+        if (merkleRoot == bytes32(0)) {
+            revert MerkleRootNotSet();
+        }
+        if (lockWeeks > MAX_LOCK_WEEKS) {
+            revert InvalidLockWeeks();
+        }
+        if (merkleClaimed[msg.sender]) {
+            revert AlreadyClaimed();
+        }
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, roachMax))));
+        if (!MerkleProof.verifyCalldata(proof, merkleRoot, leaf)) {
+            revert InvalidProof();
+        }
+
+        merkleClaimed[msg.sender] = true;
+
+        (actualAmount, tokenId) = _payout(roachMax, lockWeeks);
+
+        emit ClaimedWithProof(msg.sender, roachMax, lockWeeks, actualAmount, tokenId);
+    }
+
+    /**
+     * @dev Transfer or lock the amount for lockWeeks to msg.sender
+     */
+    function _payout(uint256 roachMax, uint256 lockWeeks) internal returns (uint256 actualAmount, uint256 tokenId) {
         // Calculate actual amount based on lock duration
         actualAmount = calculateAmount(roachMax, lockWeeks);
 
@@ -193,8 +272,25 @@ contract RetroDrop is AccessControl {
             uint256 lockDuration = lockWeeks * EPOCH;
             tokenId = votingEscrow.create_lock_for(actualAmount, lockDuration, msg.sender);
         }
+    }
 
-        emit Claimed(msg.sender, signId, roachMax, lockWeeks, actualAmount, tokenId);
+    function _checkClaimWindow() internal view {
+        if (block.timestamp < claimStart) {
+            revert ClaimNotStarted();
+        }
+        if (claimEnd != 0 && block.timestamp > claimEnd) {
+            revert ClaimEnded();
+        }
+    }
+
+    /**
+     * @dev Set the Merkle root for claimWithProof, 0 disables Merkle mode
+     * Accounts that already claimed with a proof cannot claim again under a new root
+     * @param _merkleRoot Root of (account, roachMax) leaves
+     */
+    function setMerkleRoot(bytes32 _merkleRoot) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        merkleRoot = _merkleRoot;
+        emit MerkleRootSet(_merkleRoot);
     }
 
     /**
@@ -234,6 +330,50 @@ contract RetroDrop is AccessControl {
         }
     }
 
+    /**
+     * @dev Set the claim window, claims are accepted in [_claimStart, _claimEnd]
+     * @param _claimStart First claim timestamp, 0 = no start restriction
+     * @param _claimEnd Last claim timestamp, 0 = no end (and no sweep)
+     */
+    function setClaimWindow(uint256 _claimStart, uint256 _claimEnd) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_claimEnd != 0 && _claimEnd <= _claimStart) {
+            revert InvalidClaimWindow();
+        }
+        claimStart = _claimStart;
+        claimEnd = _claimEnd;
+        emit ClaimWindowSet(_claimStart, _claimEnd);
+    }
+
+    /**
+     * @dev Send the unclaimed remainder to the treasury after the claim window, optionally locked in VotingEscrow
+     * @param treasury Address to receive the tokens or the veNFT
+     * @param lockWeeks Number of weeks to lock (0-208). 0 = direct transfer
+     * @return tokenId VotingEscrow NFT ID (0 if lockWeeks = 0)
+     */
+    function sweep(address treasury, uint256 lockWeeks) external onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256 tokenId) {
+        if (treasury == address(0)) {
+            revert ZeroAddress();
+        }
+        if (claimEnd == 0 || block.timestamp <= claimEnd) {
+            revert ClaimWindowOpen();
+        }
+        if (lockWeeks > MAX_LOCK_WEEKS) {
+            revert InvalidLockWeeks();
+        }
+        uint256 amount = roachToken.balanceOf(address(this));
+        if (amount == 0) {
+            revert ZeroValue();
+        }
+
+        if (lockWeeks == 0) {
+            roachToken.safeTransfer(treasury, amount);
+        } else {
+            tokenId = votingEscrow.create_lock_for(amount, lockWeeks * EPOCH, treasury);
+        }
+
+        emit Swept(treasury, amount, lockWeeks, tokenId);
+    }
+
     /**
      * @dev Withdraw ROACH tokens from contract
      * @param recipient Address to receive tokens
@@ -2,7 +2,8 @@
 // Compatible with OpenZeppelin Contracts ^5.0.0
 pragma solidity ^0.8.0;
 
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {SignerRotation} from "../utils/SignerRotation.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 
 //┌─────────────────────────────────────────────────────────┐
 //│                        +----+----+----+----+            │
@@ -23,10 +24,14 @@ import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 /// @dev A payment grid contract that handles ETH deposits, claims, and refunds with signature verification.
 ///      Uses cryptographic signatures to authorize deposits and claims. Each order ID can only be processed once to prevent
 ///      double spending. Supports role-based refunds for ETH.
-contract Gridle is AccessControl {
+contract Gridle is SignerRotation, EIP712 {
     bytes32 public constant WITHDRAW_ROLE = keccak256("WITHDRAW_ROLE");
     bytes32 public constant REFUND_ROLE = keccak256("REFUND_ROLE");
 
+    /// @notice EIP-712 struct types for depositEthTyped and claimEthTyped
+    bytes32 public constant DEPOSIT_TYPEHASH = keccak256("Deposit(uint256 signId,address account,uint256 value,uint256 deadline,uint256 systemBalance)");
+    bytes32 public constant CLAIM_TYPEHASH = keccak256("Claim(uint256 signId,address account,uint256 value)");
+
     /// @notice Address used to verify deposit signatures
     address public signerAddress;
 
@@ -64,9 +69,6 @@ contract Gridle is AccessControl {
     /// @notice Error thrown when an order has already been processed
     error OrderAlreadyProcessed();
 
-    /// @notice Error thrown when a zero address is provided where not allowed
-    error ZeroAddress();
-
     /// @notice Error thrown when ETH transfer fails
     error EthTransferFailed();
 
@@ -131,7 +133,7 @@ contract Gridle is AccessControl {
 
     /// @param defaultAdmin The address that will initially own the admin role
     /// @param _signerAddress The address authorized to sign deposit approvals
-    constructor(address defaultAdmin, address _signerAddress) {
+    constructor(address defaultAdmin, address _signerAddress) EIP712("Gridle", "1") {
         if (defaultAdmin == address(0)) {
             revert ZeroAddress();
         }
@@ -155,6 +157,11 @@ contract Gridle is AccessControl {
         signerAddress = newSigner;
     }
 
+    /// @dev signerAddress is the main signer checked by isSigner
+    function _signerAddress() internal view override returns (address) {
+        return signerAddress;
+    }
+
     /// @notice Set reserve parameters including coefficients and absolute minimum reserves
     /// @param _minReservesCoef The minimum reserves coefficient in basis points (10000 = 100%)
     /// @param _maxReservesCoef The maximum reserves coefficient in basis points (10000 = 100%)
@@ -237,6 +244,32 @@ contract Gridle is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external payable {
+        _depositEth(signId, deadline, systemBalance, sigV, sigR, sigS, false);
+    }
+
+    /// @notice Same as depositEth, but signed as EIP-712 typed data (Deposit struct, account = sender, value = msg.value)
+    /// @dev Order IDs are shared with depositEth
+    function depositEthTyped(
+        uint signId,
+        uint deadline,
+        uint systemBalance,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external payable {
+        _depositEth(signId, deadline, systemBalance, sigV, sigR, sigS, true);
+    }
+
+    /// @dev Deposit implementation, `typed` selects EIP-712 or legacy message hash
+    function _depositEth(
+        uint signId,
+        uint deadline,
+        uint systemBalance,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
         if (processedOrders[signId]) {
             revert OrderAlreadyProcessed();
         }
@@ -245,10 +278,10 @@ contract Gridle is AccessControl {
             revert DeadlineExpired();
         }
 
-        bytes32 msgHash = keccak256(
-            abi.encode(signId, msg.sender, msg.value, deadline, systemBalance, address(this))
-        );
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        bytes32 msgHash = typed
+            ? _hashTypedDataV4(keccak256(abi.encode(DEPOSIT_TYPEHASH, signId, msg.sender, msg.value, deadline, systemBalance)))
+            : keccak256(abi.encode(signId, msg.sender, msg.value, deadline, systemBalance, address(this)));
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
@@ -282,14 +315,39 @@ contract Gridle is AccessControl {
         bytes32 sigR,
         bytes32 sigS
     ) external {
+        _claimEth(signId, account, value, sigV, sigR, sigS, false);
+    }
+
+    /// @notice Same as claimEth, but signed as EIP-712 typed data (Claim struct)
+    function claimEthTyped(
+        uint signId,
+        address account,
+        uint256 value,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS
+    ) external {
+        _claimEth(signId, account, value, sigV, sigR, sigS, true);
+    }
+
+    /// @dev Claim implementation, `typed` selects EIP-712 or legacy message hash
+    function _claimEth(
+        uint signId,
+        address account,
+        uint256 value,
+        uint8 sigV,
+        bytes32 sigR,
+        bytes32 sigS,
+        bool typed
+    ) internal {
         if (processedOrders[signId]) {
             revert OrderAlreadyProcessed();
         }
 
-        bytes32 msgHash = keccak256(
-            abi.encode(signId, account, value, address(this))
-        );
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        bytes32 msgHash = typed
+            ? _hashTypedDataV4(keccak256(abi.encode(CLAIM_TYPEHASH, signId, account, value)))
+            : keccak256(abi.encode(signId, account, value, address(this)));
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
@@ -2,7 +2,7 @@
 // Compatible with OpenZeppelin Contracts ^5.0.0
 pragma solidity ^0.8.0;
 
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {SignerRotation} from "../utils/SignerRotation.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 /// @title Gridle: Charts made fun
@@ -10,7 +10,7 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 /// @dev Handles ERC20 token deposits, claims, and refunds with signature verification.
 ///      Uses cryptographic signatures to authorize deposits and claims. Each order ID can only be processed once to prevent
 ///      double spending. Supports role-based refunds for tokens with deposit validation.
-contract GridleToken is AccessControl {
+contract GridleToken is SignerRotation {
     bytes32 public constant WITHDRAW_ROLE = keccak256("WITHDRAW_ROLE");
     bytes32 public constant REFUND_ROLE = keccak256("REFUND_ROLE");
 
@@ -51,9 +51,6 @@ contract GridleToken is AccessControl {
     /// @notice Error thrown when an order has already been processed
     error OrderAlreadyProcessed();
 
-    /// @notice Error thrown when a zero address is provided where not allowed
-    error ZeroAddress();
-
     /// @notice Error thrown when reserved amount exceeds available balance
     error InsufficientBalance();
 
@@ -145,6 +142,11 @@ contract GridleToken is AccessControl {
         signerAddress = newSigner;
     }
 
+    /// @dev signerAddress is the main signer checked by isSigner
+    function _signerAddress() internal view override returns (address) {
+        return signerAddress;
+    }
+
     /// @notice Set minimum and maximum reserve coefficients
     /// @param _minReservesCoef The minimum reserves coefficient in basis points (10000 = 100%)
     /// @param _maxReservesCoef The maximum reserves coefficient in basis points (10000 = 100%)
@@ -243,7 +245,7 @@ contract GridleToken is AccessControl {
         bytes32 msgHash = keccak256(
             abi.encode(signId, msg.sender, token, amount, deadline, systemBalance, address(this))
         );
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
@@ -286,7 +288,7 @@ contract GridleToken is AccessControl {
         bytes32 msgHash = keccak256(
             abi.encode(signId, account, token, amount, address(this))
         );
-        if (ecrecover(msgHash, sigV, sigR, sigS) != signerAddress) {
+        if (!isSigner(ecrecover(msgHash, sigV, sigR, sigS))) {
             revert WrongSignature();
         }
 
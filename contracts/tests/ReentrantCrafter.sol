@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+
+interface ICrafter {
+    function craft(uint256 recipeId) external;
+}
+
+// Crafts again from the onERC1155BatchReceived hook of the first craft
+contract ReentrantCrafter is ERC1155Holder {
+    ICrafter public crafter;
+    uint256 public recipeId;
+    bool private reentered;
+
+    constructor(ICrafter _crafter) {
+        crafter = _crafter;
+    }
+
+    function craft(uint256 _recipeId) external {
+        recipeId = _recipeId;
+        reentered = false;
+        crafter.craft(_recipeId);
+    }
+
+    function onERC1155BatchReceived(
+        address operator,
+        address from,
+        uint256[] memory ids,
+        uint256[] memory values,
+        bytes memory data
+    ) public override returns (bytes4) {
+        if (!reentered) {
+            reentered = true;
+            crafter.craft(recipeId);
+        }
+        return super.onERC1155BatchReceived(operator, from, ids, values, data);
+    }
+}
@@ -11,7 +11,7 @@ contract TraxTest is TRAX {
     }
 
     // Do not check signature and signId unique
-    function _use(uint256 value, uint256 id, address account, uint256 param, uint8, bytes32, bytes32) override internal {
+    function _use(uint256 value, uint256 id, address account, uint256 param, uint8, bytes32, bytes32, bool) override internal {
         emit Used(id, value, account, param);
     }
 }
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+//
+// Roach Racing Club makes trading a social and competitive game —
+// play with friends, prove your edge, and win while having fun
+// https://roach.fun
+/*
+                                                                   ..::--------::..
+                                                               .:--------------------::
+                                                            :----------------------------:
+                                                         .:---------------------------------.
+                                                        :-------------------------------------
+                                                      .----------------------------------------:
+                                                     :------------------------------------------:
+                                                    :--===----------------------------------===--:
+                                                   .--+@@@@%%#+=----------------------=+*#%@@@@+--:
+                                                   ---@@@@@@@@@@@#+----------------+#@@@@@@@@@@@=--
+                                                  :--+@@@@@@@@@@@@@@#+----------=#@@@@@@@@@@@@@@*--:
+                                                  ---#@@@@@@@@@@@@@@@@%+------=%@@@@@@@@@@@@@@@@%---
+                                                  -----==+*%@@@@@@@@@@@@%=--=#@@@@@@@@@@@@%*++=-----
+                                                  -----------=*@@@@@@@@@@@*+@@@@@@@@@@@#+-----------
+                                                  :-------------+%@@@@@@@@@@@@@@@@@@%+-------------:
+                                                   ---------------*@@@@@@@@@@@@@@@@*---------------
+                                                   :---------------=@@@@@@@@@@@@@@+---------------:
+                                                    :---------------=@@@@@@@@@@@@=----------------
+                                                     :---------------+@@@@@@@@@@*---------------:
+                                                      :---------------%@@@@@@@@@---------------:
+                                                        --------------#@@@@@@@@%--------------.
+                                                         .------------#@@@@@@@@#------------.
+                                                            :---------*@@@@@@@@#---------:.
+                                                               :----------------------:.
+                                                                     ..::--------:::.
+
+
+
+███████╗██╗  ██╗ █████╗ ██████╗  ██████╗ ██╗    ██╗    ███████╗██╗   ██╗███╗   ██╗██████╗ ██╗ ██████╗ █████╗ ████████╗███████╗    ██╗███╗   ██╗ ██████╗
+██╔════╝██║  ██║██╔══██╗██╔══██╗██╔═══██╗██║    ██║    ██╔════╝╚██╗ ██╔╝████╗  ██║██╔══██╗██║██╔════╝██╔══██╗╚══██╔══╝██╔════╝    ██║████╗  ██║██╔════╝
+███████╗███████║███████║██║  ██║██║   ██║██║ █╗ ██║    ███████╗ ╚████╔╝ ██╔██╗ ██║██║  ██║██║██║     ███████║   ██║   █████╗      ██║██╔██╗ ██║██║
+╚════██║██╔══██║██╔══██║██║  ██║██║   ██║██║███╗██║    ╚════██║  ╚██╔╝  ██║╚██╗██║██║  ██║██║██║     ██╔══██║   ██║   ██╔══╝      ██║██║╚██╗██║██║
+███████║██║  ██║██║  ██║██████╔╝╚██████╔╝╚███╔███╔╝    ███████║   ██║   ██║ ╚████║██████╔╝██║╚██████╗██║  ██║   ██║   ███████╗    ██║██║ ╚████║╚██████╗██╗
+╚══════╝╚═╝  ╚═╝╚═╝  ╚═╝╚═════╝  ╚═════╝  ╚══╝╚══╝     ╚══════╝   ╚═╝   ╚═╝  ╚═══╝╚═════╝ ╚═╝ ╚═════╝╚═╝  ╚═╝   ╚═╝   ╚══════╝    ╚═╝╚═╝  ╚═══╝ ╚═════╝╚═╝
+
+*/
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/// @title CrafterProxy
+/// @notice ERC1967 proxy for the UUPS Crafter implementation, upgrades go through Crafter.upgradeToAndCall
+/// @dev Wrapper around OpenZeppelin's ERC1967Proxy with explicit constructor for verification
+/// @custom:oz-upgrades-unsafe-allow delegatecall
+contract CrafterProxy is ERC1967Proxy {
+    /// @notice Deployment version identifier
+    /// @dev Change this value for each new deployment to ensure unique bytecode
+    string public constant VERSION = "1.0.0";
+
+    /// @notice Initializes the proxy with implementation address and initialization data
+    /// @param _logic Address of the implementation contract
+    /// @param _data Encoded initialization call data
+    constructor(address _logic, bytes memory _data) ERC1967Proxy(_logic, _data) {}
+}
@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+
+/// @title SignerRotation
+/// @notice Additional signers accepted next to the contract's signerAddress, so keys can be rotated
+///         without invalidating signed messages. See SignerRotationUpgradeable for upgradeable contracts.
+abstract contract SignerRotation is AccessControl {
+    /// @notice Role identifier for additional signers accepted next to signerAddress, see addSigner
+    bytes32 public constant SIGNER_ROLE = keccak256("SIGNER_ROLE");
+
+    /// @notice Expiry timestamp of each additional signer (SIGNER_ROLE holder), 0 = no expiry
+    mapping(address => uint256) public signerExpiry;
+
+    /// @notice Thrown when a zero address is provided where it's not allowed
+    error ZeroAddress();
+
+    /// @notice Emitted when an additional signer is added or its expiry is updated
+    /// @param signer The signer address
+    /// @param expiry Timestamp after which the signer is rejected, 0 = no expiry
+    event SignerAdded(address indexed signer, uint256 expiry);
+
+    /// @notice Emitted when an additional signer is removed
+    /// @param signer The signer address
+    event SignerRemoved(address indexed signer);
+
+    /// @notice Adds a signer accepted next to signerAddress
+    /// @param signer The signer address
+    /// @param expiry Timestamp after which signatures of `signer` are rejected, 0 for no expiry
+    function addSigner(address signer, uint256 expiry) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (signer == address(0)) {
+            revert ZeroAddress();
+        }
+        _grantRole(SIGNER_ROLE, signer);
+        signerExpiry[signer] = expiry;
+        emit SignerAdded(signer, expiry);
+    }
+
+    /// @notice Removes a signer added with addSigner
+    /// @param signer The signer address
+    function removeSigner(address signer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _revokeRole(SIGNER_ROLE, signer);
+        delete signerExpiry[signer];
+        emit SignerRemoved(signer);
+    }
+
+    /// @notice Whether signatures of `account` are accepted: signerAddress or an unexpired SIGNER_ROLE holder
+    /// @param account The recovered signer address
+    function isSigner(address account) public view returns (bool) {
+        if (account == address(0)) {
+            return false;
+        }
+        if (account == _signerAddress()) {
+            return true;
+        }
+        uint256 expiry = signerExpiry[account];
+        return hasRole(SIGNER_ROLE, account) && (expiry == 0 || block.timestamp <= expiry);
+    }
+
+    /// @dev Main signer of the contract (signerAddress)
+    function _signerAddress() internal view virtual returns (address);
+}
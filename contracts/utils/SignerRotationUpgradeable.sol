@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+
+/// @title SignerRotationUpgradeable
+/// @notice Upgradeable variant of SignerRotation
+/// @dev Expiries live in ERC-7201 namespaced storage, so inheriting does not shift the layout of the contract
+abstract contract SignerRotationUpgradeable is AccessControlUpgradeable {
+    /// @notice Role identifier for additional signers accepted next to signerAddress, see addSigner
+    bytes32 public constant SIGNER_ROLE = keccak256("SIGNER_ROLE");
+
+    /// @custom:storage-location erc7201:roach.storage.SignerRotation
+    struct SignerRotationStorage {
+        mapping(address => uint256) signerExpiry;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("roach.storage.SignerRotation")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant SignerRotationStorageLocation = 0xce07b0ab9303b004db5b1147d142863a5901f1458856b72edb2199041d072b00;
+
+    /// @notice Thrown when a zero address is provided where it's not allowed
+    error ZeroAddress();
+
+    /// @notice Emitted when an additional signer is added or its expiry is updated
+    /// @param signer The signer address
+    /// @param expiry Timestamp after which the signer is rejected, 0 = no expiry
+    event SignerAdded(address indexed signer, uint256 expiry);
+
+    /// @notice Emitted when an additional signer is removed
+    /// @param signer The signer address
+    event SignerRemoved(address indexed signer);
+
+    function _getSignerRotationStorage() private pure returns (SignerRotationStorage storage $) {
+        assembly {
+            $.slot := SignerRotationStorageLocation
+        }
+    }
+
+    /// @notice Expiry timestamp of an additional signer (SIGNER_ROLE holder), 0 = no expiry
+    /// @param signer The signer address
+    function signerExpiry(address signer) public view returns (uint256) {
+        return _getSignerRotationStorage().signerExpiry[signer];
+    }
+
+    /// @notice Adds a signer accepted next to signerAddress
+    /// @param signer The signer address
+    /// @param expiry Timestamp after which signatures of `signer` are rejected, 0 for no expiry
+    function addSigner(address signer, uint256 expiry) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (signer == address(0)) {
+            revert ZeroAddress();
+        }
+        _grantRole(SIGNER_ROLE, signer);
+        _getSignerRotationStorage().signerExpiry[signer] = expiry;
+        emit SignerAdded(signer, expiry);
+    }
+
+    /// @notice Removes a signer added with addSigner
+    /// @param signer The signer address
+    function removeSigner(address signer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _revokeRole(SIGNER_ROLE, signer);
+        delete _getSignerRotationStorage().signerExpiry[signer];
+        emit SignerRemoved(signer);
+    }
+
+    /// @notice Whether signatures of `account` are accepted: signerAddress or an unexpired SIGNER_ROLE holder
+    /// @param account The recovered signer address
+    function isSigner(address account) public view returns (bool) {
+        if (account == address(0)) {
+            return false;
+        }
+        if (account == _signerAddress()) {
+            return true;
+        }
+        uint256 expiry = signerExpiry(account);
+        return hasRole(SIGNER_ROLE, account) && (expiry == 0 || block.timestamp <= expiry);
+    }
+
+    /// @dev Main signer of the contract (signerAddress)
+    function _signerAddress() internal view virtual returns (address);
+}
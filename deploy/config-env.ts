@@ -1,4 +1,10 @@
 import { vars } from "hardhat/config";
+import { getRegistryAddresses } from "./utils/deploymentRegistry";
+import { prod } from "./environments/prod";
+import type { ROLES } from "./config";
+import { dev } from "./environments/dev";
+import { devAbs } from "./environments/devAbs";
+import { danBsc } from "./environments/danBsc";
 
 export interface DeployConfig {
     network: 'abstractTestnet' | 'abstractMainnet' | 'hardhat' | 'bscTestnet' | 'bscMainnet' | 'hyperliquidTestnet' | 'hyperliquidMainnet';
@@ -8,13 +14,15 @@ export interface DeployConfig {
     withdraw: string;
     manager?: string;
 
-    // Contract addresses - these should be updated after deployment
+    // Contract addresses - deployments/<env>.json (written by deploy scripts) takes precedence
     contracts: {
         trax?: string;
         traxExchange?: string;
+        traxRedeem?: string;
         inventoryProxy?: string;
         inventoryTimelock?: string;
         reactorProxy?: string;
+        crafterProxy?: string;
         lootbox?: string;
         usdc?: string;
         shop?: string;
@@ -25,6 +33,8 @@ export interface DeployConfig {
         votingEscrow?: string;
         retroDrop?: string;
         bank?: string;
+        bankV2?: string;
+        claimer?: string;
         badges?: string;
         gridle?: string;
     };
@@ -47,47 +57,24 @@ export interface DeployConfig {
     reactor: {
         batteryDurations: number[]; // in seconds
     };
-}
-
-const week = 7 * 24 * 60 * 60;
-
-export const configs: Record<string, DeployConfig> = {
-    prod: {
-        network: 'abstractMainnet',
-        admin: ['0x652A359448b8a6EDD17eFCc83Cc4C9f6201C27f6'],
-        signer: '0x20000dC5611f4258cb9c0b0d0Da971cDba8b96a9',
-        minter: '0x100000ec0732D3A7B69660aa85dBaDdd672879f0',
-        withdraw: '0xF4D8df25C716871b3435189343D54B6A3558C4a0',
-        manager: '0x652A359448b8a6EDD17eFCc83Cc4C9f6201C27f6',
-
-        contracts: {
-            trax: '0x7eDD91c4dd202032872BFbfcd3a4E4F71CB4B8bC',
-            traxExchange: '0x341C67CB6b91Fb0b476860E8487DAc219E9D3369',
-            inventoryProxy: '0x8ea6982e0dF527bCccb42A4F13E715e3b0C78253',
-            inventoryTimelock: undefined,
-            reactorProxy: '0x5714A3BB86Ff21e3F24Dc0EAF1afF351AEaCE101',
-            lootbox: '0xA0f69095d2b31e9795e9923cD2a66Fa911CCd3cf',
-            shop: '0xFD2e105E1dc31dF9A4301f22aA6cAd67C0FD1632',
-            usdc: '0x84A71ccD554Cc1b02749b35d22F684CC8ec987e1',
-        },
 
-        metadata: {
-            badges: 'https://beta.roachracingclub.com/api/metadata/badge/',
-            inventory: 'https://beta.roachracingclub.com/api/metadata/inventory/',
-            inventoryContract: 'https://beta.roachracingclub.com/api/metadata/inventory-contract',
-        },
+    // Expected role holders, reconciled by sync-roles.ts
+    roles: RoleMatrix;
+}
 
-        timelock: {
-            minDelay: 24 * 60 * 60, // 1 day
-            proposers: ['0x3857CE692dd96f307d42A03Ac5F33DB2496cF82f'],
-            executors: [],
-        },
+// Role holder: an address, or a contract of the environment (ignored while it is not deployed)
+export type RoleHolder = string | { contract: keyof DeployConfig['contracts'] };
 
-        reactor: {
-            batteryDurations: [week, week, week, week],
-        },
-    },
+// Contract -> role -> expected holders, including the grants made by constructors and initializers.
+// Roles not listed for a contract are not checked, an empty list means nobody may hold the role.
+export type RoleMatrix = Partial<Record<keyof DeployConfig['contracts'], Partial<Record<keyof typeof ROLES, RoleHolder[]>>>>;
 
+// One file per environment in deploy/environments/
+export const configs: Record<string, DeployConfig> = {
+    prod,
+    dev,
+    devAbs,
+    danBsc,
 };
 
 /**
@@ -95,21 +82,34 @@ export const configs: Record<string, DeployConfig> = {
  * Used by hardhat.config.ts to set defaultNetwork
  */
 export function getNetworkName(): string {
-    const env = process.env.DEPLOY_ENV || 'dev';
-    const config = configs[env];
+    const env = process.env.DEPLOY_ENV;
+    const config = env ? configs[env] : undefined;
     if (!config) {
         return 'abstractTestnet';
     }
     return config.network;
 }
 
+/**
+ * Get current environment name from DEPLOY_ENV, there is no default environment
+ */
+export function getEnvName(): string {
+    const env = process.env.DEPLOY_ENV;
+    if (!env) {
+        throw new Error(`DEPLOY_ENV is not set. Available: ${Object.keys(configs).join(', ')}`);
+    }
+    return env;
+}
+
 /**
  * Get configuration for the current environment
  * Set DEPLOY_ENV environment variable to switch between environments
  * Example: DEPLOY_ENV=prod npx hardhat deploy-zksync --script deploy-inventory.ts
+ *
+ * Addresses recorded in deployments/<env>.json are merged over the static `contracts` block
  */
 export function getConfig(): DeployConfig {
-    const env = process.env.DEPLOY_ENV || 'dev';
+    const env = getEnvName();
     const config = configs[env];
 
     if (!config) {
@@ -117,7 +117,13 @@ export function getConfig(): DeployConfig {
     }
 
     console.log(`📝 Using ${env.toUpperCase()} configuration`);
-    return config;
+    return {
+        ...config,
+        contracts: {
+            ...config.contracts,
+            ...getRegistryAddresses(env),
+        },
+    };
 }
 
 /**
@@ -1,3 +1,7 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getConfig as getEnvConfig, getEnvName, type DeployConfig, type RoleHolder } from './config-env';
+import { assertValidConfig } from './utils/configValidation';
+
 // Role hashes (these are constant across all environments)
 export const ROLES = {
     DEFAULT_ADMIN_ROLE: '0x0000000000000000000000000000000000000000000000000000000000000000',
@@ -7,352 +11,273 @@ export const ROLES = {
     REFUND_ROLE: '0xf1f91cdf1f18aaac45ca4aaddade87aabc2746f6d044da7cf8544558c5776172',
     MANAGER_ROLE: '0x241ecf16d79d0f8dbfb92cbc07fe17840425976cf0667f022fe9877caa831b08',
     PAUSER_ROLE: '0x65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a',
+    SIGNER_ROLE: '0xe2f4eaae4a9751e85a3e4a7b9587827a877f29914755229b07a7b2da98285f70',
+    OPERATOR_ROLE: '0x97667070c54ef182b0f5858b034beac1b6f3089aa2d3188bb1e8929f4fa9b929',
+    BAN_ROLE: '0x304cf2f48ad1ac6b85b244089b6039f576f614754657f4294e9c1521194f1930',
+    SET_PRICE_ROLE: '0x415cb709e73494ed53475231a09b6302063bb747def39d02d8a6002d338f9436',
+    // TimelockController roles
+    PROPOSER_ROLE: '0xb09aa5aeb3702cfd50b6b62bc4532604938f21248a27a1d5ca736082b6819cc1',
+    EXECUTOR_ROLE: '0xd8aa0f3194971a2a116679f7c2090f6939c8d4e01a2a8d7e41d55e5351469e63',
+    CANCELLER_ROLE: '0xfd643c72710c63c0180259aba6b2d05451e3591a24e58b62239378085726f783',
 };
 
+// Item catalog (shared across all environments)
+// Single source of truth for token IDs: REACTOR_CONFIG, SOULBOUND_TOKENS, INVENTORY_TOKEN_LIMITS,
+// RESTRICTED_ITEMS and SHOP_LOTS are all derived from it
+
+export type ItemCategory = 'reactor' | 'battery' | 'simple';
+
+// Lot prices in whole tokens: TRAX and turbo for Shop, ACID and ROACH for ShopV2
+export interface ItemPrice {
+    trax: string;
+    traxTurbo: string;
+    acid: string;
+    roach: string;
+}
+
+// Shop lot selling a catalog item, startTime/endTime in unix seconds (see ShopLotConfig)
+export interface ItemLot {
+    lotId: number;
+    price: ItemPrice;
+    startTime?: number;
+    endTime?: number;
+}
+
+export interface CatalogItem {
+    id: number;
+    name: string;
+    category: ItemCategory;
+    soulbound: boolean;
+    maxCount?: number;
+    // Base reactor ID, all items of a family are mutually exclusive
+    family?: number;
+    lot?: ItemLot;
+}
+
+const REACTOR_PRICE: ItemPrice = { trax: "70", traxTurbo: "50", acid: "70", roach: "0" };
+
+// Reactors in ID order: reactor N gets base ID 2000 + (N - 1) * 1000 and all its activation variants
+const REACTORS: Array<{ name: string; lot: ItemLot }> = [
+    { name: 'Reactor #1', lot: { lotId: 1, price: REACTOR_PRICE } },
+    { name: 'Reactor #2', lot: { lotId: 2, price: REACTOR_PRICE } },
+    { name: 'Reactor #3', lot: { lotId: 3, price: REACTOR_PRICE } },
+    { name: 'Reactor #4', lot: { lotId: 4, price: REACTOR_PRICE } },
+    { name: 'Reactor #5', lot: { lotId: 5, price: REACTOR_PRICE } },
+    { name: 'Reactor #6', lot: { lotId: 6, price: REACTOR_PRICE } },
+    { name: 'Reactor #7', lot: { lotId: 7, price: REACTOR_PRICE } },
+];
+
+// Batteries in reactor offset order: battery i activates reactors into variant maxActivationId + i
+const BATTERIES: Array<{ id: number; name: string; lot: ItemLot }> = [
+    { id: 1000, name: 'Spark Cell', lot: { lotId: 20, price: { trax: "7", traxTurbo: "5", acid: "7", roach: "0" } } },
+    { id: 1010, name: 'Flux Cell', lot: { lotId: 21, price: { trax: "70", traxTurbo: "50", acid: "70", roach: "0" } } },
+    { id: 1100, name: 'Quantum Cell', lot: { lotId: 22, price: { trax: "700", traxTurbo: "500", acid: "700", roach: "0" } } },
+    { id: 1900, name: 'Nova Cell', lot: { lotId: 23, price: { trax: "7000", traxTurbo: "5000", acid: "7000", roach: "0" } } },
+];
+
+// Simple tokens (tokenId < 1000)
+const SIMPLE_ITEMS: Array<Omit<CatalogItem, 'category'>> = [
+    { id: 105, name: 'Pudgy Lootbox', soulbound: true, maxCount: 1 },
+    { id: 201, name: 'Ticket', soulbound: true, maxCount: 1, lot: { lotId: 201, price: { trax: "70", traxTurbo: "70", acid: "0", roach: "0" } } },
+];
+
 // Reactor configuration (shared across all environments, except batteryDurations which is per-env)
 export const REACTOR_CONFIG = {
-    batteryItemIds: [1000, 1010, 1100, 1900],
-    batteryReactorOffsets: [0, 1, 2, 3],
+    batteryItemIds: BATTERIES.map(battery => battery.id),
+    batteryReactorOffsets: BATTERIES.map((_, i) => i),
     minReactorId: 2000,
-    maxReactorId: 8000, // total 7 reactors
+    maxReactorId: 2000 + (REACTORS.length - 1) * 1000,
     reactorIdStep: 1000,
     activationCount: 4,
 };
 
-// Simple token configuration (tokenId < 1000)
-export const SIMPLE_TOKENS: Record<number, { name: string; soulbound?: boolean; maxCount?: number }> = {
-    105: { name: 'Pudgy Lootbox', soulbound: true, maxCount: 1 },
-    201: { name: 'Ticket', soulbound: true, maxCount: 1 },
-};
-
-// Soulbound tokens (non-transferrable) - batteries and reactors
-export const SOULBOUND_TOKENS: number[] = (() => {
-    const tokens: number[] = [];
-
-    // Simple tokens with soulbound flag
-    for (const [tokenId, config] of Object.entries(SIMPLE_TOKENS)) {
-        if (config.soulbound) {
-            tokens.push(Number(tokenId));
-        }
+/**
+ * All token IDs of a reactor family: base, activated (+1, +2, +3)
+ * and final activation variants based on battery type (2004+0, 2004+1, 2004+2, 2004+3)
+ */
+export function getReactorFamily(reactorId: number): number[] {
+    const familyIds = [reactorId];
+    for (let i = 1; i < REACTOR_CONFIG.activationCount; i++) {
+        familyIds.push(reactorId + i);
     }
+    const maxActivationId = reactorId + REACTOR_CONFIG.activationCount;
+    for (const offset of REACTOR_CONFIG.batteryReactorOffsets) {
+        familyIds.push(maxActivationId + offset);
+    }
+    return familyIds;
+}
 
-    // Battery tokens are soulbound
-    tokens.push(...REACTOR_CONFIG.batteryItemIds);
+export const ITEM_CATALOG: CatalogItem[] = [
+    ...SIMPLE_ITEMS.map(item => ({ ...item, category: 'simple' as const })),
+    ...BATTERIES.map(battery => ({ ...battery, category: 'battery' as const, soulbound: true })),
+    ...REACTORS.flatMap((reactor, i) => {
+        const reactorId = REACTOR_CONFIG.minReactorId + i * REACTOR_CONFIG.reactorIdStep;
+        return getReactorFamily(reactorId).map(id => ({
+            id,
+            // Only the base reactor is sold, activated variants are minted by Reactor
+            name: id === reactorId ? reactor.name : `${reactor.name} (${id})`,
+            category: 'reactor' as const,
+            soulbound: true,
+            maxCount: 1,
+            family: reactorId,
+            lot: id === reactorId ? reactor.lot : undefined,
+        }));
+    }),
+];
 
-    // All reactor IDs are soulbound (base and activated)
-    for (let reactorId = REACTOR_CONFIG.minReactorId; reactorId <= REACTOR_CONFIG.maxReactorId; reactorId += REACTOR_CONFIG.reactorIdStep) {
-        // Base reactor
-        tokens.push(reactorId);
-        // Activated reactors (+1, +2, +3)
-        for (let i = 1; i < REACTOR_CONFIG.activationCount; i++) {
-            tokens.push(reactorId + i);
-        }
-        // Final activation variants based on battery type (2004+0, 2004+1, 2004+2, 2004+3)
-        const maxActivationId = reactorId + REACTOR_CONFIG.activationCount;
-        for (const offset of REACTOR_CONFIG.batteryReactorOffsets) {
-            tokens.push(maxActivationId + offset);
-        }
-    }
+if (new Set(ITEM_CATALOG.map(item => item.id)).size !== ITEM_CATALOG.length) {
+    throw new Error('ITEM_CATALOG contains duplicate token IDs');
+}
 
-    return tokens;
-})();
+// Soulbound tokens (non-transferrable) - batteries and reactors
+export const SOULBOUND_TOKENS: number[] = ITEM_CATALOG
+    .filter(item => item.soulbound)
+    .map(item => item.id);
 
 // Inventory token limits (shared across all environments)
 export const INVENTORY_TOKEN_LIMITS: Array<{
     tokenId: number;
     maxBalancePerOwner: number;
-}> = (() => {
-    const limits: Array<{ tokenId: number; maxBalancePerOwner: number }> = [];
-
-    // Simple tokens with maxCount
-    for (const [tokenId, config] of Object.entries(SIMPLE_TOKENS)) {
-        if (config.maxCount !== undefined) {
-            limits.push({ tokenId: Number(tokenId), maxBalancePerOwner: config.maxCount });
-        }
-    }
-
-    // Limit all reactor IDs to 1 per owner (base and activated, batteries have no limit)
-    for (let reactorId = REACTOR_CONFIG.minReactorId; reactorId <= REACTOR_CONFIG.maxReactorId; reactorId += REACTOR_CONFIG.reactorIdStep) {
-        // Base reactor
-        limits.push({tokenId: reactorId, maxBalancePerOwner: 1});
-        // Activated reactors (+1, +2, +3)
-        for (let i = 1; i < REACTOR_CONFIG.activationCount; i++) {
-            limits.push({tokenId: reactorId + i, maxBalancePerOwner: 1});
-        }
-        // Final activation variants based on battery type (2004+0, 2004+1, 2004+2, 2004+3)
-        const maxActivationId = reactorId + REACTOR_CONFIG.activationCount;
-        for (const offset of REACTOR_CONFIG.batteryReactorOffsets) {
-            limits.push({tokenId: maxActivationId + offset, maxBalancePerOwner: 1});
-        }
-    }
-
-    return limits;
-})();
+}> = ITEM_CATALOG
+    .filter(item => item.maxCount !== undefined)
+    .map(item => ({ tokenId: item.id, maxBalancePerOwner: item.maxCount! }));
 
 // Restricted items configuration - mutually exclusive reactor ownership
 // Each reactor variant (2000, 2001, 2002, 2003, 2004, 2005, 2006, 2007) cannot be owned simultaneously
 export const RESTRICTED_ITEMS: Array<{
     tokenId: number;
     restricted: number[];
-}> = (() => {
-    const restrictions = [];
-
-    // For each reactor family, all variants are mutually exclusive
-    for (let reactorId = REACTOR_CONFIG.minReactorId; reactorId <= REACTOR_CONFIG.maxReactorId; reactorId += REACTOR_CONFIG.reactorIdStep) {
-        // Build array of all IDs in this reactor family
-        const familyIds = [reactorId];
-        // Add activated reactors (+1, +2, +3)
-        for (let i = 1; i < REACTOR_CONFIG.activationCount; i++) {
-            familyIds.push(reactorId + i);
-        }
-        // Add final activation variants based on battery type (2004+0, 2004+1, 2004+2, 2004+3)
-        const maxActivationId = reactorId + REACTOR_CONFIG.activationCount;
-        for (const offset of REACTOR_CONFIG.batteryReactorOffsets) {
-            familyIds.push(maxActivationId + offset);
-        }
+}> = ITEM_CATALOG
+    .filter(item => item.family !== undefined)
+    .map(item => ({
+        tokenId: item.id,
+        restricted: getReactorFamily(item.family!).filter(id => id !== item.id),
+    }));
 
-        // For each ID in the family, restrict all other IDs
-        for (const tokenId of familyIds) {
-            const restricted = familyIds.filter(id => id !== tokenId);
-            restrictions.push({ tokenId, restricted });
-        }
-    }
+export interface ShopLotConfig {
+    lotId: number;
+    priceInTrax: string;
+    priceInTraxTurbo: string;
+    priceInAcid: string;
+    priceInRoach: string;
+    itemIds: number[];
+    amounts: number[];
+    // Buyer must not own any of these items
+    restrictedItems: number[];
+    // Sale window (unix seconds). If omitted, new lots start now and end in 300 days,
+    // and existing lots keep their on-chain window
+    startTime?: number;
+    endTime?: number;
+}
 
-    return restrictions;
-})();
-
-// Shop lots configuration (shared across all environments)
-export const SHOP_LOTS = [
-    { // Reactor#1
-        lotId: 1,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.minReactorId],
+// Shop lots configuration (shared across all environments), one lot per catalog item with a lot
+// A reactor lot is restricted by its whole family, an item limited to 1 per owner by itself
+export const SHOP_LOTS: ShopLotConfig[] = ITEM_CATALOG
+    .filter(item => item.lot !== undefined)
+    .map(item => ({
+        lotId: item.lot!.lotId,
+        priceInTrax: item.lot!.price.trax,
+        priceInTraxTurbo: item.lot!.price.traxTurbo,
+        priceInAcid: item.lot!.price.acid,
+        priceInRoach: item.lot!.price.roach,
+        itemIds: [item.id],
         amounts: [1],
-        restrictedItems: (config: typeof REACTOR_CONFIG) => {
-            const restricted = [
-                config.minReactorId,
-                config.minReactorId + 1,
-                config.minReactorId + 2,
-                config.minReactorId + 3,
-            ];
-            // Add final activation variants
-            const maxActivationId = config.minReactorId + config.activationCount;
-            for (const offset of config.batteryReactorOffsets) {
-                restricted.push(maxActivationId + offset);
-            }
-            return restricted;
-        }
-    },
-    { // Reactor#2
-        lotId: 2,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.minReactorId + config.reactorIdStep],
-        amounts: [1],
-        restrictedItems: (config: typeof REACTOR_CONFIG) => {
-            const reactorIndex = 2;
-            const offset = (reactorIndex - 1) * config.reactorIdStep;
-            const restricted = [
-                offset + config.minReactorId,
-                offset + config.minReactorId + 1,
-                offset + config.minReactorId + 2,
-                offset + config.minReactorId + 3,
-            ];
-            // Add final activation variants
-            const maxActivationId = offset + config.minReactorId + config.activationCount;
-            for (const offset2 of config.batteryReactorOffsets) {
-                restricted.push(maxActivationId + offset2);
-            }
-            return restricted;
-        }
-    },
-    { // Reactor#3
-        lotId: 3,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.minReactorId + 2 * config.reactorIdStep],
-        amounts: [1],
-        restrictedItems: (config: typeof REACTOR_CONFIG) => {
-            const reactorIndex = 3;
-            const offset = (reactorIndex - 1) * config.reactorIdStep;
-            const restricted = [
-                offset + config.minReactorId,
-                offset + config.minReactorId + 1,
-                offset + config.minReactorId + 2,
-                offset + config.minReactorId + 3,
-            ];
-            // Add final activation variants
-            const maxActivationId = offset + config.minReactorId + config.activationCount;
-            for (const offset2 of config.batteryReactorOffsets) {
-                restricted.push(maxActivationId + offset2);
-            }
-            return restricted;
-        }
-    },
-    { // Reactor#4
-        lotId: 4,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.minReactorId + 3 * config.reactorIdStep],
-        amounts: [1],
-        restrictedItems: (config: typeof REACTOR_CONFIG) => {
-            const reactorIndex = 4;
-            const offset = (reactorIndex - 1) * config.reactorIdStep;
-            const restricted = [
-                offset + config.minReactorId,
-                offset + config.minReactorId + 1,
-                offset + config.minReactorId + 2,
-                offset + config.minReactorId + 3,
-            ];
-            // Add final activation variants
-            const maxActivationId = offset + config.minReactorId + config.activationCount;
-            for (const offset2 of config.batteryReactorOffsets) {
-                restricted.push(maxActivationId + offset2);
-            }
-            return restricted;
-        }
-    },
-    { // Reactor#5
-        lotId: 5,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.minReactorId + 4 * config.reactorIdStep],
-        amounts: [1],
-        restrictedItems: (config: typeof REACTOR_CONFIG) => {
-            const reactorIndex = 5;
-            const offset = (reactorIndex - 1) * config.reactorIdStep;
-            const restricted = [
-                offset + config.minReactorId,
-                offset + config.minReactorId + 1,
-                offset + config.minReactorId + 2,
-                offset + config.minReactorId + 3,
-            ];
-            // Add final activation variants
-            const maxActivationId = offset + config.minReactorId + config.activationCount;
-            for (const offset2 of config.batteryReactorOffsets) {
-                restricted.push(maxActivationId + offset2);
-            }
-            return restricted;
-        }
-    },
-    { // Reactor#6
-        lotId: 6,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.minReactorId + 5 * config.reactorIdStep],
-        amounts: [1],
-        restrictedItems: (config: typeof REACTOR_CONFIG) => {
-            const reactorIndex = 6;
-            const offset = (reactorIndex - 1) * config.reactorIdStep;
-            const restricted = [
-                offset + config.minReactorId,
-                offset + config.minReactorId + 1,
-                offset + config.minReactorId + 2,
-                offset + config.minReactorId + 3,
-            ];
-            // Add final activation variants
-            const maxActivationId = offset + config.minReactorId + config.activationCount;
-            for (const offset2 of config.batteryReactorOffsets) {
-                restricted.push(maxActivationId + offset2);
-            }
-            return restricted;
-        }
-    },
-    { // Reactor#7
-        lotId: 7,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.minReactorId + 6 * config.reactorIdStep],
-        amounts: [1],
-        restrictedItems: (config: typeof REACTOR_CONFIG) => {
-            const reactorIndex = 7;
-            const offset = (reactorIndex - 1) * config.reactorIdStep;
-            const restricted = [
-                offset + config.minReactorId,
-                offset + config.minReactorId + 1,
-                offset + config.minReactorId + 2,
-                offset + config.minReactorId + 3,
-            ];
-            // Add final activation variants
-            const maxActivationId = offset + config.minReactorId + config.activationCount;
-            for (const offset2 of config.batteryReactorOffsets) {
-                restricted.push(maxActivationId + offset2);
-            }
-            return restricted;
-        }
-    },
-    { // Spark Cell#1
-        lotId: 20,
-        priceInTrax: "7",
-        priceInTraxTurbo: "5",
-        priceInAcid: "7",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.batteryItemIds[0]],
-        amounts: [1],
-        restrictedItems: () => []
-    },
-    { // Flux Cell#2
-        lotId: 21,
-        priceInTrax: "70",
-        priceInTraxTurbo: "50",
-        priceInAcid: "70",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.batteryItemIds[1]],
-        amounts: [1],
-        restrictedItems: () => []
-    },
-    { // Quantum Cell#3
-        lotId: 22,
-        priceInTrax: "700",
-        priceInTraxTurbo: "500",
-        priceInAcid: "700",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.batteryItemIds[2]],
-        amounts: [1],
-        restrictedItems: () => []
-    },
-    { // Nova Cell#4
-        lotId: 23,
-        priceInTrax: "7000",
-        priceInTraxTurbo: "5000",
-        priceInAcid: "7000",
-        priceInRoach: "0",
-        itemIds: (config: typeof REACTOR_CONFIG) => [config.batteryItemIds[3]],
-        amounts: [1],
-        restrictedItems: () => []
-    },
-    { // Ticket
-        lotId: 201,
-        priceInTrax: "70",
-        priceInTraxTurbo: "70",
-        priceInAcid: "0",
-        priceInRoach: "0",
-        itemIds: () => [201],
-        amounts: [1],
-        restrictedItems: () => [201]
-    },
-];
+        restrictedItems: item.family !== undefined ? getReactorFamily(item.family) : item.maxCount === 1 ? [item.id] : [],
+        startTime: item.lot!.startTime,
+        endTime: item.lot!.endTime,
+    }))
+    .sort((a, b) => a.lotId - b.lotId);
 
-// Shop lot ID range (calculated from SHOP_LOTS)
+// Full lot ID range scanned by sync scripts to find on-chain lots removed from SHOP_LOTS.
+// Must cover every lot ID ever created, not only the currently configured ones
 export const SHOP_CONFIG = {
     minLotId: 1,
-    maxLotId: Math.max(...SHOP_LOTS.map(lot => lot.lotId)),
+    maxLotId: 300,
 };
 
+if (SHOP_LOTS.some(lot => lot.lotId < SHOP_CONFIG.minLotId || lot.lotId > SHOP_CONFIG.maxLotId)) {
+    throw new Error(`SHOP_LOTS contains lot IDs outside SHOP_CONFIG range ${SHOP_CONFIG.minLotId}-${SHOP_CONFIG.maxLotId}`);
+}
+
+export interface RecipeConfig {
+    recipeId: number;
+    // Items burned from the crafter
+    inputIds: number[];
+    inputCounts: number[];
+    // Items minted to the crafter
+    outputIds: number[];
+    outputCounts: number[];
+    // Seconds between two crafts of the recipe by the same account (default: none)
+    cooldown?: number;
+    // Prices in whole tokens, "0" or omitted = payment not available in that token
+    priceInAcid?: string;
+    priceInRoach?: string;
+    // Crafting window (unix seconds). If omitted, new recipes start now and have no deadline,
+    // and existing recipes keep their on-chain window
+    startTime?: number;
+    endTime?: number;
+}
+
+// Crafter recipes (shared across all environments), reconciled on-chain by sync-recipes.ts
+export const RECIPES: RecipeConfig[] = [];
+
+// Full recipe ID range scanned by sync-recipes.ts to find on-chain recipes removed from RECIPES.
+// Must cover every recipe ID ever created, not only the currently configured ones
+export const CRAFTER_CONFIG = {
+    minRecipeId: 1,
+    maxRecipeId: 200,
+};
+
+if (RECIPES.some(recipe => recipe.recipeId < CRAFTER_CONFIG.minRecipeId || recipe.recipeId > CRAFTER_CONFIG.maxRecipeId)) {
+    throw new Error(`RECIPES contains recipe IDs outside CRAFTER_CONFIG range ${CRAFTER_CONFIG.minRecipeId}-${CRAFTER_CONFIG.maxRecipeId}`);
+}
+
+// Resolved role holders per contract: contracts key -> role -> addresses
+export type ResolvedRoleMatrix = Record<string, Partial<Record<keyof typeof ROLES, string[]>>>;
+
+/**
+ * Role matrix of an environment (DeployConfig.roles) with contract holders resolved to their addresses
+ * Contracts not deployed in the environment are skipped, as holders and as checked contracts
+ */
+export function getRoleMatrix(config: DeployConfig): ResolvedRoleMatrix {
+    const matrix: ResolvedRoleMatrix = {};
+    for (const [contractKey, roles] of Object.entries(config.roles) as Array<[keyof DeployConfig['contracts'], Partial<Record<keyof typeof ROLES, RoleHolder[]>>]>) {
+        if (!config.contracts[contractKey]) {
+            continue;
+        }
+
+        matrix[contractKey] = {};
+        for (const [role, holders] of Object.entries(roles) as Array<[keyof typeof ROLES, RoleHolder[]]>) {
+            const addresses = holders
+                .map(holder => typeof holder === 'string' ? holder : config.contracts[holder.contract])
+                .filter((address): address is string => !!address);
+            // Same account listed twice (e.g. admin also being the manager)
+            matrix[contractKey][role] = addresses.filter((address, i) =>
+                addresses.findIndex(other => other.toLowerCase() === address.toLowerCase()) === i);
+        }
+    }
+    return matrix;
+}
+
+/**
+ * Get configuration for the current environment (DEPLOY_ENV)
+ * Deploy entrypoints pass hre: the configuration is validated and must target the connected network,
+ * so a script fails fast with a readable report before any transaction is sent.
+ * Without hre (SDK, off-chain tools) it is returned as is.
+ */
+export function getConfig(hre?: HardhatRuntimeEnvironment): DeployConfig {
+    const config = getEnvConfig();
+    if (!hre) {
+        return config;
+    }
+
+    assertValidConfig(getEnvName(), config, Object.keys(hre.config.networks));
+    if (hre.network.name !== config.network) {
+        throw new Error(`${getEnvName()} configuration targets ${config.network}, but hardhat is connected to ${hre.network.name}`);
+    }
+
+    return config;
+}
+
 // Re-export from config-env for convenience
-export { getConfig, type DeployConfig } from './config-env';
+export { getEnvName, type DeployConfig };
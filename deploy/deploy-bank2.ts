@@ -6,7 +6,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     const networkType = isZkSyncNetwork(hre) ? 'zkSync' : 'EVM';
     console.log(`Running deploy script for BankV2 on ${hre.network.name} (${networkType})...`);
 
-    const config = getConfig();
+    const config = getConfig(hre);
     const deployer = await createDeployer(hre);
 
     if (!config.contracts.trax) {
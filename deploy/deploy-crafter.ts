@@ -0,0 +1,102 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { createDeployer, verifyContract, isZkSyncNetwork, recordContract } from "./utils/deployUtils";
+import { getConfig, ROLES } from "./config";
+
+// Deploy Crafter behind a UUPS proxy, recipes are created afterwards with sync-recipes.ts
+// Usage: DEPLOY_ENV=danBsc npx hardhat deploy-zksync --script deploy-crafter.ts
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const networkType = isZkSyncNetwork(hre) ? 'zkSync' : 'EVM';
+    console.log(`Deploying Crafter contract on ${hre.network.name} (${networkType})...`);
+
+    const deployer = await createDeployer(hre);
+    const deployerAddress = await deployer.getAddress();
+
+    // Load environment-specific configuration
+    const config = getConfig(hre);
+
+    // Validate required contract addresses
+    if (!config.contracts.inventoryProxy) {
+        throw new Error("Inventory contract address not configured for this environment");
+    }
+    if (!config.contracts.acid) {
+        throw new Error("ACID contract address not configured for this environment");
+    }
+    if (!config.contracts.roach) {
+        throw new Error("ROACH contract address not configured for this environment");
+    }
+
+    console.log("Using Inventory at:", config.contracts.inventoryProxy);
+    console.log("Using ACID at:", config.contracts.acid);
+    console.log("Using ROACH at:", config.contracts.roach);
+
+    // Deploy Crafter implementation
+    console.log("\n📦 Deploying Crafter implementation...");
+    const crafterArtifact = await deployer.loadArtifact("Crafter");
+    const crafterImplementation = await crafterArtifact.deploy([]);
+    const crafterImplementationAddress = await crafterImplementation.getAddress();
+    console.log(`Crafter implementation deployed at ${crafterImplementationAddress}`);
+
+    // Verify Crafter implementation
+    await verifyContract(crafterImplementationAddress, [], hre, "contracts/Crafter.sol:Crafter");
+
+    // Encode initialize function call
+    const initializeData = crafterArtifact.interface.encodeFunctionData("initialize", [
+        config.contracts.inventoryProxy, // Inventory contract address
+        config.contracts.acid,           // ACID token address
+        config.contracts.roach,          // ROACH token address
+        deployerAddress                  // Admin role
+    ]);
+
+    // Deploy CrafterProxy
+    console.log("Deploying CrafterProxy...");
+    const proxyArtifact = await deployer.loadArtifact("CrafterProxy");
+    const proxy = await proxyArtifact.deploy([crafterImplementationAddress, initializeData]);
+    const proxyAddress = await proxy.getAddress();
+    console.log(`Crafter proxy deployed at ${proxyAddress}`);
+
+    await recordContract(proxy, "CrafterProxy", [crafterImplementationAddress, initializeData], deployer, hre, {
+        implementation: crafterImplementationAddress,
+        contractPath: "contracts/utils/CrafterProxy.sol:CrafterProxy",
+    });
+
+    // Verify CrafterProxy
+    await verifyContract(proxyAddress, [crafterImplementationAddress, initializeData], hre, "contracts/utils/CrafterProxy.sol:CrafterProxy");
+
+    // Get Crafter contract interface at proxy address
+    const crafterContract = await hre.ethers.getContractAt("Crafter", proxyAddress, deployer.getSigner());
+
+    // Grant necessary roles
+    const inventoryContract = await hre.ethers.getContractAt("Inventory", config.contracts.inventoryProxy, deployer.getSigner());
+
+    console.log("Granting MINTER_ROLE and BURNER_ROLE to Crafter contract...");
+    await inventoryContract.grantRole(ROLES.MINTER_ROLE, proxyAddress);
+    await inventoryContract.grantRole(ROLES.BURNER_ROLE, proxyAddress);
+
+    // Grant MANAGER_ROLE to manager address
+    if (config.manager) {
+        console.log("Granting MANAGER_ROLE to manager address...");
+        await crafterContract.grantRole(ROLES.MANAGER_ROLE, config.manager);
+    }
+
+    console.log("\n✅ Deployment Summary:");
+    console.log(`  Network: ${hre.network.name} (${networkType})`);
+    console.log(`  Crafter (Proxy): ${proxyAddress}`);
+    console.log(`  Crafter (Implementation): ${crafterImplementationAddress}`);
+    console.log(`  Inventory: ${config.contracts.inventoryProxy}`);
+    console.log(`  ACID: ${config.contracts.acid}`);
+    console.log(`  ROACH: ${config.contracts.roach}`);
+    console.log(`  Manager: ${config.manager || "Not configured"}`);
+    console.log(`\nNext: create recipes with sync-recipes.ts`);
+}
+
+// Support for hardhat run (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat");
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -1,5 +1,5 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
-import { createDeployer, verifyContract, isZkSyncNetwork } from "./utils/deployUtils";
+import { createDeployer, verifyContract, isZkSyncNetwork, recordContract, recordProxyUpgrade } from "./utils/deployUtils";
 import { getConfig, ROLES, INVENTORY_TOKEN_LIMITS, SOULBOUND_TOKENS, RESTRICTED_ITEMS } from "./config";
 
 export default async function (hre: HardhatRuntimeEnvironment) {
@@ -7,7 +7,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     console.log(`Running deploy script for Inventory on ${hre.network.name} (${networkType})...`);
 
     // Load environment-specific configuration
-    const config = getConfig();
+    const config = getConfig(hre);
 
     // Create universal deployer
     const deployer = await createDeployer(hre);
@@ -43,6 +43,8 @@ export default async function (hre: HardhatRuntimeEnvironment) {
         await upgradeTx.wait();
         console.log(`✅ Proxy upgraded successfully`);
 
+        await recordProxyUpgrade(hre, "inventoryProxy", proxyAddress, inventoryImplementationAddress);
+
     } else {
         console.log(`\n📦 Deploying new Inventory with proxy...`);
 
@@ -70,6 +72,11 @@ export default async function (hre: HardhatRuntimeEnvironment) {
         proxyAddress = await proxy.getAddress();
         console.log(`Inventory proxy deployed at ${proxyAddress}`);
 
+        await recordContract(proxy, "InventoryProxy", [inventoryImplementationAddress, initializeData], deployer, hre, {
+            implementation: inventoryImplementationAddress,
+            contractPath: "contracts/utils/InventoryProxy.sol:InventoryProxy",
+        });
+
         // Verify InventoryProxy
         await verifyContract(proxyAddress, [inventoryImplementationAddress, initializeData], hre, "contracts/utils/InventoryProxy.sol:InventoryProxy");
 
@@ -6,7 +6,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     const networkType = isZkSyncNetwork(hre) ? 'zkSync' : 'EVM';
     console.log(`Running ROACH deploy script on ${hre.network.name} (${networkType})...`);
 
-    const config = getConfig();
+    const config = getConfig(hre);
     const deployer = await createDeployer(hre);
     const deployerAddress = await deployer.getAddress();
     console.log(`Deployer: ${deployerAddress}`);
@@ -21,7 +21,6 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     console.log(`  Admin: ${config.admin[0]}`);
     console.log(`  Minter: ${config.minter}`);
     console.log(`  Signer: ${config.signer}`);
-    console.log(`\n📝 Add to config-env.ts: roach: '${roachAddress}'`);
 }
 
 if (require.main === module) {
@@ -1,5 +1,5 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
-import { createDeployer, deployAndVerify, verifyContract, isZkSyncNetwork } from "./utils/deployUtils";
+import { createDeployer, deployAndVerify, verifyContract, isZkSyncNetwork, recordContract } from "./utils/deployUtils";
 import { getConfig, REACTOR_CONFIG, SHOP_LOTS, ROLES } from "./config";
 import { ethers } from "hardhat";
 
@@ -11,7 +11,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     const deployerAddress = await deployer.getAddress();
 
     // Load environment-specific configuration
-    const config = getConfig();
+    const config = getConfig(hre);
 
     // Validate required contract addresses
     if (!config.contracts.trax) {
@@ -76,6 +76,11 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     const proxyAddress = await proxy.getAddress();
     console.log(`Reactor proxy deployed at ${proxyAddress}`);
 
+    await recordContract(proxy, "ReactorProxy", [reactorImplementationAddress, initializeData], deployer, hre, {
+        implementation: reactorImplementationAddress,
+        contractPath: "contracts/utils/ReactorProxy.sol:ReactorProxy",
+    });
+
     // Verify ReactorProxy
     await verifyContract(proxyAddress, [reactorImplementationAddress, initializeData], hre, "contracts/utils/ReactorProxy.sol:ReactorProxy");
 
@@ -112,9 +117,9 @@ export default async function (hre: HardhatRuntimeEnvironment) {
             ethers.parseEther(lot.priceInTraxTurbo),
             now,
             endTime,
-            lot.itemIds(REACTOR_CONFIG),
+            lot.itemIds,
             lot.amounts,
-            lot.restrictedItems(REACTOR_CONFIG)
+            lot.restrictedItems
         );
     }
     console.log(`Created ${SHOP_LOTS.length} shop lots`);
@@ -10,7 +10,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     const deployerAddress = await deployer.getAddress();
 
     // Load environment-specific configuration
-    const config = getConfig();
+    const config = getConfig(hre);
 
     // Validate required contract addresses
     if (!config.contracts.acid) {
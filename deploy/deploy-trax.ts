@@ -7,7 +7,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     console.log(`Running deploy script on ${hre.network.name} (${networkType})...`);
 
     // Load environment-specific configuration
-    const config = getConfig();
+    const config = getConfig(hre);
 
     // Create universal deployer
     const deployer = await createDeployer(hre);
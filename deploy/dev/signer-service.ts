@@ -0,0 +1,76 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {Wallet} from "ethers";
+import {getConfig} from "../config";
+import {SIGN_KINDS, SignIdStore, SignerService, SignerServiceContracts, createSignerServer} from "../../sdk/signerService";
+
+// Local signer service for frontend / QA end-to-end runs without the production backend.
+// Usage: SIGNER_PRIVATE_KEY=0x... DEPLOY_ENV=dev npx hardhat run deploy/dev/signer-service.ts --network inMemoryNode
+//
+// Env options:
+//   SIGNER_PRIVATE_KEY   key matching signerAddress / SIGNER_ROLE of the contracts (required)
+//   SERVICE_CONTRACTS    JSON overriding config addresses, e.g. '{"claimer":"0x...","trax":"0x..."}'
+//                        (keys: inventory, claimer, bankV2, retroDrop, gridle, trax)
+//   SERVICE_PORT         default 8787
+//   SERVICE_STORE        issued signIds and quota history, default signer-service-<DEPLOY_ENV>.json
+//   SERVICE_QUOTA        signatures per account per SERVICE_QUOTA_WINDOW seconds (default 20 per 86400)
+//   SERVICE_MAX_TTL      max signature lifetime in seconds (default 3600)
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    if (!process.env.SIGNER_PRIVATE_KEY) {
+        throw new Error("SIGNER_PRIVATE_KEY is not set");
+    }
+    const signer = new Wallet(process.env.SIGNER_PRIVATE_KEY);
+    const env = process.env.DEPLOY_ENV || 'dev';
+
+    // Static config and deployments registry, the local node is not validated against config.network
+    const config = getConfig();
+    const contracts: SignerServiceContracts = {
+        inventory: config.contracts.inventoryProxy,
+        claimer: config.contracts.claimer,
+        bankV2: config.contracts.bankV2,
+        retroDrop: config.contracts.retroDrop,
+        gridle: config.contracts.gridle,
+        trax: config.contracts.trax,
+        ...JSON.parse(process.env.SERVICE_CONTRACTS || '{}'),
+    };
+
+    const provider = hre.ethers.provider;
+    const {chainId} = await provider.getNetwork();
+
+    const service = new SignerService({
+        signer,
+        chainId,
+        contracts,
+        store: new SignIdStore(process.env.SERVICE_STORE || `signer-service-${env}.json`),
+        quota: process.env.SERVICE_QUOTA ? Number(process.env.SERVICE_QUOTA) : undefined,
+        quotaWindow: process.env.SERVICE_QUOTA_WINDOW ? Number(process.env.SERVICE_QUOTA_WINDOW) : undefined,
+        maxTtl: process.env.SERVICE_MAX_TTL ? Number(process.env.SERVICE_MAX_TTL) : undefined,
+        // Block time, so deadlines stay valid after evm_increaseTime on the local node
+        now: async () => (await provider.getBlock('latest'))!.timestamp,
+    });
+
+    const port = Number(process.env.SERVICE_PORT || 8787);
+    const server = createSignerServer(service);
+    await new Promise<void>(resolve => server.listen(port, resolve));
+
+    console.log(`🔏 Signer service on http://localhost:${port} (chain ${chainId}, signer ${signer.address})\n`);
+    for (const [key, address] of Object.entries(contracts)) {
+        console.log(`  • ${key}: ${address || 'not configured'}`);
+    }
+    console.log(`\n  Kinds: ${SIGN_KINDS.join(', ')}`);
+    console.log(`  POST /sign/<kind> {"account": "0x...", ...}, Ctrl+C to stop`);
+
+    // Keep running until interrupted
+    await new Promise<void>(resolve => process.once('SIGINT', () => server.close(() => resolve())));
+}
+
+// Support for `hardhat run`
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,36 @@
+import type { DeployConfig } from "../config-env";
+
+const minutes = 60;
+
+// Dan's test environment on BSC testnet (deploy with --config hardhat.config.evm.ts)
+// Contract addresses are taken from deployments/danBsc.json, written by the deploy scripts.
+// Empty values must be filled in before running scripts - getConfig() reports them.
+export const danBsc: DeployConfig = {
+    network: 'bscTestnet',
+    admin: [],
+    signer: '',
+    minter: '',
+    withdraw: '',
+    manager: '',
+
+    contracts: {},
+
+    metadata: {
+        badges: '',
+        inventory: '',
+        inventoryContract: '',
+    },
+
+    timelock: {
+        minDelay: 5 * minutes,
+        proposers: [],
+        executors: [],
+    },
+
+    reactor: {
+        batteryDurations: [5 * minutes, 5 * minutes, 5 * minutes, 5 * minutes],
+    },
+
+    // Nothing is reconciled by sync-roles.ts until the holders are filled in
+    roles: {},
+};
@@ -0,0 +1,148 @@
+import type { DeployConfig } from "../config-env";
+
+const week = 7 * 24 * 60 * 60;
+
+const admin = '0x652A359448b8a6EDD17eFCc83Cc4C9f6201C27f6';
+const signer = '0x20000dC5611f4258cb9c0b0d0Da971cDba8b96a9';
+const minter = '0x100000ec0732D3A7B69660aa85dBaDdd672879f0';
+const withdraw = '0xF4D8df25C716871b3435189343D54B6A3558C4a0';
+const manager = admin;
+const proposer = '0x3857CE692dd96f307d42A03Ac5F33DB2496cF82f';
+
+export const prod: DeployConfig = {
+    network: 'abstractMainnet',
+    admin: [admin],
+    signer,
+    minter,
+    withdraw,
+    manager,
+
+    contracts: {
+        trax: '0x7eDD91c4dd202032872BFbfcd3a4E4F71CB4B8bC',
+        traxExchange: '0x341C67CB6b91Fb0b476860E8487DAc219E9D3369',
+        inventoryProxy: '0x8ea6982e0dF527bCccb42A4F13E715e3b0C78253',
+        inventoryTimelock: undefined,
+        reactorProxy: '0x5714A3BB86Ff21e3F24Dc0EAF1afF351AEaCE101',
+        lootbox: '0xA0f69095d2b31e9795e9923cD2a66Fa911CCd3cf',
+        shop: '0xFD2e105E1dc31dF9A4301f22aA6cAd67C0FD1632',
+        usdc: '0x84A71ccD554Cc1b02749b35d22F684CC8ec987e1',
+    },
+
+    metadata: {
+        badges: 'https://beta.roachracingclub.com/api/metadata/badge/',
+        inventory: 'https://beta.roachracingclub.com/api/metadata/inventory/',
+        inventoryContract: 'https://beta.roachracingclub.com/api/metadata/inventory-contract',
+    },
+
+    timelock: {
+        minDelay: 24 * 60 * 60, // 1 day
+        proposers: [proposer],
+        executors: [],
+    },
+
+    reactor: {
+        batteryDurations: [week, week, week, week],
+    },
+
+    // SIGNER_ROLE on signerAddress contracts (TRAX, ACID, ROACH, Inventory, Badges, Bank, Gridle) only holds
+    // the additional signers of a rotation in progress, see README "Signer rotation"
+    roles: {
+        trax: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            MINTER_ROLE: [minter, {contract: 'traxExchange'}, {contract: 'claimer'}],
+            SIGNER_ROLE: [],
+        },
+        traxExchange: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            SET_PRICE_ROLE: [admin],
+            WITHDRAW_ROLE: [withdraw, {contract: 'traxRedeem'}],
+        },
+        traxRedeem: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            WITHDRAW_ROLE: [withdraw],
+        },
+        inventoryProxy: {
+            // Move to {contract: 'inventoryTimelock'} once admin is transferred to the timelock
+            DEFAULT_ADMIN_ROLE: [admin],
+            // Inventory.initialize grants MINTER_ROLE to the admin
+            MINTER_ROLE: [admin, minter, {contract: 'shop'}, {contract: 'shopV2'}, {contract: 'reactorProxy'}, {contract: 'crafterProxy'}],
+            BURNER_ROLE: [{contract: 'reactorProxy'}, {contract: 'crafterProxy'}],
+            BAN_ROLE: [manager],
+            PAUSER_ROLE: [admin],
+            WITHDRAW_ROLE: [withdraw],
+            SIGNER_ROLE: [],
+        },
+        inventoryTimelock: {
+            // TimelockController administers itself, the admin can be renounced once the setup is verified
+            DEFAULT_ADMIN_ROLE: [{contract: 'inventoryTimelock'}, admin],
+            PROPOSER_ROLE: [proposer],
+            CANCELLER_ROLE: [proposer],
+            // Empty executors list means anyone can execute (role granted to address(0))
+            EXECUTOR_ROLE: ['0x0000000000000000000000000000000000000000'],
+        },
+        reactorProxy: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            // Reactor.initialize grants MANAGER_ROLE to the admin
+            MANAGER_ROLE: [admin, manager],
+        },
+        crafterProxy: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            MANAGER_ROLE: [admin, manager],
+        },
+        shop: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            WITHDRAW_ROLE: [withdraw],
+            MANAGER_ROLE: [admin, manager],
+        },
+        shopV2: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            WITHDRAW_ROLE: [withdraw],
+            MANAGER_ROLE: [admin, manager],
+        },
+        acid: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            MINTER_ROLE: [minter],
+            SIGNER_ROLE: [],
+        },
+        roach: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            MINTER_ROLE: [minter],
+            SIGNER_ROLE: [],
+        },
+        retroDrop: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            SIGNER_ROLE: [signer],
+            WITHDRAW_ROLE: [admin, withdraw],
+        },
+        claimer: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            SIGNER_ROLE: [signer],
+            WITHDRAW_ROLE: [admin, withdraw],
+        },
+        bank: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            WITHDRAW_ROLE: [admin],
+            REFUND_ROLE: [admin],
+            SIGNER_ROLE: [],
+        },
+        bankV2: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            WITHDRAW_ROLE: [withdraw],
+            SIGNER_ROLE: [signer],
+            // transferToken / sendEth payouts, nobody by default
+            OPERATOR_ROLE: [],
+        },
+        badges: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            MINTER_ROLE: [admin],
+            WITHDRAW_ROLE: [withdraw],
+            SIGNER_ROLE: [],
+        },
+        gridle: {
+            DEFAULT_ADMIN_ROLE: [admin],
+            WITHDRAW_ROLE: [admin, withdraw],
+            REFUND_ROLE: [admin, minter],
+            SIGNER_ROLE: [],
+        },
+    },
+};
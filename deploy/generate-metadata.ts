@@ -0,0 +1,158 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import * as fs from "fs";
+import * as path from "path";
+import {ITEM_CATALOG, REACTOR_CONFIG, type CatalogItem} from "./config";
+
+// Generate static ERC1155 metadata for Inventory from the item catalog in deploy/config.ts:
+// one {id}.json per catalog item and contract.json for contractURI (based on metadata/inventory.json)
+// Usage: npm run generate-metadata
+//
+// Env options:
+//   METADATA_DIR       output directory (default: metadata/inventory)
+//   IMAGE_BASE_URL     image URL prefix, image is <IMAGE_BASE_URL><id>.png (default: images/)
+//   EXTERNAL_URL       optional external_link for contract.json
+//   METADATA_BASE_URL  with --check, also fetch <METADATA_BASE_URL><id> for every item (same URL Inventory.uri() returns)
+//
+// With --check (or METADATA_CHECK=1) nothing is written: fails if any catalog item has no metadata file (or no hosted metadata)
+
+const CONTRACT_METADATA_FILE = path.join(__dirname, "..", "metadata", "inventory.json");
+
+interface TokenMetadata {
+    name: string;
+    description: string;
+    image: string;
+    attributes: Array<{ trait_type: string; value: string | number; display_type?: string }>;
+}
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const outputDir = process.env.METADATA_DIR || path.join(__dirname, "..", "metadata", "inventory");
+    const imageBaseUrl = process.env.IMAGE_BASE_URL || "images/";
+
+    if (process.argv.includes('--check') || process.env.METADATA_CHECK === '1') {
+        await checkMetadata(outputDir, process.env.METADATA_BASE_URL);
+        return;
+    }
+
+    fs.mkdirSync(outputDir, {recursive: true});
+
+    for (const item of ITEM_CATALOG) {
+        const metadata = buildTokenMetadata(item, imageBaseUrl);
+        fs.writeFileSync(path.join(outputDir, `${item.id}.json`), JSON.stringify(metadata, null, 2) + "\n");
+    }
+    console.log(`✅ Wrote metadata for ${ITEM_CATALOG.length} token(s) to ${outputDir}`);
+
+    const contractMetadata = {
+        ...JSON.parse(fs.readFileSync(CONTRACT_METADATA_FILE, "utf8")),
+        image: `${imageBaseUrl}collection.png`,
+        ...(process.env.EXTERNAL_URL ? {external_link: process.env.EXTERNAL_URL} : {}),
+    };
+    fs.writeFileSync(path.join(outputDir, "contract.json"), JSON.stringify(contractMetadata, null, 2) + "\n");
+    console.log(`✅ Wrote contractURI document to ${path.join(outputDir, "contract.json")}`);
+}
+
+/**
+ * Build OpenSea-compatible metadata for a catalog item
+ */
+export function buildTokenMetadata(item: CatalogItem, imageBaseUrl: string): TokenMetadata {
+    const attributes: TokenMetadata["attributes"] = [
+        {trait_type: "Category", value: capitalize(item.category)},
+    ];
+    let description: string;
+
+    if (item.category === 'reactor') {
+        const series = (item.family! - REACTOR_CONFIG.minReactorId) / REACTOR_CONFIG.reactorIdStep + 1;
+        const level = Math.min(item.id - item.family!, REACTOR_CONFIG.activationCount);
+        attributes.push({trait_type: "Reactor Series", value: series});
+        attributes.push({trait_type: "Activation Level", value: level, display_type: "number"});
+
+        if (level === REACTOR_CONFIG.activationCount) {
+            // Final activation variant depends on the battery used for the last activation
+            const batteryType = getBatteryName(item.id - item.family! - REACTOR_CONFIG.activationCount);
+            attributes.push({trait_type: "Battery Type", value: batteryType});
+            description = `Reactor series ${series}, fully activated with ${batteryType}.`;
+        } else {
+            description = level === 0
+                ? `Reactor series ${series}. Activate it with batteries.`
+                : `Reactor series ${series}, activation level ${level} of ${REACTOR_CONFIG.activationCount}.`;
+        }
+    } else if (item.category === 'battery') {
+        attributes.push({trait_type: "Battery Type", value: item.name});
+        description = `${item.name} battery used to activate reactors.`;
+    } else {
+        description = `${item.name} from the Roach universe.`;
+    }
+
+    attributes.push({trait_type: "Soulbound", value: item.soulbound ? "Yes" : "No"});
+    if (item.maxCount !== undefined) {
+        attributes.push({trait_type: "Max Per Wallet", value: item.maxCount, display_type: "number"});
+    }
+
+    return {
+        name: item.name,
+        description,
+        image: `${imageBaseUrl}${item.id}.png`,
+        attributes,
+    };
+}
+
+/**
+ * Verify every catalog item has metadata in outputDir and, when baseUrl is set, at the hosted URL
+ */
+async function checkMetadata(outputDir: string, baseUrl?: string) {
+    const missing: string[] = [];
+
+    for (const item of ITEM_CATALOG) {
+        if (!fs.existsSync(path.join(outputDir, `${item.id}.json`))) {
+            missing.push(`${item.id} (${item.name}): no ${item.id}.json in ${outputDir}`);
+        }
+    }
+    if (!fs.existsSync(path.join(outputDir, "contract.json"))) {
+        missing.push(`contract.json not found in ${outputDir}`);
+    }
+
+    if (baseUrl) {
+        for (const item of ITEM_CATALOG) {
+            const url = `${baseUrl}${item.id}`;
+            try {
+                const response = await fetch(url);
+                if (!response.ok) {
+                    missing.push(`${item.id} (${item.name}): ${url} returned ${response.status}`);
+                    continue;
+                }
+                const metadata = await response.json();
+                if (!metadata.name) {
+                    missing.push(`${item.id} (${item.name}): ${url} has no name`);
+                }
+            } catch (error: any) {
+                missing.push(`${item.id} (${item.name}): ${url} failed: ${error.message}`);
+            }
+        }
+    }
+
+    if (missing.length > 0) {
+        missing.forEach(problem => console.log(`    ❌ ${problem}`));
+        throw new Error(`Metadata missing for ${missing.length} item(s)`);
+    }
+
+    console.log(`✅ Metadata found for all ${ITEM_CATALOG.length} catalog item(s)${baseUrl ? ` (local and ${baseUrl})` : ''}`);
+}
+
+function getBatteryName(offset: number): string {
+    const batteryId = REACTOR_CONFIG.batteryItemIds[REACTOR_CONFIG.batteryReactorOffsets.indexOf(offset)];
+    return ITEM_CATALOG.find(item => item.id === batteryId)?.name ?? `Battery #${offset + 1}`;
+}
+
+function capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Support for `hardhat run`
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,201 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {EventLog, Interface, TransactionDescription} from "ethers";
+import {getConfig, getEnvName, ROLES} from "../config";
+import {loadRegistry} from "../utils/deploymentRegistry";
+import {getRoleHolders} from "../utils/roles";
+
+/**
+ * Script to inspect Inventory TimelockController before executing an operation
+ *
+ * Reports:
+ * 1. PROPOSER/EXECUTOR/CANCELLER/DEFAULT_ADMIN role holders and min delay
+ * 2. Whether timelock holds DEFAULT_ADMIN_ROLE on Inventory
+ * 3. For OPERATION_ID: state (unset/pending/ready/done), ETA and decoded scheduled call(s)
+ *
+ * Usage:
+ * OPERATION_ID=0x... DEPLOY_ENV=dev npx hardhat deploy-zksync --script inventory/check-timelock-roles.ts
+ */
+
+// TimelockController.OperationState
+const OPERATION_STATES = ['Unset', 'Waiting', 'Ready', 'Done'];
+
+// Contracts whose calls can be scheduled through the timelock
+const DECODABLE_CONTRACTS = ["Inventory", "Reactor", "TimelockController"];
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    console.log("Checking Inventory TimelockController...\n");
+
+    const config = getConfig(hre);
+    const registry = loadRegistry(getEnvName());
+    const provider = hre.ethers.provider;
+
+    const timelockAddress = process.env.TIMELOCK_ADDRESS || config.contracts.inventoryTimelock;
+    const inventoryAddress = process.env.INVENTORY_ADDRESS || config.contracts.inventoryProxy;
+    const operationId = process.env.OPERATION_ID;
+
+    if (!timelockAddress) {
+        throw new Error("Timelock address not found. Set TIMELOCK_ADDRESS or update config.ts");
+    }
+
+    const timelock = await hre.ethers.getContractAt("TimelockController", timelockAddress);
+    const fromBlock = registry.inventoryTimelock?.blockNumber ?? Number(process.env.FROM_BLOCK || 0);
+
+    console.log(`Timelock: ${timelockAddress}`);
+    if (inventoryAddress) {
+        console.log(`Inventory: ${inventoryAddress}`);
+    }
+
+    // STEP 1: Min delay
+    const minDelay = await timelock.getMinDelay();
+    console.log(`\n⏱  Min delay: ${minDelay} seconds (${formatDuration(Number(minDelay))})`);
+    if (Number(minDelay) !== config.timelock.minDelay) {
+        console.log(`   ⚠️  Config expects ${config.timelock.minDelay} seconds`);
+    }
+
+    // STEP 2: Role holders
+    console.log("\n🔑 ROLE HOLDERS:");
+    const holders = await getRoleHolders(provider, timelockAddress, fromBlock);
+    const timelockRoles: Array<[string, string]> = [
+        ['PROPOSER_ROLE', ROLES.PROPOSER_ROLE],
+        ['EXECUTOR_ROLE', ROLES.EXECUTOR_ROLE],
+        ['CANCELLER_ROLE', ROLES.CANCELLER_ROLE],
+        ['DEFAULT_ADMIN_ROLE', ROLES.DEFAULT_ADMIN_ROLE],
+    ];
+
+    for (const [name, role] of timelockRoles) {
+        const members = holders.get(role.toLowerCase()) || [];
+        const display = members.map(member => member === hre.ethers.ZeroAddress ? `${member} (anyone)` : member);
+        console.log(`  ${name}: ${display.length > 0 ? display.join(', ') : 'none'}`);
+    }
+
+    const proposers = holders.get(ROLES.PROPOSER_ROLE.toLowerCase()) || [];
+    for (const expected of config.timelock.proposers) {
+        if (!proposers.some(proposer => proposer.toLowerCase() === expected.toLowerCase())) {
+            console.log(`  ⚠️  Configured proposer ${expected} does not hold PROPOSER_ROLE`);
+        }
+    }
+
+    // STEP 3: Timelock control over Inventory
+    if (inventoryAddress) {
+        const inventory = await hre.ethers.getContractAt("Inventory", inventoryAddress);
+        const timelockIsAdmin = await inventory.hasRole(ROLES.DEFAULT_ADMIN_ROLE, timelockAddress);
+        console.log(`\n🏛  Timelock has DEFAULT_ADMIN_ROLE on Inventory: ${timelockIsAdmin ? '✅ yes' : '❌ no'}`);
+
+        const inventoryHolders = await getRoleHolders(provider, inventoryAddress, registry.inventoryProxy?.blockNumber ?? Number(process.env.FROM_BLOCK || 0));
+        const otherAdmins = (inventoryHolders.get(ROLES.DEFAULT_ADMIN_ROLE) || [])
+            .filter(admin => admin.toLowerCase() !== timelockAddress.toLowerCase());
+        if (otherAdmins.length > 0) {
+            console.log(`   ⚠️  Other Inventory admins can bypass the timelock: ${otherAdmins.join(', ')}`);
+        }
+    }
+
+    // STEP 4: Operation status
+    if (!operationId) {
+        console.log("\nℹ️  Set OPERATION_ID to check a scheduled operation");
+        return;
+    }
+
+    console.log("\n" + "=".repeat(60));
+    console.log(`OPERATION ${operationId}`);
+    console.log("=".repeat(60));
+
+    const state = Number(await timelock.getOperationState(operationId));
+    const timestamp = Number(await timelock.getTimestamp(operationId));
+    const currentBlock = await provider.getBlock("latest");
+    const currentTime = currentBlock!.timestamp;
+
+    console.log(`\nState: ${OPERATION_STATES[state]}`);
+    if (state === 1 || state === 2) {
+        console.log(`ETA: ${new Date(timestamp * 1000).toISOString()} (block timestamp ${timestamp})`);
+        if (timestamp > currentTime) {
+            console.log(`Time remaining: ${formatDuration(timestamp - currentTime)}`);
+        } else {
+            console.log(`✅ Ready for execution`);
+        }
+    } else if (state === 0) {
+        console.log(`⚠️  Operation is not scheduled (never scheduled or cancelled)`);
+    }
+
+    // Decode scheduled call(s) from CallScheduled events
+    const interfaces: Array<[string, Interface]> = [];
+    for (const name of DECODABLE_CONTRACTS) {
+        const artifact = await hre.artifacts.readArtifact(name);
+        interfaces.push([name, new Interface(artifact.abi)]);
+    }
+
+    // Logs the contract ABI can't decode come back as plain Log, without args
+    const scheduledEvents = (await timelock.queryFilter(timelock.filters.CallScheduled(operationId), fromBlock))
+        .filter((event): event is EventLog => event instanceof EventLog);
+    if (scheduledEvents.length === 0) {
+        console.log(`\n⚠️  No CallScheduled events found for this operation since block ${fromBlock}`);
+        return;
+    }
+
+    console.log(`\nScheduled in tx ${scheduledEvents[0].transactionHash} (block ${scheduledEvents[0].blockNumber})`);
+
+    for (const event of scheduledEvents) {
+        const {index, target, value, data, predecessor, delay} = event.args;
+        console.log(`\n  Call #${index}:`);
+        console.log(`    Target: ${target}${describeTarget(target, config.contracts)}`);
+        console.log(`    Value: ${hre.ethers.formatEther(value)} ETH`);
+        console.log(`    Delay: ${delay} seconds`);
+        if (predecessor !== hre.ethers.ZeroHash) {
+            console.log(`    Predecessor: ${predecessor}`);
+        }
+
+        const decoded = decodeCall(interfaces, data);
+        if (!decoded) {
+            console.log(`    Data: ${data} (unknown selector ${data.slice(0, 10)})`);
+            continue;
+        }
+
+        const [contractName, call] = decoded;
+        console.log(`    Call: ${contractName}.${call.signature}`);
+        call.fragment.inputs.forEach((input, i) => {
+            console.log(`      ${input.name || `arg${i}`}: ${call.args[i]}`);
+        });
+
+        if (call.name === 'upgradeToAndCall') {
+            const newImplementation = call.args[0] as string;
+            const code = await provider.getCode(newImplementation);
+            console.log(`    New implementation: ${newImplementation} ${code !== '0x' ? '✅ has code' : '❌ NO CODE'}`);
+        }
+    }
+}
+
+/**
+ * Try decoding calldata with each known contract interface
+ */
+function decodeCall(interfaces: Array<[string, Interface]>, data: string): [string, TransactionDescription] | null {
+    for (const [name, iface] of interfaces) {
+        try {
+            const parsed = iface.parseTransaction({data});
+            if (parsed) return [name, parsed];
+        } catch {
+            // Not this contract
+        }
+    }
+    return null;
+}
+
+/**
+ * Name the target if it is one of the configured contracts
+ */
+function describeTarget(target: string, contracts: Record<string, string | undefined>): string {
+    const entry = Object.entries(contracts).find(([, address]) => address?.toLowerCase() === target.toLowerCase());
+    return entry ? ` (${entry[0]})` : '';
+}
+
+function formatDuration(seconds: number): string {
+    const days = Math.floor(seconds / (24 * 60 * 60));
+    const hours = Math.floor((seconds % (24 * 60 * 60)) / (60 * 60));
+    const minutes = Math.floor((seconds % (60 * 60)) / 60);
+    const secs = seconds % 60;
+
+    let display = '';
+    if (days > 0) display += `${days}d `;
+    if (hours > 0 || days > 0) display += `${hours}h `;
+    if (minutes > 0 || hours > 0 || days > 0) display += `${minutes}m `;
+    display += `${secs}s`;
+    return display;
+}
@@ -2,6 +2,7 @@ import {HardhatRuntimeEnvironment} from "hardhat/types";
 import {Wallet} from "zksync-ethers";
 import {vars} from "hardhat/config";
 import {getConfig} from "../config";
+import {getImplementationAddress, recordStorageLayout} from "../utils/storageLayout";
 
 /**
  * Script to execute a scheduled upgrade through TimelockController
@@ -10,11 +11,13 @@ import {getConfig} from "../config";
  * 1. Upgrade must be scheduled via upgrade-inventory-via-timelock.ts
  * 2. Timelock delay period must have passed
  * 3. Must have timelock-upgrade-params.json file (created by schedule script)
+ *
+ * After execution the new implementation is added to its storage-layouts/Inventory snapshot
  */
 export default async function (hre: HardhatRuntimeEnvironment) {
     console.log("Executing scheduled Inventory upgrade via TimelockController...\n");
 
-    const config = getConfig();
+    const config = getConfig(hre);
     const wallet = new Wallet(vars.get("DEPLOYER_PRIVATE_KEY"), hre.ethers.provider);
 
     // Load execution parameters
@@ -104,6 +107,13 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     const receipt = await executeTx.wait();
     console.log(`✅ Upgrade executed in block ${receipt!.blockNumber}`);
 
+    // Record the layout only once the proxy actually points at the scheduled implementation
+    const liveImplementation = await getImplementationAddress(hre, params.target);
+    if (liveImplementation.toLowerCase() !== params.newImplementation.toLowerCase()) {
+        throw new Error(`Proxy implementation is ${liveImplementation}, expected ${params.newImplementation}. Storage layout not recorded`);
+    }
+    recordStorageLayout("Inventory", params.release, params.storageLayout, {network: hre.network.name, address: liveImplementation});
+
     // Verify the upgrade
     const inventory = await hre.ethers.getContractAt("Inventory", params.target, wallet);
 
@@ -1,9 +1,8 @@
 import {HardhatRuntimeEnvironment} from "hardhat/types";
 import {Wallet} from "zksync-ethers";
 import {vars} from "hardhat/config";
-import {Deployer} from "@matterlabs/hardhat-zksync";
 import {getConfig, ROLES} from "../config";
-import {deployAndVerify} from "../utils/deployUtils";
+import {createDeployer, deployAndVerify} from "../utils/deployUtils";
 import * as readline from "readline";
 
 /**
@@ -13,9 +12,9 @@ import * as readline from "readline";
 export default async function (hre: HardhatRuntimeEnvironment) {
     console.log("Deploying TimelockController and transferring Inventory admin...");
 
-    const config = getConfig();
+    const config = getConfig(hre);
     const wallet = new Wallet(vars.get("DEPLOYER_PRIVATE_KEY"), hre.ethers.provider);
-    const deployer = new Deployer(hre, wallet);
+    const deployer = await createDeployer(hre);
 
     // Get Inventory address from config or environment
     const inventoryAddress = process.env.INVENTORY_ADDRESS || config.contracts.inventoryProxy;
@@ -4,20 +4,22 @@ import {Wallet} from "zksync-ethers";
 import {vars} from "hardhat/config";
 import {getConfig} from "../config";
 import {verifyContract} from "../utils/deployUtils";
+import {getReleaseName, validateUpgradeLayout} from "../utils/storageLayout";
 
 /**
  * Script to upgrade Inventory implementation through TimelockController
  *
  * Process:
+ * 0. Check the new storage layout against the snapshot of the live implementation (storage-layouts/Inventory)
  * 1. Deploy new implementation
  * 2. Schedule upgrade transaction in timelock
  * 3. Wait for timelock delay
- * 4. Execute the upgrade
+ * 4. Execute the upgrade (execute-timelock-upgrade.ts records the new storage layout)
  */
 export default async function (hre: HardhatRuntimeEnvironment) {
     console.log("Upgrading Inventory via TimelockController...\n");
 
-    const config = getConfig();
+    const config = getConfig(hre);
     const wallet = new Wallet(vars.get("DEPLOYER_PRIVATE_KEY"), hre.ethers.provider);
     const deployer = new Deployer(hre, wallet);
 
@@ -35,6 +37,9 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     console.log(`Inventory Proxy: ${inventoryProxyAddress}`);
     console.log(`Timelock: ${timelockAddress}\n`);
 
+    // STEP 0: Refuse layouts that would corrupt the live proxy storage, before anything is deployed or scheduled
+    const storageLayout = await validateUpgradeLayout(hre, "Inventory", inventoryProxyAddress);
+
     // STEP 1: Deploy new implementation
     console.log("📦 Deploying new Inventory implementation...");
     const inventoryArtifact = await deployer.loadArtifact("Inventory");
@@ -125,7 +130,10 @@ export default async function (hre: HardhatRuntimeEnvironment) {
         operationId,
         newImplementation: newImplementationAddress,
         executionTimestamp,
-        executionDate: executionDate.toISOString()
+        executionDate: executionDate.toISOString(),
+        // Recorded by execute-timelock-upgrade.ts once the proxy points at the new implementation
+        release: getReleaseName(),
+        storageLayout
     };
 
     const fs = require('fs');
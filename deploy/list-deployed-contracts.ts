@@ -0,0 +1,160 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {Contract} from "ethers";
+import {getConfig, getEnvName} from "./config";
+import {isZkSyncNetwork} from "./utils/deployUtils";
+import {loadRegistry} from "./utils/deploymentRegistry";
+import {getRoleHolders, getRoleName} from "./utils/roles";
+
+// Usage: DEPLOY_ENV=prod npm run list-deployed-contracts
+// Options (env vars):
+//   OUTPUT_FORMAT=json  - print JSON instead of tables
+//   FROM_BLOCK=<n>      - first block to scan for role events when deployment block is unknown (default 0)
+//   SKIP_ROLES=1        - don't scan role events (faster)
+
+const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+const IDENTIFY_ABI = [
+    "function name() view returns (string)",
+    "function symbol() view returns (string)",
+    "function decimals() view returns (uint8)",
+    "function totalSupply() view returns (uint256)",
+    "function paused() view returns (bool)",
+    "function contractURI() view returns (string)",
+];
+
+interface ContractInfo {
+    key: string;
+    address: string;
+    hasCode: boolean;
+    name?: string;
+    symbol?: string;
+    decimals?: number;
+    totalSupply?: string;
+    implementation?: string;
+    recordedImplementation?: string;
+    paused?: boolean;
+    roles?: Record<string, string[]>;
+    error?: string;
+}
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    console.log(`Listing deployed contracts on ${hre.network.name}${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}... 🔍\n`);
+
+    const config = getConfig(hre);
+    const registry = loadRegistry(getEnvName());
+    const provider = hre.ethers.provider;
+    const jsonOutput = process.env.OUTPUT_FORMAT === 'json';
+    const skipRoles = process.env.SKIP_ROLES === '1';
+    const defaultFromBlock = Number(process.env.FROM_BLOCK || 0);
+
+    const results: ContractInfo[] = [];
+
+    for (const [key, address] of Object.entries(config.contracts)) {
+        if (!address) continue;
+
+        const info: ContractInfo = {key, address, hasCode: false};
+        results.push(info);
+
+        try {
+            const code = await provider.getCode(address);
+            info.hasCode = code !== '0x';
+            if (!info.hasCode) continue;
+
+            const contract = new Contract(address, IDENTIFY_ABI, provider);
+            info.name = await tryCall(() => contract.name());
+            info.symbol = await tryCall(() => contract.symbol());
+            const decimals = await tryCall(() => contract.decimals());
+            info.decimals = decimals !== undefined ? Number(decimals) : undefined;
+            const totalSupply = await tryCall(() => contract.totalSupply());
+            info.totalSupply = totalSupply !== undefined ? totalSupply.toString() : undefined;
+            info.paused = await tryCall(() => contract.paused());
+
+            // ERC1967 implementation slot (InventoryProxy, ReactorProxy)
+            const slot = await provider.getStorage(address, IMPLEMENTATION_SLOT);
+            if (BigInt(slot) !== 0n) {
+                info.implementation = hre.ethers.getAddress("0x" + slot.slice(-40));
+                info.recordedImplementation = registry[key]?.implementation;
+            }
+
+            if (!skipRoles) {
+                const fromBlock = registry[key]?.blockNumber ?? defaultFromBlock;
+                const holders = await getRoleHolders(provider, address, fromBlock);
+                info.roles = {};
+                for (const [role, members] of holders) {
+                    if (members.length > 0) {
+                        info.roles[getRoleName(role)] = members;
+                    }
+                }
+            }
+        } catch (error) {
+            info.error = error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    if (jsonOutput) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+    }
+
+    console.log("═══════════════════════════════════════════════════════");
+    console.log("                 DEPLOYED CONTRACTS");
+    console.log("═══════════════════════════════════════════════════════\n");
+
+    console.table(results.map(info => ({
+        contract: info.key,
+        address: info.address,
+        code: info.hasCode ? '✓' : '❌ none',
+        name: info.name ?? '',
+        symbol: info.symbol ?? '',
+        paused: info.paused === undefined ? '' : info.paused ? '⏸ yes' : 'no',
+        implementation: info.implementation ?? '',
+    })));
+
+    for (const info of results) {
+        if (info.error) {
+            console.log(`\n⚠️  ${info.key} (${info.address}): ${info.error}`);
+        }
+        if (info.implementation && info.recordedImplementation &&
+            info.implementation.toLowerCase() !== info.recordedImplementation.toLowerCase()) {
+            console.log(`\n⚠️  ${info.key}: on-chain implementation ${info.implementation} differs from recorded ${info.recordedImplementation}`);
+        }
+    }
+
+    if (!skipRoles) {
+        console.log("\n🔑 ROLE HOLDERS:");
+        for (const info of results) {
+            if (!info.roles || Object.keys(info.roles).length === 0) continue;
+            console.log(`\n  ${info.key} (${info.address}):`);
+            for (const [role, members] of Object.entries(info.roles)) {
+                console.log(`    ${role}: ${members.join(', ')}`);
+            }
+        }
+    }
+
+    const missing = results.filter(info => !info.hasCode && !info.error);
+    if (missing.length > 0) {
+        console.log(`\n❌ No code at ${missing.length} configured address(es): ${missing.map(info => info.key).join(', ')}`);
+    }
+}
+
+/**
+ * Call a view function, returning undefined if the contract does not implement it
+ */
+async function tryCall<T>(call: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await call();
+    } catch {
+        return undefined;
+    }
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,124 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import * as fs from "fs";
+import {getAddress} from "ethers";
+import {getConfig, getEnvName} from "./config";
+import {loadRegistry} from "./utils/deploymentRegistry";
+import {SignIdAllocator, SignIdContractType, SignIdReport, reconcileAllocated, reconcileSignIds} from "../sdk/signIds";
+
+// Find out whether issued signIds landed on-chain: consumed (used, with the consuming tx when the event is in range),
+// pending (not used yet, still valid) or expired (not used and past its deadline, can never land).
+//
+// Support lookup of signIds from a user ticket:
+//   CONTRACT=claimer SIGN_ID=1712345678901,1712345678902 DEPLOY_ENV=prod npx hardhat deploy-zksync --script reconcile-sign-ids.ts
+// Everything issued by an allocator (e.g. the local signer service store):
+//   SIGN_ID_STORE=signer-service-dev.json DEPLOY_ENV=dev npx hardhat deploy-zksync --script reconcile-sign-ids.ts
+//
+// Env options:
+//   CONTRACT, SIGN_ID   config contract key and comma-separated signIds
+//   SIGN_ID_STORE       allocator JSON file, reconciles every issued signId
+//   ACCOUNT             only report signIds issued to / consumed by this account
+//   FROM_BLOCK          first block to scan for events (default: deployment block from deployments/<env>.json, else 0)
+//   BLOCK_RANGE         blocks per getLogs query (default 10000)
+//   REPORT_FILE         write the report as JSON
+
+// Config contract keys with a signId
+const CONTRACT_TYPES: Record<string, SignIdContractType> = {
+    inventoryProxy: 'inventory',
+    claimer: 'claimer',
+    bankV2: 'bankV2',
+    retroDrop: 'retroDrop',
+    gridle: 'gridle',
+    bank: 'bank',
+    badges: 'badges',
+    trax: 'trax',
+    acid: 'acid',
+    roach: 'roach',
+};
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const provider = hre.ethers.provider;
+    const account = process.env.ACCOUNT ? getAddress(process.env.ACCOUNT) : undefined;
+    const blockRange = process.env.BLOCK_RANGE ? Number(process.env.BLOCK_RANGE) : undefined;
+    const toBlock = await provider.getBlockNumber();
+    const now = (await provider.getBlock(toBlock))!.timestamp;
+    const options = (contract: string) => ({fromBlock: getFromBlock(contract), toBlock, blockRange, now});
+
+    console.log(`Reconciling signIds up to block ${toBlock}... 🔎\n`);
+
+    let reports: SignIdReport[] = [];
+    if (process.env.SIGN_ID_STORE) {
+        const allocator = new SignIdAllocator(process.env.SIGN_ID_STORE);
+        for (const [contract, state] of Object.entries(allocator.contracts())) {
+            console.log(`  • ${state.type} ${getAddress(contract)}: ${Object.keys(state.issued).length} issued`);
+            reports.push(...await reconcileAllocated(provider, getAddress(contract), state, options(contract)));
+        }
+    } else if (process.env.CONTRACT && process.env.SIGN_ID) {
+        const type = CONTRACT_TYPES[process.env.CONTRACT];
+        if (!type) {
+            throw new Error(`Unknown CONTRACT: ${process.env.CONTRACT}. Available: ${Object.keys(CONTRACT_TYPES).join(', ')}`);
+        }
+        const config = getConfig(hre);
+        const contract = config.contracts[process.env.CONTRACT as keyof typeof config.contracts];
+        if (!contract) {
+            throw new Error(`${process.env.CONTRACT} is not deployed in ${getEnvName()}`);
+        }
+        const signIds = process.env.SIGN_ID.split(',').map(signId => ({signId: BigInt(signId.trim())}));
+        console.log(`  • ${type} ${contract}: ${signIds.length} signId(s)`);
+        reports = await reconcileSignIds(provider, contract, type, signIds, options(contract));
+    } else {
+        throw new Error("Set SIGN_ID_STORE, or CONTRACT and SIGN_ID");
+    }
+
+    if (account) {
+        reports = reports.filter(report =>
+            report.account?.toLowerCase() === account.toLowerCase() ||
+            report.consumedBy?.account?.toLowerCase() === account.toLowerCase());
+    }
+
+    console.log();
+    const icons = {consumed: '✅', pending: '⏳', expired: '⌛'};
+    for (const report of reports) {
+        let line = `  ${icons[report.status]} ${report.type} #${report.signId}: ${report.status}`;
+        if (report.kind) {
+            line += ` (${report.kind} for ${report.account}${report.deadline ? `, deadline ${new Date(report.deadline * 1000).toISOString()}` : ''})`;
+        }
+        if (report.consumedBy) {
+            line += ` by ${report.consumedBy.event} in ${report.consumedBy.txHash} (block ${report.consumedBy.blockNumber})`;
+        } else if (report.status === 'consumed') {
+            line += `, event not found from block ${getFromBlock(report.contract)}`;
+        }
+        console.log(line);
+    }
+
+    const counts = {consumed: 0, pending: 0, expired: 0};
+    reports.forEach(report => counts[report.status]++);
+    console.log(`\n📋 ${reports.length} signId(s): ${counts.consumed} consumed, ${counts.pending} pending, ${counts.expired} expired`);
+
+    if (process.env.REPORT_FILE) {
+        fs.writeFileSync(process.env.REPORT_FILE, JSON.stringify(reports, null, 2) + '\n');
+        console.log(`Report written to ${process.env.REPORT_FILE}`);
+    }
+}
+
+/**
+ * Events cannot predate the contract, start scanning at its recorded deployment block
+ */
+function getFromBlock(contract: string): number {
+    if (process.env.FROM_BLOCK) {
+        return Number(process.env.FROM_BLOCK);
+    }
+    const record = Object.values(loadRegistry(getEnvName()))
+        .find(record => record.address.toLowerCase() === contract.toLowerCase());
+    return record?.blockNumber ?? 0;
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,109 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import * as fs from "fs";
+import {Contract, formatEther} from "ethers";
+import {getConfig} from "./config";
+import {createDeployer} from "./utils/deployUtils";
+import {askConfirmation} from "./utils/syncUtils";
+import {createCallExecutor, getSyncMode, printCalls, writeCallBundle} from "./utils/callBundle";
+import {RetroDropMerkleTree, parseAllocationsCsv} from "../sdk/retroDrop";
+
+// Build the RetroDrop Merkle tree from a CSV of `account,roachMax` (wei), write proofs for the frontend,
+// check that the contract holds enough ROACH and post the root with setMerkleRoot.
+// Usage: RETRODROP_CSV=retrodrop.csv DEPLOY_ENV=prod npx hardhat deploy-zksync --script retrodrop-merkle.ts
+//
+// Env options:
+//   RETRODROP_CSV  allocations CSV (required), header line optional
+//   PROOFS_FILE    proofs JSON output (default: retrodrop-proofs.json)
+//   SYNC_MODE      send | dry-run | export | check, see README "Sync scripts"
+//                  check fails if the on-chain root differs or the ROACH balance is below the total
+
+const RETRODROP_ABI = [
+    "function merkleRoot() view returns (bytes32)",
+    "function setMerkleRoot(bytes32 _merkleRoot)",
+    "function getRoachBalance() view returns (uint256)",
+];
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const mode = getSyncMode();
+    const executor = createCallExecutor(mode);
+
+    if (!process.env.RETRODROP_CSV) {
+        throw new Error("RETRODROP_CSV is not set");
+    }
+    const allocations = parseAllocationsCsv(fs.readFileSync(process.env.RETRODROP_CSV, 'utf8'));
+    const tree = new RetroDropMerkleTree(allocations);
+
+    const proofsFile = process.env.PROOFS_FILE || 'retrodrop-proofs.json';
+    fs.writeFileSync(proofsFile, JSON.stringify(tree.toJSON(), null, 2) + '\n');
+
+    console.log(`RetroDrop Merkle tree${mode !== 'send' ? ` [${mode}]` : ''}... 🌳\n`);
+    console.log(`  Accounts: ${allocations.length}`);
+    console.log(`  Total roachMax: ${formatEther(tree.total)} ROACH`);
+    console.log(`  Root: ${tree.root}`);
+    console.log(`  Proofs written to ${proofsFile}\n`);
+
+    const config = getConfig(hre);
+    if (!config.contracts.retroDrop) {
+        console.log("⚠️  RetroDrop is not deployed in this environment, root not posted");
+        return;
+    }
+
+    // Deployer key is only needed when sending transactions
+    const runner = mode === 'send' ? (await createDeployer(hre)).getSigner() : hre.ethers.provider;
+    const retroDrop = new Contract(config.contracts.retroDrop, RETRODROP_ABI, runner);
+
+    // roachMax is paid in full only at the maximum lock, so the total is the most the drop can pay out
+    const balance: bigint = await retroDrop.getRoachBalance();
+    const funded = balance >= tree.total;
+    console.log(`  RetroDrop balance: ${formatEther(balance)} ROACH ${funded ? '✅' : `❌ (missing ${formatEther(tree.total - balance)})`}`);
+
+    const currentRoot: string = await retroDrop.merkleRoot();
+    const rootChanged = currentRoot !== tree.root;
+    console.log(`  On-chain root: ${currentRoot} ${rootChanged ? '(differs)' : '✅'}\n`);
+
+    if (mode === 'check') {
+        if (rootChanged || !funded) {
+            throw new Error(`RetroDrop drifted from ${process.env.RETRODROP_CSV}: ${[rootChanged && 'root differs', !funded && 'insufficient ROACH'].filter(Boolean).join(', ')}`);
+        }
+        console.log("✅ RetroDrop root and balance match");
+        return;
+    }
+
+    if (!rootChanged) {
+        console.log("✅ Root already set. Nothing to do!");
+        return;
+    }
+    if (!funded) {
+        console.log("⚠️  Fund RetroDrop before users start claiming, claims revert with InsufficientBalance once it runs out\n");
+    }
+
+    if (mode === 'send') {
+        const confirmed = await askConfirmation(`Set merkleRoot to ${tree.root}?`);
+        if (!confirmed) {
+            console.log("\n❌ Cancelled by user.");
+            return;
+        }
+    }
+    await executor.run(retroDrop, "setMerkleRoot", [tree.root], `Set RetroDrop merkleRoot to ${tree.root}`);
+
+    if (mode === 'dry-run') {
+        printCalls(executor.calls);
+        console.log(`\n✅ Dry run complete, no transactions sent`);
+    } else if (mode === 'export') {
+        const file = await writeCallBundle(hre, 'retrodrop-merkle', executor.calls);
+        console.log(`\n✅ Exported ${executor.calls.length} call(s) to ${file}, no transactions sent`);
+    } else {
+        console.log(`✅ merkleRoot set`);
+    }
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
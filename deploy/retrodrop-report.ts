@@ -0,0 +1,91 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import * as fs from "fs";
+import {Contract, formatEther} from "ethers";
+import {getConfig, getEnvName} from "./config";
+import {loadRegistry} from "./utils/deploymentRegistry";
+import {findRetroDropClaims, summarizeRetroDropClaims} from "../sdk/retroDrop";
+
+// Summarize RetroDrop Claimed and ClaimedWithProof events: total claimed, lockWeeks distribution and VotingEscrow token ids created,
+// along with the claim window and what is left to sweep.
+// Usage: DEPLOY_ENV=prod npx hardhat deploy-zksync --script retrodrop-report.ts
+//
+// Env options:
+//   FROM_BLOCK   first block to scan (default: RetroDrop deployment block from deployments/<env>.json, else 0)
+//   BLOCK_RANGE  blocks per getLogs query (default 10000)
+//   REPORT_FILE  write the report and every claim as JSON
+
+const RETRODROP_ABI = [
+    "function claimStart() view returns (uint256)",
+    "function claimEnd() view returns (uint256)",
+    "function getRoachBalance() view returns (uint256)",
+];
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const config = getConfig(hre);
+    if (!config.contracts.retroDrop) {
+        throw new Error(`retroDrop is not deployed in ${getEnvName()}`);
+    }
+    const provider = hre.ethers.provider;
+    const address = config.contracts.retroDrop;
+    const retroDrop = new Contract(address, RETRODROP_ABI, provider);
+
+    const toBlock = await provider.getBlockNumber();
+    const fromBlock = getFromBlock(address);
+    const blockRange = process.env.BLOCK_RANGE ? Number(process.env.BLOCK_RANGE) : undefined;
+    console.log(`RetroDrop ${address}: scanning claim events in blocks ${fromBlock}..${toBlock}... 🔎\n`);
+
+    const claims = await findRetroDropClaims(provider, address, {fromBlock, toBlock, blockRange});
+    const report = summarizeRetroDropClaims(claims);
+
+    console.log(`  Claims: ${report.claims} by ${report.accounts} account(s), ${report.merkleClaims} with a Merkle proof`);
+    console.log(`  Total roachMax: ${formatEther(report.totalRoachMax)} ROACH`);
+    console.log(`  Total claimed: ${formatEther(report.totalClaimed)} ROACH (${formatEther(report.totalLocked)} locked in VotingEscrow)`);
+
+    console.log(`\n  lockWeeks distribution:`);
+    for (const [lockWeeks, bucket] of Object.entries(report.lockWeeks)) {
+        console.log(`    ${lockWeeks.padStart(3)} weeks: ${bucket.claims} claim(s), ${formatEther(bucket.amount)} ROACH`);
+    }
+
+    console.log(`\n  VotingEscrow token ids: ${report.tokenIds.length ? report.tokenIds.join(', ') : 'none'}`);
+
+    const [claimStart, claimEnd, balance]: bigint[] = await Promise.all([
+        retroDrop.claimStart(),
+        retroDrop.claimEnd(),
+        retroDrop.getRoachBalance(),
+    ]);
+    const now = (await provider.getBlock(toBlock))!.timestamp;
+    const formatTime = (time: bigint) => new Date(Number(time) * 1000).toISOString();
+    const window = `${claimStart ? formatTime(claimStart) : 'unbounded'} → ${claimEnd ? formatTime(claimEnd) : 'unbounded'}`;
+    const ended = claimEnd !== 0n && BigInt(now) > claimEnd;
+    console.log(`\n  Claim window: ${window}${ended ? ' (ended)' : ''}`);
+    console.log(`  Remaining balance: ${formatEther(balance)} ROACH${ended && balance > 0n ? ', ready to sweep' : ''}`);
+
+    if (process.env.REPORT_FILE) {
+        const json = {contract: address, fromBlock, toBlock, claimStart, claimEnd, balance, ...report, claims};
+        fs.writeFileSync(process.env.REPORT_FILE, JSON.stringify(json, (_, value) => typeof value === 'bigint' ? value.toString() : value, 2) + '\n');
+        console.log(`\nReport written to ${process.env.REPORT_FILE}`);
+    }
+}
+
+/**
+ * Events cannot predate the contract, start scanning at its recorded deployment block
+ */
+function getFromBlock(contract: string): number {
+    if (process.env.FROM_BLOCK) {
+        return Number(process.env.FROM_BLOCK);
+    }
+    const record = Object.values(loadRegistry(getEnvName()))
+        .find(record => record.address.toLowerCase() === contract.toLowerCase());
+    return record?.blockNumber ?? 0;
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,103 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {Contract, ContractRunner, getAddress} from "ethers";
+import {getConfig} from "./config";
+import {createDeployer} from "./utils/deployUtils";
+import {askConfirmation} from "./utils/syncUtils";
+import {createCallExecutor, getSyncMode, printCalls, writeCallBundle} from "./utils/callBundle";
+import {fetchReactorStatus} from "../sdk/reactor";
+
+// Support tool: revert the last activation of a user's reactor (Reactor.revertActivation, MANAGER_ROLE).
+// Burns the reactor, restores the previous level, pops the last battery and optionally mints it back.
+// Without REACTOR_ITEM_ID it only prints the user's reactors.
+// Usage: ACCOUNT=0x... REACTOR_ITEM_ID=2002 REFUND_BATTERY=1 DEPLOY_ENV=prod npx hardhat deploy-zksync --script revert-reactor-activation.ts
+//
+// Env options:
+//   ACCOUNT          user address (required)
+//   REACTOR_ITEM_ID  reactor item the user owns now, the result of the activation to revert
+//   REFUND_BATTERY   1 to mint the battery back (default: not refunded)
+//   SYNC_MODE        send | dry-run | export, see README "Sync scripts" (export for a manager multisig)
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const mode = getSyncMode();
+    if (mode === 'check') {
+        throw new Error("SYNC_MODE=check is not supported, use dry-run");
+    }
+    const executor = createCallExecutor(mode);
+
+    if (!process.env.ACCOUNT) {
+        throw new Error("ACCOUNT is not set");
+    }
+    const account = getAddress(process.env.ACCOUNT);
+
+    const config = getConfig(hre);
+    if (!config.contracts.reactorProxy) {
+        throw new Error("Reactor proxy address not configured for this environment");
+    }
+
+    // Manager key is only needed when sending transactions
+    const runner: ContractRunner = mode === 'send' ? (await createDeployer(hre)).getSigner() : hre.ethers.provider;
+    const reactor = new Contract(config.contracts.reactorProxy, (await hre.artifacts.readArtifact("Reactor")).abi, runner);
+
+    console.log(`Reactor ${config.contracts.reactorProxy}, reactors of ${account}:\n`);
+    const status = await fetchReactorStatus(hre.ethers.provider, config.contracts.reactorProxy, account);
+    if (status.reactors.length === 0) {
+        console.log("  none");
+    }
+    for (const r of status.reactors) {
+        const batteries = r.batteryHistory.length > 0 ? r.batteryHistory.join(', ') : 'none';
+        console.log(`  • ${r.itemId} (series ${r.seriesId}, level ${r.activationLevel}/${status.activationCount}), batteries: ${batteries}${r.remainingTime > 0 ? `, active for ${r.remainingTime}s` : ''}`);
+    }
+
+    if (!process.env.REACTOR_ITEM_ID) {
+        console.log("\nSet REACTOR_ITEM_ID to revert the last activation of one of them");
+        return;
+    }
+    const reactorItemId = Number(process.env.REACTOR_ITEM_ID);
+    const refundBattery = process.env.REFUND_BATTERY === '1' || process.env.REFUND_BATTERY === 'true';
+
+    const target = status.reactors.find(r => r.itemId === reactorItemId);
+    if (!target) {
+        throw new Error(`${account} does not own reactor ${reactorItemId}`);
+    }
+    if (target.activationLevel === 0 || target.batteryHistory.length === 0) {
+        throw new Error(`Reactor ${reactorItemId} has no activation to revert`);
+    }
+
+    // Same derivation as revertActivation: final variants go back to the last activatable level
+    const step = Number(await reactor.activationStep());
+    const restoredItemId = target.activationLevel >= status.activationCount
+        ? target.seriesId + (status.activationCount - 1) * step
+        : reactorItemId - step;
+    console.log(`\nRevert ${reactorItemId} → ${restoredItemId}, battery ${refundBattery ? 'refunded' : 'not refunded'}${mode !== 'send' ? ` [${mode}]` : ''}`);
+
+    if (mode === 'send') {
+        const confirmed = await askConfirmation(`Revert the last activation of ${reactorItemId} for ${account}?`);
+        if (!confirmed) {
+            console.log("\n❌ Cancelled by user.");
+            return;
+        }
+    }
+    await executor.run(reactor, "revertActivation", [account, reactorItemId, refundBattery],
+        `Revert activation of reactor ${reactorItemId} for ${account}${refundBattery ? ' with battery refund' : ''}`);
+
+    if (mode === 'dry-run') {
+        printCalls(executor.calls);
+        console.log(`\n✅ Dry run complete, no transactions sent`);
+    } else if (mode === 'export') {
+        const file = await writeCallBundle(hre, 'revert-reactor-activation', executor.calls);
+        console.log(`\n✅ Exported ${executor.calls.length} call(s) to ${file}, no transactions sent`);
+    } else {
+        console.log(`✅ Activation reverted, ${account} owns ${restoredItemId} again`);
+    }
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
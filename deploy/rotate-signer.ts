@@ -0,0 +1,218 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {Contract, getAddress} from "ethers";
+import {getConfig, ROLES} from "./config";
+import {createDeployer, isZkSyncNetwork, sleep} from "./utils/deployUtils";
+import {askConfirmation} from "./utils/syncUtils";
+import {createCallExecutor, getSyncMode, printCalls, writeCallBundle} from "./utils/callBundle";
+import {ACCESS_CONTROL_ABI} from "./utils/roles";
+
+// Rotate the backend signer key across every contract of the environment without invalidating in-flight signatures:
+//   1. add:    NEW_SIGNER is accepted next to the old key (addSigner on signerAddress contracts, SIGNER_ROLE grant otherwise)
+//   2. wait:   ROTATE_WAIT seconds (default 3600), switch the backend to the new key meanwhile
+//   3. remove: signerAddress is set to NEW_SIGNER and OLD_SIGNER is removed everywhere
+// Usage: NEW_SIGNER=0x... DEPLOY_ENV=prod npx hardhat deploy-zksync --script rotate-signer.ts
+//
+// Env options:
+//   NEW_SIGNER    new signer address (required)
+//   OLD_SIGNER    signer to remove (default: config signer)
+//   ROTATE_PHASE  add | remove | all (default: all, add then wait then remove)
+//   ROTATE_WAIT   seconds between add and remove phases with ROTATE_PHASE=all
+//   SYNC_MODE     send | dry-run | export, see README "Sync scripts"
+//
+// Contracts deployed before multi-signer support have no addSigner, their signerAddress is switched in the remove phase.
+// After rotation update `signer` in deploy/environments/<env>.ts, otherwise sync-roles reports the new key as unexpected
+
+type RotatePhase = 'add' | 'remove' | 'all';
+
+// Contracts holding signerAddress (setSigner) with additional signers (addSigner / removeSigner)
+const SIGNER_ADDRESS_CONTRACTS = ['trax', 'acid', 'roach', 'inventoryProxy', 'badges', 'bank', 'gridle'] as const;
+// Contracts accepting any SIGNER_ROLE holder
+const SIGNER_ROLE_CONTRACTS = ['claimer', 'bankV2', 'retroDrop'] as const;
+
+const SIGNER_ABI = [
+    ...ACCESS_CONTROL_ABI,
+    "function signerAddress() view returns (address)",
+    "function setSigner(address newSigner)",
+    "function addSigner(address signer, uint256 expiry)",
+    "function removeSigner(address signer)",
+    "function isSigner(address account) view returns (bool)",
+];
+
+interface SignerTarget {
+    contractKey: string;
+    contract: Contract;
+    kind: 'signerAddress' | 'legacySignerAddress' | 'signerRole';
+}
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const mode = getSyncMode();
+    if (mode === 'check') {
+        throw new Error("SYNC_MODE=check is not supported by rotate-signer");
+    }
+    const executor = createCallExecutor(mode);
+    // Deployer key is only needed when sending transactions
+    const deployer = mode === 'send' ? await createDeployer(hre) : undefined;
+    const runner = deployer ? deployer.getSigner() : hre.ethers.provider;
+    const senderAddress = deployer ? await deployer.getAddress() : undefined;
+
+    const phase = (process.env.ROTATE_PHASE || 'all') as RotatePhase;
+    if (phase !== 'add' && phase !== 'remove' && phase !== 'all') {
+        throw new Error(`Unknown ROTATE_PHASE: ${phase}. Available: add, remove, all`);
+    }
+    if (phase === 'all' && mode === 'export') {
+        throw new Error("SYNC_MODE=export needs ROTATE_PHASE=add or remove, execute the add bundle and wait before exporting the remove phase");
+    }
+    const waitSeconds = Number(process.env.ROTATE_WAIT || 3600);
+
+    const config = getConfig(hre);
+    if (!process.env.NEW_SIGNER) {
+        throw new Error("NEW_SIGNER is not set");
+    }
+    const newSigner = getAddress(process.env.NEW_SIGNER);
+    const oldSigner = getAddress(process.env.OLD_SIGNER || config.signer);
+    if (newSigner === oldSigner) {
+        throw new Error(`NEW_SIGNER equals OLD_SIGNER (${oldSigner})`);
+    }
+
+    console.log(`Rotating signer${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}${mode !== 'send' ? ` [${mode}]` : ''}... 🔑\n`);
+    console.log(`  Old signer: ${oldSigner}`);
+    console.log(`  New signer: ${newSigner}`);
+    console.log(`  Phase: ${phase}${phase === 'all' ? ` (wait ${waitSeconds}s)` : ''}\n`);
+
+    // STEP 1: Detect how each deployed contract checks signatures
+    const targets: SignerTarget[] = [];
+    for (const contractKey of [...SIGNER_ADDRESS_CONTRACTS, ...SIGNER_ROLE_CONTRACTS]) {
+        const address = config.contracts[contractKey];
+        if (!address) {
+            continue;
+        }
+        const contract = new Contract(address, SIGNER_ABI, runner);
+        let kind: SignerTarget['kind'] = 'signerRole';
+        if ((SIGNER_ADDRESS_CONTRACTS as readonly string[]).includes(contractKey)) {
+            kind = await supportsAddSigner(contract) ? 'signerAddress' : 'legacySignerAddress';
+        }
+        targets.push({contractKey, contract, kind});
+        console.log(`  • ${contractKey} (${address}): ${kind === 'legacySignerAddress' ? 'no addSigner, switched in remove phase' : kind}`);
+    }
+    console.log();
+
+    if (targets.length === 0) {
+        console.log("✅ No signer-gated contracts deployed in this environment. Nothing to do!");
+        return;
+    }
+
+    if (mode === 'send') {
+        const confirmed = await askConfirmation(`Proceed with ${phase} phase(s) on ${targets.length} contract(s)?`);
+        if (!confirmed) {
+            console.log("\n❌ Rotation cancelled by user.");
+            return;
+        }
+    }
+
+    // STEP 2: Add the new signer
+    if (phase === 'add' || phase === 'all') {
+        console.log("\n➕ Adding new signer...\n");
+        for (const target of targets) {
+            if (!await canAdmin(target, senderAddress)) {
+                continue;
+            }
+            if (target.kind === 'signerAddress' && !await target.contract.isSigner(newSigner)) {
+                await executor.run(target.contract, "addSigner", [newSigner, 0], `Add signer ${newSigner} to ${target.contractKey}`);
+                console.log(`  ✅ ${target.contractKey}.addSigner(${newSigner})`);
+            } else if (target.kind === 'signerRole' && !await target.contract.hasRole(ROLES.SIGNER_ROLE, newSigner)) {
+                await executor.run(target.contract, "grantRole", [ROLES.SIGNER_ROLE, newSigner], `Grant SIGNER_ROLE to ${newSigner} on ${target.contractKey}`);
+                console.log(`  ✅ ${target.contractKey}.grantRole(SIGNER_ROLE, ${newSigner})`);
+            }
+        }
+    }
+
+    // STEP 3: Wait for signatures issued with the old key to be used or expire
+    if (phase === 'all' && mode === 'send') {
+        console.log(`\n⏳ Waiting ${waitSeconds}s before removing the old signer, switch the backend to the new key now...`);
+        await sleep(waitSeconds * 1000);
+    }
+
+    // STEP 4: Make the new signer primary and remove the old one
+    if (phase === 'remove' || phase === 'all') {
+        console.log("\n➖ Removing old signer...\n");
+        for (const target of targets) {
+            if (!await canAdmin(target, senderAddress)) {
+                continue;
+            }
+            const contract = target.contract;
+            if (target.kind === 'signerRole') {
+                if (await contract.hasRole(ROLES.SIGNER_ROLE, oldSigner)) {
+                    await executor.run(contract, "revokeRole", [ROLES.SIGNER_ROLE, oldSigner], `Revoke SIGNER_ROLE from ${oldSigner} on ${target.contractKey}`);
+                    console.log(`  ✅ ${target.contractKey}.revokeRole(SIGNER_ROLE, ${oldSigner})`);
+                }
+                continue;
+            }
+
+            if (getAddress(await contract.signerAddress()) !== newSigner) {
+                await executor.run(contract, "setSigner", [newSigner], `Set ${target.contractKey} signerAddress to ${newSigner}`);
+                console.log(`  ✅ ${target.contractKey}.setSigner(${newSigner})`);
+            }
+            if (target.kind === 'legacySignerAddress') {
+                continue;
+            }
+            // The new signer is signerAddress now, additional entries for both keys are no longer needed
+            for (const signer of [newSigner, oldSigner]) {
+                if (await contract.hasRole(ROLES.SIGNER_ROLE, signer)) {
+                    await executor.run(contract, "removeSigner", [signer], `Remove signer ${signer} from ${target.contractKey}`);
+                    console.log(`  ✅ ${target.contractKey}.removeSigner(${signer})`);
+                }
+            }
+        }
+    }
+
+    if (mode === 'dry-run') {
+        printCalls(executor.calls);
+        console.log(`\n✅ Dry run complete, no transactions sent`);
+        return;
+    }
+
+    if (mode === 'export') {
+        const file = await writeCallBundle(hre, `rotate-signer-${phase}`, executor.calls);
+        console.log(`\n✅ Exported ${executor.calls.length} call(s) to ${file}, no transactions sent`);
+        return;
+    }
+
+    console.log(`\n✅ Rotation ${phase} complete!`);
+    if (phase !== 'add') {
+        console.log(`  Update signer in deploy/environments/<env>.ts to ${newSigner}`);
+    }
+}
+
+/**
+ * Contracts deployed before multi-signer support revert on isSigner
+ */
+async function supportsAddSigner(contract: Contract): Promise<boolean> {
+    try {
+        await contract.isSigner.staticCall(contract.target);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * In send mode the deployer must hold DEFAULT_ADMIN_ROLE (e.g. Inventory behind a timelock needs SYNC_MODE=export)
+ */
+async function canAdmin(target: SignerTarget, senderAddress?: string): Promise<boolean> {
+    if (!senderAddress || await target.contract.hasRole(ROLES.DEFAULT_ADMIN_ROLE, senderAddress)) {
+        return true;
+    }
+    console.log(`  ⚠️  Skipping ${target.contractKey}: sender lacks DEFAULT_ADMIN_ROLE`);
+    return false;
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,70 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {getConfig} from "./config";
+import {
+    getArtifactStorageLayout,
+    getImplementationAddress,
+    getReleaseName,
+    hasStorageLayoutSnapshot,
+    recordStorageLayout,
+    validateUpgradeLayout,
+} from "./utils/storageLayout";
+
+// Check or record storage layout snapshots of upgradeable contracts (storage-layouts/<Contract>/<release>.json),
+// see README "Upgrade storage layout checks".
+// Usage: CONTRACT=Reactor DEPLOY_ENV=prod npx hardhat deploy-zksync --script storage-layout.ts
+//
+// Env options:
+//   CONTRACT          Reactor | Inventory (required)
+//   LAYOUT_MODE       check (default): compare the compiled contract with the snapshot of the live implementation
+//                     record: attach the live implementation to the RELEASE snapshot, the snapshot is created
+//                     from the compiled contract if the release has none (run it from a checkout of that release)
+//   RELEASE           snapshot name, the version being deployed e.g. v1.1.0 (default: the release tag on HEAD)
+//   BASELINE_RELEASE  release to compare against when the live implementation is in no snapshot (also read by
+//                     the upgrade scripts)
+//   PROXY_ADDRESS     proxy to read the implementation from (default: the configured proxy)
+
+const PROXY_KEYS: Record<string, 'reactorProxy' | 'inventoryProxy'> = {
+    Reactor: 'reactorProxy',
+    Inventory: 'inventoryProxy',
+};
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const contract = process.env.CONTRACT || '';
+    if (!PROXY_KEYS[contract]) {
+        throw new Error(`Unknown CONTRACT: ${contract}. Available: ${Object.keys(PROXY_KEYS).join(', ')}`);
+    }
+    const mode = process.env.LAYOUT_MODE || 'check';
+    if (mode !== 'check' && mode !== 'record') {
+        throw new Error(`Unknown LAYOUT_MODE: ${mode}. Available: check, record`);
+    }
+
+    const proxyAddress = process.env.PROXY_ADDRESS || getConfig(hre).contracts[PROXY_KEYS[contract]];
+    if (!proxyAddress) {
+        throw new Error(`${contract} proxy address not configured for this environment, set PROXY_ADDRESS`);
+    }
+    console.log(`${contract} proxy: ${proxyAddress}`);
+
+    if (mode === 'check') {
+        await validateUpgradeLayout(hre, contract, proxyAddress);
+        return;
+    }
+
+    const release = getReleaseName();
+    const implementation = await getImplementationAddress(hre, proxyAddress);
+    console.log(`Live implementation: ${implementation}, release: ${release}`);
+
+    // An existing snapshot is reused as is, so past releases can be attached without checking them out
+    const storage = hasStorageLayoutSnapshot(contract, release) ? undefined : await getArtifactStorageLayout(hre, contract);
+    recordStorageLayout(contract, release, storage, {network: hre.network.name, address: implementation});
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -1,8 +1,9 @@
 import {HardhatRuntimeEnvironment} from "hardhat/types";
-import {ethers} from "hardhat";
+import {Contract, ContractRunner} from "ethers";
 import {getConfig, SOULBOUND_TOKENS, INVENTORY_TOKEN_LIMITS, RESTRICTED_ITEMS} from "./config";
 import {createDeployer, isZkSyncNetwork} from "./utils/deployUtils";
-import * as readline from "readline";
+import {askConfirmation, assertNoDrift, writeDiffReport} from "./utils/syncUtils";
+import {createCallExecutor, getSyncMode, printCalls, writeCallBundle} from "./utils/callBundle";
 
 interface SoulboundChange {
     tokenId: number;
@@ -26,13 +27,16 @@ interface RestrictedChange {
 }
 
 export default async function (hre: HardhatRuntimeEnvironment) {
-    const deployer = await createDeployer(hre);
-    const signer = deployer.getSigner();
+    const mode = getSyncMode();
+    const executor = createCallExecutor(mode);
 
-    console.log(`Syncing Inventory configuration${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}... 🔄\n`);
+    // Deployer key is only needed when sending transactions
+    const runner: ContractRunner = mode === 'send' ? (await createDeployer(hre)).getSigner() : hre.ethers.provider;
+
+    console.log(`Syncing Inventory configuration${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}${mode !== 'send' ? ` [${mode}]` : ''}... 🔄\n`);
 
     // Load environment-specific configuration
-    const config = getConfig();
+    const config = getConfig(hre);
 
     // Get Inventory contract address (env var overrides config)
     const inventoryAddress = process.env.INVENTORY_ADDRESS || config.contracts.inventoryProxy;
@@ -42,7 +46,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
 
     console.log(`Connected to Inventory at: ${inventoryAddress}\n`);
 
-    const inventory = await ethers.getContractAt("Inventory", inventoryAddress, signer);
+    const inventory = new Contract(inventoryAddress, (await hre.artifacts.readArtifact("Inventory")).abi, runner);
 
     // STEP 1: Analyze soulbound tokens
     console.log("📊 Analyzing soulbound tokens...");
@@ -199,22 +203,35 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     // STEP 5: Ask for confirmation
     const totalChanges = soulboundToDisable.length + soulboundToEnable.length + limitsToSet.length + restrictedToSet.length;
 
+    writeDiffReport("sync-inventory-config", hre.network.name, {
+        soulboundChanges,
+        limitChanges,
+        restrictedChanges,
+    }, totalChanges);
+
+    if (mode === 'check') {
+        assertNoDrift(totalChanges);
+        return;
+    }
+
     if (totalChanges === 0) {
         console.log("✅ All inventory configurations are already in sync. Nothing to do!");
         return;
     }
 
-    const confirmed = await askConfirmation(
-        `\nProceed with ${soulboundToDisable.length} make soulbound, ${soulboundToEnable.length} remove soulbound, ${limitsToSet.length} limit update(s), and ${restrictedToSet.length} restriction update(s)?`
-    );
+    if (mode === 'send') {
+        const confirmed = await askConfirmation(
+            `\nProceed with ${soulboundToDisable.length} make soulbound, ${soulboundToEnable.length} remove soulbound, ${limitsToSet.length} limit update(s), and ${restrictedToSet.length} restriction update(s)?`
+        );
 
-    if (!confirmed) {
-        console.log("\n❌ Sync cancelled by user.");
-        return;
+        if (!confirmed) {
+            console.log("\n❌ Sync cancelled by user.");
+            return;
+        }
     }
 
-    // STEP 6: Execute changes
-    console.log("\n⚙️  Executing changes...\n");
+    // STEP 6: Execute changes (or collect calls in dry-run/export mode)
+    console.log(mode === 'send' ? "\n⚙️  Executing changes...\n" : "\n⚙️  Preparing calls...\n");
 
     let soulboundDisabled = 0;
     let soulboundEnabled = 0;
@@ -228,13 +245,11 @@ export default async function (hre: HardhatRuntimeEnvironment) {
 
         for (const range of ranges) {
             if (range.start === range.end) {
-                const tx = await inventory.disableTransfer([range.start]);
-                await tx.wait();
+                await executor.run(inventory, "disableTransfer", [[range.start]], `Disable transfers for token ${range.start}`);
                 console.log(`  ✅ Disabled transfers for token ${range.start}`);
                 soulboundDisabled++;
             } else {
-                const tx = await inventory.disableTransferRange(range.start, range.end);
-                await tx.wait();
+                await executor.run(inventory, "disableTransferRange", [range.start, range.end], `Disable transfers for tokens ${range.start}-${range.end}`);
                 console.log(`  ✅ Disabled transfers for tokens ${range.start}-${range.end}`);
                 soulboundDisabled += (range.end - range.start + 1);
             }
@@ -247,13 +262,11 @@ export default async function (hre: HardhatRuntimeEnvironment) {
 
         for (const range of ranges) {
             if (range.start === range.end) {
-                const tx = await inventory.enableTransfer([range.start]);
-                await tx.wait();
+                await executor.run(inventory, "enableTransfer", [[range.start]], `Enable transfers for token ${range.start}`);
                 console.log(`  ✅ Enabled transfers for token ${range.start}`);
                 soulboundEnabled++;
             } else {
-                const tx = await inventory.enableTransferRange(range.start, range.end);
-                await tx.wait();
+                await executor.run(inventory, "enableTransferRange", [range.start, range.end], `Enable transfers for tokens ${range.start}-${range.end}`);
                 console.log(`  ✅ Enabled transfers for tokens ${range.start}-${range.end}`);
                 soulboundEnabled += (range.end - range.start + 1);
             }
@@ -271,8 +284,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
             const tokenIds = batch.map(c => c.tokenId);
             const maxBalances = batch.map(c => c.expectedLimit);
 
-            const tx = await inventory.setMaxBalancePerOwnerBatch(tokenIds, maxBalances);
-            await tx.wait();
+            await executor.run(inventory, "setMaxBalancePerOwnerBatch", [tokenIds, maxBalances], `Set max balance per owner for tokens ${tokenIds.join(', ')}`);
             console.log(`  ✅ Updated limits for ${batch.length} token(s) (batch ${Math.floor(i / batchSize) + 1})`);
             limitsUpdated += batch.length;
         }
@@ -289,13 +301,26 @@ export default async function (hre: HardhatRuntimeEnvironment) {
             const tokenIds = batch.map(c => c.tokenId);
             const restrictedArrays = batch.map(c => c.expectedRestricted);
 
-            const tx = await inventory.setRestrictedItemsBatch(tokenIds, restrictedArrays);
-            await tx.wait();
+            await executor.run(inventory, "setRestrictedItemsBatch", [tokenIds, restrictedArrays], `Set restricted items for tokens ${tokenIds.join(', ')}`);
             console.log(`  ✅ Updated restrictions for ${batch.length} token(s) (batch ${Math.floor(i / batchSize) + 1})`);
             restrictionsUpdated += batch.length;
         }
     }
 
+    if (mode === 'dry-run') {
+        printCalls(executor.calls);
+        console.log(`\n✅ Dry run complete, no transactions sent`);
+        return;
+    }
+
+    if (mode === 'export') {
+        const timelockAddress = process.env.TIMELOCK_ADDRESS || config.contracts.inventoryTimelock;
+        const file = await writeCallBundle(hre, "sync-inventory-config", executor.calls,
+            timelockAddress ? {address: timelockAddress, delay: config.timelock.minDelay} : undefined);
+        console.log(`\n✅ Exported ${executor.calls.length} call(s) to ${file}, no transactions sent`);
+        return;
+    }
+
     console.log(`\n✅ Sync Complete!`);
     console.log(`  Made soulbound: ${soulboundDisabled} token(s)`);
     console.log(`  Removed soulbound: ${soulboundEnabled} token(s)`);
@@ -304,23 +329,6 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     console.log(`  Total unchanged: ${soulboundUnchanged.length + limitsUnchanged.length + restrictedUnchanged.length} config(s)`);
 }
 
-/**
- * Ask user for confirmation
- */
-async function askConfirmation(question: string): Promise<boolean> {
-    const rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stdout
-    });
-
-    return new Promise((resolve) => {
-        rl.question(`${question} (y/N): `, (answer) => {
-            rl.close();
-            resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-        });
-    });
-}
-
 /**
  * Helper function to compare two arrays
  */
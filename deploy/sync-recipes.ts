@@ -0,0 +1,306 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {Contract, ContractRunner} from "ethers";
+import {getConfig, RECIPES, CRAFTER_CONFIG} from "./config";
+import {createDeployer, isZkSyncNetwork} from "./utils/deployUtils";
+import {askConfirmation, assertNoDrift, writeDiffReport} from "./utils/syncUtils";
+import {createCallExecutor, getSyncMode, printCalls, writeCallBundle} from "./utils/callBundle";
+
+interface RecipeChange {
+    recipeId: number;
+    action: 'create' | 'update' | 'unchanged' | 'delete';
+    differences?: string[];
+    currentRecipe?: any;
+    expectedData?: any;
+}
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const mode = getSyncMode();
+    const executor = createCallExecutor(mode);
+
+    // Deployer key is only needed when sending transactions
+    const runner: ContractRunner = mode === 'send' ? (await createDeployer(hre)).getSigner() : hre.ethers.provider;
+
+    console.log(`Syncing Crafter recipes${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}${mode !== 'send' ? ` [${mode}]` : ''}... 🔄`);
+
+    // Load environment-specific configuration
+    const config = getConfig(hre);
+
+    // Get Crafter contract address (env var overrides config)
+    const crafterAddress = process.env.CRAFTER_ADDRESS || config.contracts.crafterProxy;
+    if (!crafterAddress) {
+        throw new Error("Crafter contract address not configured. Either set CRAFTER_ADDRESS environment variable or deploy it with deploy-crafter.ts");
+    }
+
+    console.log(`Connected to Crafter at: ${crafterAddress}\n`);
+
+    const crafter = new Contract(crafterAddress, (await hre.artifacts.readArtifact("Crafter")).abi, runner);
+
+    const now = Math.floor(Date.now() / 1000);
+
+    // STEP 1: Analyze all recipes and collect changes
+    console.log("📊 Analyzing differences...\n");
+
+    const changes: RecipeChange[] = [];
+
+    for (const recipeConfig of RECIPES) {
+        const recipeId = recipeConfig.recipeId;
+
+        // Get current recipe from contract, a recipe exists once it has outputs
+        const currentRecipe = await crafter.getRecipe(recipeId);
+        const exists = currentRecipe.outputIds.length > 0;
+
+        const expectedData = {
+            inputIds: recipeConfig.inputIds,
+            inputCounts: recipeConfig.inputCounts,
+            outputIds: recipeConfig.outputIds,
+            outputCounts: recipeConfig.outputCounts,
+            cooldown: recipeConfig.cooldown ?? 0,
+            priceInAcid: hre.ethers.parseEther(recipeConfig.priceInAcid ?? "0"),
+            priceInRoach: hre.ethers.parseEther(recipeConfig.priceInRoach ?? "0"),
+            // Existing recipes keep their on-chain window unless config sets it explicitly
+            startTime: recipeConfig.startTime ?? (exists ? currentRecipe.startTime : now),
+            deadline: recipeConfig.endTime ?? (exists ? currentRecipe.deadline : 0),
+        };
+
+        if (!exists) {
+            // Needs creation
+            changes.push({
+                recipeId,
+                action: 'create',
+                expectedData,
+                differences: [
+                    `Inputs: ${formatItems(expectedData.inputIds, expectedData.inputCounts)}`,
+                    `Outputs: ${formatItems(expectedData.outputIds, expectedData.outputCounts)}`,
+                    `Cooldown: ${expectedData.cooldown}s`,
+                    `Price ACID: ${recipeConfig.priceInAcid ?? "0"}`,
+                    `Price ROACH: ${recipeConfig.priceInRoach ?? "0"}`,
+                    `Window: ${formatTime(expectedData.startTime)} → ${formatDeadline(expectedData.deadline)}`
+                ]
+            });
+            continue;
+        }
+
+        // Compare with existing recipe
+        const differences: string[] = [];
+
+        if (!arraysEqual(currentRecipe.inputIds, expectedData.inputIds) || !arraysEqual(currentRecipe.inputCounts, expectedData.inputCounts)) {
+            differences.push(`Inputs: ${formatItems(currentRecipe.inputIds, currentRecipe.inputCounts)} → ${formatItems(expectedData.inputIds, expectedData.inputCounts)}`);
+        }
+        if (!arraysEqual(currentRecipe.outputIds, expectedData.outputIds) || !arraysEqual(currentRecipe.outputCounts, expectedData.outputCounts)) {
+            differences.push(`Outputs: ${formatItems(currentRecipe.outputIds, currentRecipe.outputCounts)} → ${formatItems(expectedData.outputIds, expectedData.outputCounts)}`);
+        }
+        if (currentRecipe.cooldown !== BigInt(expectedData.cooldown)) {
+            differences.push(`Cooldown: ${currentRecipe.cooldown}s → ${expectedData.cooldown}s`);
+        }
+        if (currentRecipe.priceInAcid !== expectedData.priceInAcid) {
+            differences.push(`Price ACID: ${hre.ethers.formatEther(currentRecipe.priceInAcid)} → ${hre.ethers.formatEther(expectedData.priceInAcid)}`);
+        }
+        if (currentRecipe.priceInRoach !== expectedData.priceInRoach) {
+            differences.push(`Price ROACH: ${hre.ethers.formatEther(currentRecipe.priceInRoach)} → ${hre.ethers.formatEther(expectedData.priceInRoach)}`);
+        }
+        if (recipeConfig.startTime !== undefined && currentRecipe.startTime !== BigInt(recipeConfig.startTime)) {
+            differences.push(`Start: ${formatTime(currentRecipe.startTime)} → ${formatTime(recipeConfig.startTime)}`);
+        }
+        if (recipeConfig.endTime !== undefined && currentRecipe.deadline !== BigInt(recipeConfig.endTime)) {
+            differences.push(`End: ${formatDeadline(currentRecipe.deadline)} → ${formatDeadline(recipeConfig.endTime)}`);
+        }
+
+        changes.push(differences.length > 0
+            ? {recipeId, action: 'update', differences, currentRecipe, expectedData}
+            : {recipeId, action: 'unchanged'});
+    }
+
+    // Check for orphan recipes (exist on-chain but removed from config) across the full recipe ID range
+    // Orphans still craftable are expired by moving their deadline to now, already expired ones are left as is
+    const configuredRecipeIds = new Set(RECIPES.map(recipe => recipe.recipeId));
+
+    for (let recipeId = CRAFTER_CONFIG.minRecipeId; recipeId <= CRAFTER_CONFIG.maxRecipeId; recipeId++) {
+        // Skip if this recipe is in our config
+        if (configuredRecipeIds.has(recipeId)) {
+            continue;
+        }
+
+        const currentRecipe = await crafter.getRecipe(recipeId);
+        const expired = currentRecipe.deadline !== 0n && currentRecipe.deadline <= BigInt(now);
+        if (currentRecipe.outputIds.length > 0 && !expired) {
+            changes.push({
+                recipeId,
+                action: 'delete',
+                currentRecipe,
+                differences: [
+                    `Inputs: ${formatItems(currentRecipe.inputIds, currentRecipe.inputCounts)}`,
+                    `Outputs: ${formatItems(currentRecipe.outputIds, currentRecipe.outputCounts)}`,
+                    `End: ${formatDeadline(currentRecipe.deadline)} → now`
+                ]
+            });
+        }
+    }
+
+    // STEP 2: Display summary
+    const toCreate = changes.filter(c => c.action === 'create');
+    const toUpdate = changes.filter(c => c.action === 'update');
+    const toDelete = changes.filter(c => c.action === 'delete');
+    const unchanged = changes.filter(c => c.action === 'unchanged');
+
+    console.log("═══════════════════════════════════════════════════════");
+    console.log("                    CHANGE SUMMARY");
+    console.log("═══════════════════════════════════════════════════════\n");
+
+    if (toCreate.length > 0) {
+        console.log(`➕ RECIPES TO CREATE (${toCreate.length}):`);
+        for (const change of toCreate) {
+            console.log(`\n  Recipe ${change.recipeId}:`);
+            change.differences?.forEach(diff => console.log(`    • ${diff}`));
+        }
+        console.log();
+    }
+
+    if (toUpdate.length > 0) {
+        console.log(`🔄 RECIPES TO UPDATE (${toUpdate.length}):`);
+        for (const change of toUpdate) {
+            console.log(`\n  Recipe ${change.recipeId}:`);
+            change.differences?.forEach(diff => console.log(`    • ${diff}`));
+        }
+        console.log();
+    }
+
+    if (toDelete.length > 0) {
+        console.log(`🗑️  RECIPES TO EXPIRE (${toDelete.length}):`);
+        for (const change of toDelete) {
+            console.log(`\n  Recipe ${change.recipeId} (not in config):`);
+            change.differences?.forEach(diff => console.log(`    • ${diff}`));
+        }
+        console.log();
+    }
+
+    if (unchanged.length > 0) {
+        console.log(`✓ RECIPES UNCHANGED (${unchanged.length}): ${unchanged.map(c => c.recipeId).join(', ')}\n`);
+    }
+
+    console.log("═══════════════════════════════════════════════════════\n");
+
+    const totalChanges = toCreate.length + toUpdate.length + toDelete.length;
+    writeDiffReport("sync-recipes", hre.network.name, {recipeChanges: changes}, totalChanges);
+
+    if (mode === 'check') {
+        assertNoDrift(totalChanges);
+        return;
+    }
+
+    // STEP 3: Ask for confirmation
+    if (totalChanges === 0) {
+        console.log("✅ All recipes are already in sync. Nothing to do!");
+        return;
+    }
+
+    if (mode === 'send') {
+        const confirmed = await askConfirmation(`\nProceed with ${toCreate.length} creation(s), ${toUpdate.length} update(s), and ${toDelete.length} expiration(s)?`);
+
+        if (!confirmed) {
+            console.log("\n❌ Sync cancelled by user.");
+            return;
+        }
+    }
+
+    // STEP 4: Execute changes (or collect calls in dry-run/export mode)
+    console.log(mode === 'send' ? "\n⚙️  Executing changes...\n" : "\n⚙️  Preparing calls...\n");
+
+    let created = 0;
+    let updated = 0;
+    let deleted = 0;
+
+    for (const change of changes) {
+        if (change.action === 'create') {
+            console.log(`➕ Creating recipe ${change.recipeId}...`);
+            await executor.run(crafter, "setRecipe", [change.recipeId, change.expectedData!], `Create recipe ${change.recipeId}`);
+            console.log(`  ✅ Created recipe ${change.recipeId}`);
+            created++;
+        } else if (change.action === 'update') {
+            console.log(`🔄 Updating recipe ${change.recipeId}...`);
+            await executor.run(crafter, "setRecipe", [change.recipeId, change.expectedData!], `Update recipe ${change.recipeId}`);
+            console.log(`  ✅ Updated recipe ${change.recipeId}`);
+            updated++;
+        } else if (change.action === 'delete') {
+            console.log(`🗑️  Expiring recipe ${change.recipeId}...`);
+            // Expire by moving deadline to now, recipe data is kept for history
+            const current = change.currentRecipe!;
+            await executor.run(crafter, "setRecipe", [change.recipeId, {
+                inputIds: [...current.inputIds],
+                inputCounts: [...current.inputCounts],
+                outputIds: [...current.outputIds],
+                outputCounts: [...current.outputCounts],
+                cooldown: current.cooldown,
+                priceInAcid: current.priceInAcid,
+                priceInRoach: current.priceInRoach,
+                startTime: current.startTime,
+                deadline: now,
+            }], `Expire recipe ${change.recipeId}`);
+            console.log(`  ✅ Expired recipe ${change.recipeId}`);
+            deleted++;
+        }
+    }
+
+    if (mode === 'dry-run') {
+        printCalls(executor.calls);
+        console.log(`\n✅ Dry run complete, no transactions sent`);
+        return;
+    }
+
+    if (mode === 'export') {
+        const file = await writeCallBundle(hre, "sync-recipes", executor.calls);
+        console.log(`\n✅ Exported ${executor.calls.length} call(s) to ${file}, no transactions sent`);
+        return;
+    }
+
+    console.log(`\n✅ Sync Complete!`);
+    console.log(`  Created: ${created} recipe(s)`);
+    console.log(`  Updated: ${updated} recipe(s)`);
+    console.log(`  Expired: ${deleted} recipe(s)`);
+    console.log(`  Unchanged: ${unchanged.length} recipe(s)`);
+    console.log(`  Total configured: ${RECIPES.length} recipe(s)`);
+}
+
+/**
+ * Format item IDs and counts as "id×count" for the change summary
+ */
+function formatItems(ids: Array<bigint | number>, counts: Array<bigint | number>): string {
+    return ids.length > 0 ? ids.map((id, i) => `${id}×${counts[i]}`).join(', ') : 'none';
+}
+
+/**
+ * Format unix timestamp (seconds) for the change summary
+ */
+function formatTime(timestamp: bigint | number): string {
+    return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+/**
+ * Recipe deadline, 0 = no deadline
+ */
+function formatDeadline(timestamp: bigint | number): string {
+    return BigInt(timestamp) === 0n ? 'no deadline' : formatTime(timestamp);
+}
+
+/**
+ * Helper function to compare two arrays of BigInts or numbers
+ */
+function arraysEqual(arr1: any[], arr2: any[]): boolean {
+    if (arr1.length !== arr2.length) return false;
+
+    for (let i = 0; i < arr1.length; i++) {
+        if (BigInt(arr1[i]) !== BigInt(arr2[i])) return false;
+    }
+
+    return true;
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
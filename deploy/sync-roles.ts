@@ -0,0 +1,156 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {Contract} from "ethers";
+import {getConfig, getEnvName, getRoleMatrix, ROLES} from "./config";
+import {createDeployer, isZkSyncNetwork} from "./utils/deployUtils";
+import {askConfirmation} from "./utils/syncUtils";
+import {loadRegistry} from "./utils/deploymentRegistry";
+import {ACCESS_CONTROL_ABI, getRoleHolders} from "./utils/roles";
+
+interface RoleChange {
+    contractKey: string;
+    contractAddress: string;
+    role: keyof typeof ROLES;
+    account: string;
+    action: 'grant' | 'revoke' | 'unchanged';
+}
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const deployer = await createDeployer(hre);
+    const signer = deployer.getSigner();
+    const senderAddress = await deployer.getAddress();
+
+    console.log(`Syncing roles${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}... 🔄\n`);
+
+    // Load environment-specific configuration
+    const config = getConfig(hre);
+    const registry = loadRegistry(getEnvName());
+    const matrix = getRoleMatrix(config);
+    const defaultFromBlock = Number(process.env.FROM_BLOCK || 0);
+
+    // STEP 1: Analyze role holders of every deployed contract
+    console.log("📊 Analyzing role holders...\n");
+    const changes: RoleChange[] = [];
+
+    for (const [contractKey, roles] of Object.entries(matrix)) {
+        const contractAddress = config.contracts[contractKey as keyof typeof config.contracts]!;
+        const contract = new Contract(contractAddress, ACCESS_CONTROL_ABI, hre.ethers.provider);
+        const fromBlock = registry[contractKey]?.blockNumber ?? defaultFromBlock;
+        const holders = await getRoleHolders(hre.ethers.provider, contractAddress, fromBlock);
+
+        for (const [role, expected] of Object.entries(roles) as Array<[keyof typeof ROLES, string[]]>) {
+            const roleHash = ROLES[role];
+            const expectedSet = new Set(expected.map(account => account.toLowerCase()));
+            const current = holders.get(roleHash.toLowerCase()) || [];
+
+            for (const account of expected) {
+                const hasRole = await contract.hasRole(roleHash, account);
+                changes.push({contractKey, contractAddress, role, account, action: hasRole ? 'unchanged' : 'grant'});
+            }
+
+            for (const account of current) {
+                if (!expectedSet.has(account.toLowerCase())) {
+                    changes.push({contractKey, contractAddress, role, account, action: 'revoke'});
+                }
+            }
+        }
+    }
+
+    // STEP 2: Display summary
+    const toGrant = changes.filter(c => c.action === 'grant');
+    const toRevoke = changes.filter(c => c.action === 'revoke');
+    const unchanged = changes.filter(c => c.action === 'unchanged');
+
+    console.log("═══════════════════════════════════════════════════════");
+    console.log("                  CHANGE SUMMARY");
+    console.log("═══════════════════════════════════════════════════════\n");
+
+    if (toGrant.length > 0) {
+        console.log(`➕ ROLES TO GRANT (${toGrant.length}):`);
+        for (const change of toGrant) {
+            console.log(`    • ${change.contractKey}.${change.role} → ${change.account}`);
+        }
+        console.log();
+    }
+
+    if (toRevoke.length > 0) {
+        console.log("🚨🚨🚨 UNEXPECTED ROLE HOLDERS 🚨🚨🚨");
+        console.log(`➖ ROLES TO REVOKE (${toRevoke.length}):`);
+        for (const change of toRevoke) {
+            const note = change.account.toLowerCase() === senderAddress.toLowerCase() ? ' (deployer)' : '';
+            console.log(`    • ${change.contractKey}.${change.role} ✗ ${change.account}${note}`);
+        }
+        console.log();
+    }
+
+    if (unchanged.length > 0) {
+        console.log(`✓ UNCHANGED: ${unchanged.length} role assignment(s) across ${Object.keys(matrix).length} contract(s)\n`);
+    }
+
+    console.log("═══════════════════════════════════════════════════════\n");
+
+    // STEP 3: Ask for confirmation
+    if (toGrant.length === 0 && toRevoke.length === 0) {
+        console.log("✅ All roles are already in sync. Nothing to do!");
+        return;
+    }
+
+    const confirmed = await askConfirmation(`\nProceed with ${toGrant.length} grant(s) and ${toRevoke.length} revocation(s)?`);
+
+    if (!confirmed) {
+        console.log("\n❌ Sync cancelled by user.");
+        return;
+    }
+
+    // STEP 4: Execute changes
+    // Grants go first and DEFAULT_ADMIN_ROLE revocations last, so the sender does not lose admin rights midway
+    console.log("\n⚙️  Executing changes...\n");
+
+    const ordered = [
+        ...toGrant,
+        ...toRevoke.filter(c => c.role !== 'DEFAULT_ADMIN_ROLE'),
+        ...toRevoke.filter(c => c.role === 'DEFAULT_ADMIN_ROLE'),
+    ];
+
+    let granted = 0;
+    let revoked = 0;
+    let failed = 0;
+
+    for (const change of ordered) {
+        const contract = new Contract(change.contractAddress, ACCESS_CONTROL_ABI, signer);
+        const roleAdmin = await contract.getRoleAdmin(ROLES[change.role]);
+        if (!await contract.hasRole(roleAdmin, senderAddress)) {
+            console.log(`  ⚠️  Skipping ${change.contractKey}.${change.role} for ${change.account}: sender lacks admin role`);
+            failed++;
+            continue;
+        }
+
+        if (change.action === 'grant') {
+            const tx = await contract.grantRole(ROLES[change.role], change.account);
+            await tx.wait();
+            console.log(`  ✅ Granted ${change.contractKey}.${change.role} to ${change.account}`);
+            granted++;
+        } else {
+            const tx = await contract.revokeRole(ROLES[change.role], change.account);
+            await tx.wait();
+            console.log(`  ✅ Revoked ${change.contractKey}.${change.role} from ${change.account}`);
+            revoked++;
+        }
+    }
+
+    console.log(`\n✅ Sync Complete!`);
+    console.log(`  Granted: ${granted} role(s)`);
+    console.log(`  Revoked: ${revoked} role(s)`);
+    console.log(`  Skipped: ${failed} role(s)`);
+    console.log(`  Unchanged: ${unchanged.length} role(s)`);
+}
+
+// Support for `hardhat run` (EVM networks)
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -1,8 +1,9 @@
 import {HardhatRuntimeEnvironment} from "hardhat/types";
-import {ethers} from "hardhat";
-import {getConfig, REACTOR_CONFIG, SHOP_LOTS, SHOP_CONFIG} from "./config";
+import {Contract, ContractRunner} from "ethers";
+import {getConfig, SHOP_LOTS, SHOP_CONFIG} from "./config";
 import {createDeployer, isZkSyncNetwork} from "./utils/deployUtils";
-import * as readline from "readline";
+import {askConfirmation, assertNoDrift, writeDiffReport} from "./utils/syncUtils";
+import {createCallExecutor, getSyncMode, printCalls, writeCallBundle} from "./utils/callBundle";
 
 interface LotChange {
     lotId: number;
@@ -13,13 +14,16 @@ interface LotChange {
 }
 
 export default async function (hre: HardhatRuntimeEnvironment) {
-    const deployer = await createDeployer(hre);
-    const signer = deployer.getSigner();
+    const mode = getSyncMode();
+    const executor = createCallExecutor(mode);
 
-    console.log(`Syncing Shop lots${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}... 🔄`);
+    // Deployer key is only needed when sending transactions
+    const runner: ContractRunner = mode === 'send' ? (await createDeployer(hre)).getSigner() : hre.ethers.provider;
+
+    console.log(`Syncing Shop lots${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}${mode !== 'send' ? ` [${mode}]` : ''}... 🔄`);
 
     // Load environment-specific configuration
-    const config = getConfig();
+    const config = getConfig(hre);
 
     // Validate required contract addresses
     if (!config.contracts.inventoryProxy) {
@@ -34,7 +38,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
 
     console.log(`Connected to Shop at: ${shopAddress}\n`);
 
-    const shop = await ethers.getContractAt("Shop", shopAddress, signer);
+    const shop = new Contract(shopAddress, (await hre.artifacts.readArtifact("Shop")).abi, runner);
 
     // Define lot parameters
     const now = Math.floor(Date.now() / 1000);
@@ -59,9 +63,9 @@ export default async function (hre: HardhatRuntimeEnvironment) {
         // Expected values from config
         const expectedPriceInTrax = hre.ethers.parseEther(lotConfig.priceInTrax);
         const expectedPriceInTraxTurbo = hre.ethers.parseEther(lotConfig.priceInTraxTurbo);
-        const expectedItemIds = lotConfig.itemIds(REACTOR_CONFIG);
+        const expectedItemIds = lotConfig.itemIds;
         const expectedAmounts = lotConfig.amounts;
-        const expectedRestrictedItems = lotConfig.restrictedItems(REACTOR_CONFIG);
+        const expectedRestrictedItems = lotConfig.restrictedItems;
 
         const expectedData = {
             priceInTrax: expectedPriceInTrax,
@@ -202,21 +206,31 @@ export default async function (hre: HardhatRuntimeEnvironment) {
 
     console.log("═══════════════════════════════════════════════════════\n");
 
+    const totalChanges = toCreate.length + toUpdate.length + toDelete.length;
+    writeDiffReport("sync-shop-lots", hre.network.name, {lotChanges: changes}, totalChanges);
+
+    if (mode === 'check') {
+        assertNoDrift(totalChanges);
+        return;
+    }
+
     // STEP 3: Ask for confirmation
-    if (toCreate.length === 0 && toUpdate.length === 0 && toDelete.length === 0) {
+    if (totalChanges === 0) {
         console.log("✅ All lots are already in sync. Nothing to do!");
         return;
     }
 
-    const confirmed = await askConfirmation(`\nProceed with ${toCreate.length} creation(s), ${toUpdate.length} update(s), and ${toDelete.length} deletion(s)?`);
+    if (mode === 'send') {
+        const confirmed = await askConfirmation(`\nProceed with ${toCreate.length} creation(s), ${toUpdate.length} update(s), and ${toDelete.length} deletion(s)?`);
 
-    if (!confirmed) {
-        console.log("\n❌ Sync cancelled by user.");
-        return;
+        if (!confirmed) {
+            console.log("\n❌ Sync cancelled by user.");
+            return;
+        }
     }
 
-    // STEP 4: Execute changes
-    console.log("\n⚙️  Executing changes...\n");
+    // STEP 4: Execute changes (or collect calls in dry-run/export mode)
+    console.log(mode === 'send' ? "\n⚙️  Executing changes...\n" : "\n⚙️  Preparing calls...\n");
 
     let created = 0;
     let updated = 0;
@@ -225,7 +239,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     for (const change of changes) {
         if (change.action === 'create') {
             console.log(`➕ Creating lot ${change.lotId}...`);
-            const tx = await shop.createLot(
+            await executor.run(shop, "createLot", [
                 change.lotId,
                 change.expectedData!.priceInTrax,
                 change.expectedData!.priceInTraxTurbo,
@@ -234,13 +248,12 @@ export default async function (hre: HardhatRuntimeEnvironment) {
                 change.expectedData!.itemIds,
                 change.expectedData!.amounts,
                 change.expectedData!.restrictedItems
-            );
-            await tx.wait();
+            ], `Create lot ${change.lotId}`);
             console.log(`  ✅ Created lot ${change.lotId}`);
             created++;
         } else if (change.action === 'update') {
             console.log(`🔄 Updating lot ${change.lotId}...`);
-            const tx = await shop.updateLot(
+            await executor.run(shop, "updateLot", [
                 change.lotId,
                 change.expectedData!.priceInTrax,
                 change.expectedData!.priceInTraxTurbo,
@@ -249,14 +262,13 @@ export default async function (hre: HardhatRuntimeEnvironment) {
                 change.expectedData!.itemIds,
                 change.expectedData!.amounts,
                 change.expectedData!.restrictedItems
-            );
-            await tx.wait();
+            ], `Update lot ${change.lotId}`);
             console.log(`  ✅ Updated lot ${change.lotId}`);
             updated++;
         } else if (change.action === 'delete') {
             console.log(`🗑️  Deleting lot ${change.lotId}...`);
             // Delete by setting price to 0 and deadline to 0
-            const tx = await shop.updateLot(
+            await executor.run(shop, "updateLot", [
                 change.lotId,
                 0, // priceInTrax
                 0, // priceInTraxTurbo
@@ -265,13 +277,24 @@ export default async function (hre: HardhatRuntimeEnvironment) {
                 [], // empty itemIds
                 [], // empty itemCounts
                 []  // empty restrictedItems
-            );
-            await tx.wait();
+            ], `Delete lot ${change.lotId}`);
             console.log(`  ✅ Deleted lot ${change.lotId}`);
             deleted++;
         }
     }
 
+    if (mode === 'dry-run') {
+        printCalls(executor.calls);
+        console.log(`\n✅ Dry run complete, no transactions sent`);
+        return;
+    }
+
+    if (mode === 'export') {
+        const file = await writeCallBundle(hre, "sync-shop-lots", executor.calls);
+        console.log(`\n✅ Exported ${executor.calls.length} call(s) to ${file}, no transactions sent`);
+        return;
+    }
+
     console.log(`\n✅ Sync Complete!`);
     console.log(`  Created: ${created} lot(s)`);
     console.log(`  Updated: ${updated} lot(s)`);
@@ -280,23 +303,6 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     console.log(`  Total configured: ${SHOP_LOTS.length} lot(s)`);
 }
 
-/**
- * Ask user for confirmation
- */
-async function askConfirmation(question: string): Promise<boolean> {
-    const rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stdout
-    });
-
-    return new Promise((resolve) => {
-        rl.question(`${question} (y/N): `, (answer) => {
-            rl.close();
-            resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-        });
-    });
-}
-
 /**
  * Helper function to compare two arrays of BigInts or numbers
  */
@@ -1,8 +1,9 @@
 import {HardhatRuntimeEnvironment} from "hardhat/types";
-import {ethers} from "hardhat";
-import {getConfig, REACTOR_CONFIG, SHOP_LOTS, SHOP_CONFIG} from "./config";
+import {Contract, ContractRunner} from "ethers";
+import {getConfig, SHOP_LOTS, SHOP_CONFIG} from "./config";
 import {createDeployer, isZkSyncNetwork} from "./utils/deployUtils";
-import * as readline from "readline";
+import {askConfirmation, assertNoDrift, writeDiffReport} from "./utils/syncUtils";
+import {createCallExecutor, getSyncMode, printCalls, writeCallBundle} from "./utils/callBundle";
 
 interface LotChange {
     lotId: number;
@@ -13,13 +14,16 @@ interface LotChange {
 }
 
 export default async function (hre: HardhatRuntimeEnvironment) {
-    const deployer = await createDeployer(hre);
-    const signer = deployer.getSigner();
+    const mode = getSyncMode();
+    const executor = createCallExecutor(mode);
 
-    console.log(`Syncing ShopV2 lots${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}... 🔄`);
+    // Deployer key is only needed when sending transactions
+    const runner: ContractRunner = mode === 'send' ? (await createDeployer(hre)).getSigner() : hre.ethers.provider;
+
+    console.log(`Syncing ShopV2 lots${isZkSyncNetwork(hre) ? ' (zkSync)' : ' (EVM)'}${mode !== 'send' ? ` [${mode}]` : ''}... 🔄`);
 
     // Load environment-specific configuration
-    const config = getConfig();
+    const config = getConfig(hre);
 
     // Validate required contract addresses
     if (!config.contracts.inventoryProxy) {
@@ -34,11 +38,11 @@ export default async function (hre: HardhatRuntimeEnvironment) {
 
     console.log(`Connected to ShopV2 at: ${shopV2Address}\n`);
 
-    const shop = await ethers.getContractAt("ShopV2", shopV2Address, signer);
+    const shop = new Contract(shopV2Address, (await hre.artifacts.readArtifact("ShopV2")).abi, runner);
 
-    // Define lot parameters
+    // Default sale window for new lots without startTime/endTime in config
     const now = Math.floor(Date.now() / 1000);
-    const endTime = now + (300 * 24 * 60 * 60); // 300 days
+    const defaultEndTime = now + (300 * 24 * 60 * 60); // 300 days
 
     // STEP 1: Analyze all lots and collect changes
     console.log("📊 Analyzing differences...\n");
@@ -59,9 +63,9 @@ export default async function (hre: HardhatRuntimeEnvironment) {
         // Expected values from config
         const expectedPriceInAcid = hre.ethers.parseEther(lotConfig.priceInAcid);
         const expectedPriceInRoach = hre.ethers.parseEther(lotConfig.priceInRoach);
-        const expectedItemIds = lotConfig.itemIds(REACTOR_CONFIG);
+        const expectedItemIds = lotConfig.itemIds;
         const expectedAmounts = lotConfig.amounts;
-        const expectedRestrictedItems = lotConfig.restrictedItems(REACTOR_CONFIG);
+        const expectedRestrictedItems = lotConfig.restrictedItems;
 
         const expectedData = {
             priceInAcid: expectedPriceInAcid,
@@ -69,8 +73,9 @@ export default async function (hre: HardhatRuntimeEnvironment) {
             itemIds: expectedItemIds,
             amounts: expectedAmounts,
             restrictedItems: expectedRestrictedItems,
-            startTime: now,
-            endTime: endTime
+            // Existing lots keep their on-chain window unless config sets it explicitly
+            startTime: lotConfig.startTime ?? (currentLot && currentLot.priceInAcid > 0n ? currentLot.startTime : now),
+            endTime: lotConfig.endTime ?? (currentLot && currentLot.priceInAcid > 0n ? currentLot.deadline : defaultEndTime)
         };
 
         // Check if lot needs to be created or updated
@@ -85,7 +90,8 @@ export default async function (hre: HardhatRuntimeEnvironment) {
                     `Price ROACH: ${lotConfig.priceInRoach}`,
                     `Items: ${expectedItemIds.join(', ')}`,
                     `Amounts: ${expectedAmounts.join(', ')}`,
-                    `Restricted: ${expectedRestrictedItems.length > 0 ? expectedRestrictedItems.join(', ') : 'none'}`
+                    `Restricted: ${expectedRestrictedItems.length > 0 ? expectedRestrictedItems.join(', ') : 'none'}`,
+                    `Window: ${formatTime(expectedData.startTime)} → ${formatTime(expectedData.endTime)}`
                 ]
             });
         } else {
@@ -109,6 +115,12 @@ export default async function (hre: HardhatRuntimeEnvironment) {
                 const expectedRestricted = expectedRestrictedItems.length > 0 ? expectedRestrictedItems.join(', ') : 'none';
                 differences.push(`Restricted: [${currentRestricted}] → [${expectedRestricted}]`);
             }
+            if (lotConfig.startTime !== undefined && currentLot.startTime !== BigInt(lotConfig.startTime)) {
+                differences.push(`Start: ${formatTime(currentLot.startTime)} → ${formatTime(lotConfig.startTime)}`);
+            }
+            if (lotConfig.endTime !== undefined && currentLot.deadline !== BigInt(lotConfig.endTime)) {
+                differences.push(`End: ${formatTime(currentLot.deadline)} → ${formatTime(lotConfig.endTime)}`);
+            }
 
             if (differences.length > 0) {
                 changes.push({
@@ -127,7 +139,8 @@ export default async function (hre: HardhatRuntimeEnvironment) {
         }
     }
 
-    // Check for deleted lots (exist on-chain but not in config)
+    // Check for orphan lots (exist on-chain but removed from config) across the full lot ID range
+    // Orphans still on sale are expired by moving their deadline to now, already expired ones are left as is
     const configuredLotIds = new Set(SHOP_LOTS.map(lot => lot.lotId));
 
     for (let lotId = SHOP_CONFIG.minLotId; lotId <= SHOP_CONFIG.maxLotId; lotId++) {
@@ -140,8 +153,8 @@ export default async function (hre: HardhatRuntimeEnvironment) {
         try {
             const currentLot = await shop.getLot(lotId);
 
-            // If lot exists and has non-zero price, it should be deleted
-            if (currentLot && currentLot.priceInAcid > 0n) {
+            // If lot exists, has non-zero price and is not expired yet, it should be expired
+            if (currentLot && currentLot.priceInAcid > 0n && currentLot.deadline > BigInt(now)) {
                 changes.push({
                     lotId,
                     action: 'delete',
@@ -150,7 +163,8 @@ export default async function (hre: HardhatRuntimeEnvironment) {
                         `Price ACID: ${hre.ethers.formatEther(currentLot.priceInAcid)}`,
                         `Price ROACH: ${hre.ethers.formatEther(currentLot.priceInRoach)}`,
                         `Items: ${currentLot.itemIds.join(', ')}`,
-                        `Amounts: ${currentLot.itemCounts.join(', ')}`
+                        `Amounts: ${currentLot.itemCounts.join(', ')}`,
+                        `End: ${formatTime(currentLot.deadline)} → now`
                     ]
                 });
             }
@@ -188,7 +202,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     }
 
     if (toDelete.length > 0) {
-        console.log(`🗑️  LOTS TO DELETE (${toDelete.length}):`);
+        console.log(`🗑️  LOTS TO EXPIRE (${toDelete.length}):`);
         for (const change of toDelete) {
             console.log(`\n  Lot ${change.lotId} (not in config):`);
             change.differences?.forEach(diff => console.log(`    • ${diff}`));
@@ -202,21 +216,31 @@ export default async function (hre: HardhatRuntimeEnvironment) {
 
     console.log("═══════════════════════════════════════════════════════\n");
 
+    const totalChanges = toCreate.length + toUpdate.length + toDelete.length;
+    writeDiffReport("sync-shopv2-lots", hre.network.name, {lotChanges: changes}, totalChanges);
+
+    if (mode === 'check') {
+        assertNoDrift(totalChanges);
+        return;
+    }
+
     // STEP 3: Ask for confirmation
-    if (toCreate.length === 0 && toUpdate.length === 0 && toDelete.length === 0) {
+    if (totalChanges === 0) {
         console.log("✅ All lots are already in sync. Nothing to do!");
         return;
     }
 
-    const confirmed = await askConfirmation(`\nProceed with ${toCreate.length} creation(s), ${toUpdate.length} update(s), and ${toDelete.length} deletion(s)?`);
+    if (mode === 'send') {
+        const confirmed = await askConfirmation(`\nProceed with ${toCreate.length} creation(s), ${toUpdate.length} update(s), and ${toDelete.length} expiration(s)?`);
 
-    if (!confirmed) {
-        console.log("\n❌ Sync cancelled by user.");
-        return;
+        if (!confirmed) {
+            console.log("\n❌ Sync cancelled by user.");
+            return;
+        }
     }
 
-    // STEP 4: Execute changes
-    console.log("\n⚙️  Executing changes...\n");
+    // STEP 4: Execute changes (or collect calls in dry-run/export mode)
+    console.log(mode === 'send' ? "\n⚙️  Executing changes...\n" : "\n⚙️  Preparing calls...\n");
 
     let created = 0;
     let updated = 0;
@@ -225,7 +249,7 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     for (const change of changes) {
         if (change.action === 'create') {
             console.log(`➕ Creating lot ${change.lotId}...`);
-            const tx = await shop.createLot(
+            await executor.run(shop, "createLot", [
                 change.lotId,
                 change.expectedData!.priceInAcid,
                 change.expectedData!.priceInRoach,
@@ -234,67 +258,66 @@ export default async function (hre: HardhatRuntimeEnvironment) {
                 change.expectedData!.itemIds,
                 change.expectedData!.amounts,
                 change.expectedData!.restrictedItems
-            );
-            await tx.wait();
+            ], `Create lot ${change.lotId}`);
             console.log(`  ✅ Created lot ${change.lotId}`);
             created++;
         } else if (change.action === 'update') {
             console.log(`🔄 Updating lot ${change.lotId}...`);
-            const tx = await shop.updateLot(
+            await executor.run(shop, "updateLot", [
                 change.lotId,
                 change.expectedData!.priceInAcid,
                 change.expectedData!.priceInRoach,
-                change.currentLot!.startTime, // Keep original start time
-                change.currentLot!.deadline,  // Keep original deadline
+                change.expectedData!.startTime,
+                change.expectedData!.endTime,
                 change.expectedData!.itemIds,
                 change.expectedData!.amounts,
                 change.expectedData!.restrictedItems
-            );
-            await tx.wait();
+            ], `Update lot ${change.lotId}`);
             console.log(`  ✅ Updated lot ${change.lotId}`);
             updated++;
         } else if (change.action === 'delete') {
-            console.log(`🗑️  Deleting lot ${change.lotId}...`);
-            // Delete by setting prices to 0 and deadline to 0
-            const tx = await shop.updateLot(
+            console.log(`🗑️  Expiring lot ${change.lotId}...`);
+            // Expire by moving deadline to now, lot data is kept for history
+            await executor.run(shop, "updateLot", [
                 change.lotId,
-                0, // priceInAcid
-                0, // priceInRoach
-                0, // startTime
-                0, // deadline
-                [], // empty itemIds
-                [], // empty itemCounts
-                []  // empty restrictedItems
-            );
-            await tx.wait();
-            console.log(`  ✅ Deleted lot ${change.lotId}`);
+                change.currentLot!.priceInAcid,
+                change.currentLot!.priceInRoach,
+                change.currentLot!.startTime,
+                now, // deadline
+                [...change.currentLot!.itemIds],
+                [...change.currentLot!.itemCounts],
+                [...change.currentLot!.restrictedItems]
+            ], `Expire lot ${change.lotId}`);
+            console.log(`  ✅ Expired lot ${change.lotId}`);
             deleted++;
         }
     }
 
+    if (mode === 'dry-run') {
+        printCalls(executor.calls);
+        console.log(`\n✅ Dry run complete, no transactions sent`);
+        return;
+    }
+
+    if (mode === 'export') {
+        const file = await writeCallBundle(hre, "sync-shopv2-lots", executor.calls);
+        console.log(`\n✅ Exported ${executor.calls.length} call(s) to ${file}, no transactions sent`);
+        return;
+    }
+
     console.log(`\n✅ Sync Complete!`);
     console.log(`  Created: ${created} lot(s)`);
     console.log(`  Updated: ${updated} lot(s)`);
-    console.log(`  Deleted: ${deleted} lot(s)`);
+    console.log(`  Expired: ${deleted} lot(s)`);
     console.log(`  Unchanged: ${unchanged.length} lot(s)`);
     console.log(`  Total configured: ${SHOP_LOTS.length} lot(s)`);
 }
 
 /**
- * Ask user for confirmation
+ * Format unix timestamp (seconds) for the change summary
  */
-async function askConfirmation(question: string): Promise<boolean> {
-    const rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stdout
-    });
-
-    return new Promise((resolve) => {
-        rl.question(`${question} (y/N): `, (answer) => {
-            rl.close();
-            resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-        });
-    });
+function formatTime(timestamp: bigint | number): string {
+    return new Date(Number(timestamp) * 1000).toISOString();
 }
 
 /**
@@ -0,0 +1,68 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { createDeployer, verifyContract, isZkSyncNetwork, recordProxyUpgrade } from "./utils/deployUtils";
+import { getConfig, getEnvName } from "./config";
+
+// Upgrade script for Crafter proxy
+// Usage: DEPLOY_ENV=devAbs npx hardhat deploy-zksync --script deploy/upgrade-crafter.ts
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const env = getEnvName();
+    const config = getConfig(hre);
+    const proxyAddress = config.contracts.crafterProxy;
+
+    if (!proxyAddress) {
+        throw new Error(`Crafter proxy address not configured for environment: ${env}`);
+    }
+
+    const networkType = isZkSyncNetwork(hre) ? 'zkSync' : 'EVM';
+    console.log(`\n🔄 Upgrading Crafter on ${hre.network.name} (${networkType})...`);
+    console.log(`Environment: ${env}`);
+    console.log(`Proxy Address: ${proxyAddress}`);
+
+    const deployer = await createDeployer(hre);
+    const deployerAddress = await deployer.getAddress();
+    console.log(`Deployer: ${deployerAddress}`);
+
+    // Deploy new Crafter implementation
+    console.log("\n📦 Deploying new Crafter implementation...");
+    const crafterArtifact = await deployer.loadArtifact("Crafter");
+    const crafterImplementation = await crafterArtifact.deploy([]);
+    const newImplementationAddress = await crafterImplementation.getAddress();
+    console.log(`New implementation deployed at: ${newImplementationAddress}`);
+
+    // Verify new implementation
+    await verifyContract(newImplementationAddress, [], hre, "contracts/Crafter.sol:Crafter");
+
+    // Get the Crafter contract interface at proxy address
+    const crafterContract = await hre.ethers.getContractAt("Crafter", proxyAddress, deployer.getSigner());
+
+    // Check current admin
+    const DEFAULT_ADMIN_ROLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
+    const hasRole = await crafterContract.hasRole(DEFAULT_ADMIN_ROLE, deployerAddress);
+    console.log(`\nDeployer has DEFAULT_ADMIN_ROLE: ${hasRole}`);
+
+    if (!hasRole) {
+        console.error("❌ Deployer does not have admin role!");
+        return;
+    }
+
+    // Perform upgrade
+    console.log(`\n🔄 Upgrading proxy to new implementation...`);
+    const upgradeTx = await crafterContract.upgradeToAndCall(newImplementationAddress, "0x");
+    console.log(`Transaction hash: ${upgradeTx.hash}`);
+
+    await upgradeTx.wait();
+    console.log(`✅ Upgrade completed successfully!`);
+
+    await recordProxyUpgrade(hre, "crafterProxy", proxyAddress, newImplementationAddress);
+
+    // Verify upgrade
+    const implSlot = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+    const implAddress = await hre.ethers.provider.getStorage(proxyAddress, implSlot);
+    const actualImpl = "0x" + implAddress.slice(-40);
+
+    console.log(`\nVerification:`);
+    console.log(`  Expected implementation: ${newImplementationAddress.toLowerCase()}`);
+    console.log(`  Actual implementation:   ${actualImpl.toLowerCase()}`);
+    console.log(`  Match: ${actualImpl.toLowerCase() === newImplementationAddress.toLowerCase()}`);
+}
\ No newline at end of file
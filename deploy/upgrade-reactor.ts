@@ -1,13 +1,14 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
-import { createDeployer, verifyContract, isZkSyncNetwork } from "./utils/deployUtils";
-import { getConfig } from "./config";
+import { createDeployer, verifyContract, isZkSyncNetwork, recordProxyUpgrade } from "./utils/deployUtils";
+import { getConfig, getEnvName } from "./config";
+import { getReleaseName, recordStorageLayout, validateUpgradeLayout } from "./utils/storageLayout";
 
 // Upgrade script for Reactor proxy
 // Usage: DEPLOY_ENV=devAbs npx hardhat deploy-zksync --script deploy/upgrade-reactor.ts
 
 export default async function (hre: HardhatRuntimeEnvironment) {
-    const env = process.env.DEPLOY_ENV || "devAbs";
-    const config = getConfig();
+    const env = getEnvName();
+    const config = getConfig(hre);
     const proxyAddress = config.contracts.reactorProxy;
 
     if (!proxyAddress) {
@@ -23,6 +24,9 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     const deployerAddress = await deployer.getAddress();
     console.log(`Deployer: ${deployerAddress}`);
 
+    // Refuse layouts that would corrupt the live proxy storage
+    const storageLayout = await validateUpgradeLayout(hre, "Reactor", proxyAddress);
+
     // Deploy new Reactor implementation
     console.log("\n📦 Deploying new Reactor implementation...");
     const reactorArtifact = await deployer.loadArtifact("Reactor");
@@ -54,6 +58,9 @@ export default async function (hre: HardhatRuntimeEnvironment) {
     await upgradeTx.wait();
     console.log(`✅ Upgrade completed successfully!`);
 
+    await recordProxyUpgrade(hre, "reactorProxy", proxyAddress, newImplementationAddress);
+    recordStorageLayout("Reactor", getReleaseName(), storageLayout, {network: hre.network.name, address: newImplementationAddress});
+
     // Verify upgrade
     const implSlot = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
     const implAddress = await hre.ethers.provider.getStorage(proxyAddress, implSlot);
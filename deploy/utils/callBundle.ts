@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import { Contract, Interface, ZeroHash, id } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * How sync scripts apply changes, selected with SYNC_MODE env var:
+ * - send:    send transactions from the deployer key (default)
+ * - dry-run: print the calls that would be sent, send nothing
+ * - export:  write calls to a JSON bundle (EXPORT_FILE) for Safe Transaction Builder or timelock scheduleBatch
+ * - check:   exit with an error if chain state drifted from config, send nothing (also --check flag)
+ */
+export type SyncMode = 'send' | 'dry-run' | 'export' | 'check';
+
+export interface BundledCall {
+    to: string;
+    value: string;
+    data: string;
+    description: string;
+}
+
+export interface CallExecutor {
+    mode: SyncMode;
+    calls: BundledCall[];
+    // Send the call (send mode) or record it (dry-run/export)
+    run(contract: Contract, method: string, args: any[], description: string): Promise<void>;
+}
+
+export function getSyncMode(): SyncMode {
+    if (process.argv.includes('--check')) {
+        return 'check';
+    }
+    const mode = process.env.SYNC_MODE || 'send';
+    if (mode !== 'send' && mode !== 'dry-run' && mode !== 'export' && mode !== 'check') {
+        throw new Error(`Unknown SYNC_MODE: ${mode}. Available: send, dry-run, export, check`);
+    }
+    return mode;
+}
+
+export function createCallExecutor(mode: SyncMode): CallExecutor {
+    const calls: BundledCall[] = [];
+    return {
+        mode,
+        calls,
+        run: async (contract, method, args, description) => {
+            if (mode === 'send') {
+                const tx = await contract.getFunction(method)(...args);
+                await tx.wait();
+                return;
+            }
+            calls.push({
+                to: await contract.getAddress(),
+                value: '0',
+                data: contract.interface.encodeFunctionData(method, args),
+                description,
+            });
+        },
+    };
+}
+
+/**
+ * Print recorded calls (dry-run mode)
+ */
+export function printCalls(calls: BundledCall[]) {
+    console.log(`\n📝 ${calls.length} call(s) would be sent:\n`);
+    calls.forEach((call, i) => {
+        console.log(`  ${i + 1}. ${call.description}`);
+        console.log(`     to: ${call.to}`);
+        console.log(`     data: ${call.data.length > 138 ? `${call.data.slice(0, 138)}... (${(call.data.length - 2) / 2} bytes)` : call.data}`);
+    });
+}
+
+/**
+ * Write calls as a JSON bundle importable by Safe Transaction Builder.
+ * When timelock is given, also includes encoded TimelockController.scheduleBatch/executeBatch calldata.
+ *
+ * @returns path of the written file
+ */
+export async function writeCallBundle(
+    hre: HardhatRuntimeEnvironment,
+    name: string,
+    calls: BundledCall[],
+    timelock?: { address: string; delay: number },
+): Promise<string> {
+    const file = process.env.EXPORT_FILE || `${name}-calls-${Date.now()}.json`;
+    const chainId = (await hre.ethers.provider.getNetwork()).chainId.toString();
+
+    const bundle: any = {
+        version: "1.0",
+        chainId,
+        createdAt: Date.now(),
+        meta: {
+            name,
+            description: `${calls.length} call(s) generated by ${name} on ${hre.network.name}`,
+        },
+        transactions: calls.map(call => ({
+            to: call.to,
+            value: call.value,
+            data: call.data,
+            contractMethod: null,
+            contractInputsValues: null,
+            description: call.description,
+        })),
+    };
+
+    if (timelock) {
+        const artifact = await hre.artifacts.readArtifact("TimelockController");
+        const timelockInterface = new Interface(artifact.abi);
+        const targets = calls.map(call => call.to);
+        const values = calls.map(call => call.value);
+        const payloads = calls.map(call => call.data);
+        const predecessor = ZeroHash;
+        const salt = id(`${name}-${bundle.createdAt}`);
+
+        bundle.timelock = {
+            address: timelock.address,
+            targets,
+            values,
+            payloads,
+            predecessor,
+            salt,
+            delay: timelock.delay,
+            scheduleBatchData: timelockInterface.encodeFunctionData("scheduleBatch", [targets, values, payloads, predecessor, salt, timelock.delay]),
+            executeBatchData: timelockInterface.encodeFunctionData("executeBatch", [targets, values, payloads, predecessor, salt]),
+        };
+    }
+
+    fs.writeFileSync(file, JSON.stringify(bundle, null, 2));
+    return file;
+}
@@ -0,0 +1,101 @@
+import { getAddress, isAddress } from "ethers";
+import type { DeployConfig } from "../config-env";
+import { REACTOR_CONFIG, ROLES } from "../config";
+
+export class ConfigValidationError extends Error {
+    constructor(public readonly env: string, public readonly errors: string[]) {
+        super(`Invalid ${env} configuration:\n${errors.map(error => `  ❌ ${error}`).join('\n')}`);
+        this.name = "ConfigValidationError";
+    }
+}
+
+/**
+ * Check a DeployConfig and return human-readable errors (empty if valid)
+ *
+ * @param networks network names available in the loaded hardhat config (hre.config.networks)
+ */
+export function validateConfig(config: DeployConfig, networks: string[]): string[] {
+    const errors: string[] = [];
+
+    if (!networks.includes(config.network)) {
+        errors.push(`network '${config.network}' is not defined in the loaded hardhat config (available: ${networks.join(', ')})`);
+    }
+
+    checkAddressList(errors, 'admin', config.admin);
+    checkAddress(errors, 'signer', config.signer);
+    checkAddress(errors, 'minter', config.minter);
+    checkAddress(errors, 'withdraw', config.withdraw);
+    if (config.manager !== undefined) {
+        checkAddress(errors, 'manager', config.manager);
+    }
+
+    for (const [key, address] of Object.entries(config.contracts)) {
+        if (address !== undefined) {
+            checkAddress(errors, `contracts.${key}`, address);
+        }
+    }
+
+    for (const [key, url] of Object.entries(config.metadata)) {
+        if (!url) {
+            errors.push(`metadata.${key} is not set`);
+        }
+    }
+
+    if (config.timelock.minDelay <= 0) {
+        errors.push(`timelock.minDelay must be positive, got ${config.timelock.minDelay}`);
+    }
+    checkAddressList(errors, 'timelock.proposers', config.timelock.proposers);
+    config.timelock.executors.forEach((address, i) => checkAddress(errors, `timelock.executors[${i}]`, address));
+
+    const batteryCount = REACTOR_CONFIG.batteryItemIds.length;
+    if (config.reactor.batteryDurations.length !== batteryCount) {
+        errors.push(`reactor.batteryDurations has ${config.reactor.batteryDurations.length} entries, REACTOR_CONFIG.batteryItemIds has ${batteryCount}`);
+    }
+    config.reactor.batteryDurations.forEach((duration, i) => {
+        if (!Number.isInteger(duration) || duration <= 0) {
+            errors.push(`reactor.batteryDurations[${i}] must be a positive number of seconds, got ${duration}`);
+        }
+    });
+
+    for (const [contractKey, roles] of Object.entries(config.roles)) {
+        for (const [role, holders] of Object.entries(roles ?? {})) {
+            if (!(role in ROLES)) {
+                errors.push(`roles.${contractKey}.${role} is not a known role`);
+            }
+            holders?.forEach((holder, i) => {
+                if (typeof holder === 'string') {
+                    checkAddress(errors, `roles.${contractKey}.${role}[${i}]`, holder);
+                }
+            });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Throw ConfigValidationError listing all problems found in the config
+ */
+export function assertValidConfig(env: string, config: DeployConfig, networks: string[]) {
+    const errors = validateConfig(config, networks);
+    if (errors.length > 0) {
+        throw new ConfigValidationError(env, errors);
+    }
+}
+
+function checkAddressList(errors: string[], field: string, addresses: string[]) {
+    if (addresses.length === 0) {
+        errors.push(`${field} is empty`);
+    }
+    addresses.forEach((address, i) => checkAddress(errors, `${field}[${i}]`, address));
+}
+
+function checkAddress(errors: string[], field: string, address: string) {
+    if (!address) {
+        errors.push(`${field} is not set`);
+    } else if (!isAddress(address)) {
+        errors.push(`${field} '${address}' is not a valid address`);
+    } else if (getAddress(address) !== address) {
+        errors.push(`${field} '${address}' is not checksummed, expected '${getAddress(address)}'`);
+    }
+}
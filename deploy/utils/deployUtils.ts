@@ -3,7 +3,8 @@ import { Wallet } from "zksync-ethers";
 import { ethers } from "hardhat";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { Contract, Interface, Signer } from "ethers";
-import { getDeployerPrivateKey } from "../config-env";
+import { getDeployerPrivateKey, getEnvName } from "../config-env";
+import { getRegistryKey, loadRegistry, recordDeployment } from "./deploymentRegistry";
 
 // Re-export for backward compatibility
 export { getDeployerPrivateKey };
@@ -168,9 +169,14 @@ export async function createDeployer(hre: HardhatRuntimeEnvironment): Promise<Un
     }
 }
 
-export async function deployOnly(artifact: string, args: any[], deployer: UniversalDeployer) {
+export async function deployOnly(artifact: string, args: any[], deployer: UniversalDeployer, hre?: HardhatRuntimeEnvironment, contractPath?: string) {
     const contract = await deployer.deploy(artifact, args);
     console.log("Deployed", artifact, "at", await contract.getAddress());
+
+    if (hre) {
+        await recordContract(contract, artifact, args, deployer, hre, { contractPath });
+    }
+
     return contract;
 }
 
@@ -178,7 +184,62 @@ export async function deployAndVerify(artifact: string, args: any[], deployer: U
     const contract = await deployer.deploy(artifact, args);
     console.log("Deployed", artifact, "at", await contract.getAddress());
 
+    await recordContract(contract, artifact, args, deployer, hre, { contractPath });
     await verifyContract(await contract.getAddress(), args, hre, contractPath);
 
     return contract;
 }
+
+export interface RecordOptions {
+    key?: string;               // registry key, defaults to the one derived from artifact name
+    implementation?: string;    // implementation address for proxies
+    contractPath?: string;
+}
+
+/**
+ * Write deployed contract to deployments/<DEPLOY_ENV>.json
+ * Skipped on the in-process hardhat network, where addresses are throwaway
+ */
+export async function recordContract(contract: Contract, artifact: string, args: any[], deployer: UniversalDeployer, hre: HardhatRuntimeEnvironment, options: RecordOptions = {}) {
+    if (hre.network.name === 'hardhat') {
+        return;
+    }
+
+    const deployTx = contract.deploymentTransaction();
+    const receipt = deployTx ? await deployTx.wait() : null;
+
+    recordDeployment(getEnvName(), options.key || getRegistryKey(artifact), {
+        address: await contract.getAddress(),
+        implementation: options.implementation,
+        artifact,
+        contractPath: options.contractPath,
+        constructorArgs: args.map(arg => typeof arg === 'bigint' ? arg.toString() : arg),
+        txHash: deployTx?.hash,
+        blockNumber: receipt?.blockNumber,
+        deployer: await deployer.getAddress(),
+        network: hre.network.name,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * Update implementation address of a recorded proxy after upgradeToAndCall
+ */
+export async function recordProxyUpgrade(hre: HardhatRuntimeEnvironment, key: string, proxyAddress: string, implementation: string) {
+    if (hre.network.name === 'hardhat') {
+        return;
+    }
+
+    const env = getEnvName();
+    const record = loadRegistry(env)[key];
+    if (!record || record.address.toLowerCase() !== proxyAddress.toLowerCase()) {
+        console.log(`⚠️  Proxy ${proxyAddress} is not recorded as ${key} in deployments/${env}.json, implementation not recorded`);
+        return;
+    }
+
+    recordDeployment(env, key, {
+        ...record,
+        implementation,
+        timestamp: new Date().toISOString(),
+    });
+}
@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Registry files live in <repo>/deployments/<DEPLOY_ENV>.json and are committed to git.
+// This module must not import hardhat: config-env.ts (and therefore hardhat.config.ts) depends on it.
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+export interface DeploymentRecord {
+    address: string;
+    implementation?: string;    // set for proxies (InventoryProxy, ReactorProxy, CrafterProxy)
+    artifact: string;
+    contractPath?: string;
+    constructorArgs: any[];
+    txHash?: string;
+    blockNumber?: number;
+    deployer: string;
+    network: string;
+    timestamp: string;          // ISO date of the deployment
+}
+
+export type DeploymentRegistry = Record<string, DeploymentRecord>;
+
+// Maps artifact names to the matching key in DeployConfig.contracts.
+// Artifacts not listed here are still recorded, under their own name.
+export const REGISTRY_KEYS: Record<string, string> = {
+    TRAX: 'trax',
+    TraxExchange: 'traxExchange',
+    TraxRedeem: 'traxRedeem',
+    InventoryProxy: 'inventoryProxy',
+    TimelockController: 'inventoryTimelock',
+    ReactorProxy: 'reactorProxy',
+    CrafterProxy: 'crafterProxy',
+    RoachRacingClubLootBoxes: 'lootbox',
+    USDC: 'usdc',
+    Shop: 'shop',
+    ShopV2: 'shopV2',
+    ROACH: 'roach',
+    ACID: 'acid',
+    VeArtProxy: 'veArtProxy',
+    VotingEscrow: 'votingEscrow',
+    RetroDrop: 'retroDrop',
+    Bank: 'bank',
+    BankV2: 'bankV2',
+    Badges: 'badges',
+    Gridle: 'gridle',
+    Claimer: 'claimer',
+};
+
+/**
+ * Resolve registry key for an artifact name or fully qualified name
+ * e.g. "contracts/velodrome/VotingEscrow.sol:VotingEscrow" -> "votingEscrow"
+ */
+export function getRegistryKey(artifact: string): string {
+    const name = artifact.includes(':') ? artifact.split(':').pop()! : artifact;
+    return REGISTRY_KEYS[name] || name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+export function getRegistryPath(env: string): string {
+    return path.join(DEPLOYMENTS_DIR, `${env}.json`);
+}
+
+export function loadRegistry(env: string): DeploymentRegistry {
+    const file = getRegistryPath(env);
+    if (!fs.existsSync(file)) {
+        return {};
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+export function saveRegistry(env: string, registry: DeploymentRegistry) {
+    fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+    fs.writeFileSync(getRegistryPath(env), JSON.stringify(registry, null, 2) + '\n');
+}
+
+/**
+ * Store deployment record under the given key, replacing the previous one
+ */
+export function recordDeployment(env: string, key: string, record: DeploymentRecord) {
+    const registry = loadRegistry(env);
+    registry[key] = record;
+    saveRegistry(env, registry);
+    console.log(`📝 Recorded ${key} at ${record.address} in deployments/${env}.json`);
+}
+
+/**
+ * Addresses from the registry, keyed by DeployConfig.contracts field
+ */
+export function getRegistryAddresses(env: string): Record<string, string> {
+    const registry = loadRegistry(env);
+    const addresses: Record<string, string> = {};
+    for (const [key, record] of Object.entries(registry)) {
+        addresses[key] = record.address;
+    }
+    return addresses;
+}
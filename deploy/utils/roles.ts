@@ -0,0 +1,79 @@
+import { Contract, Interface, Provider } from "ethers";
+import { ROLES } from "../config";
+
+export const ACCESS_CONTROL_ABI = [
+    "function hasRole(bytes32 role, address account) view returns (bool)",
+    "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+    "function grantRole(bytes32 role, address account)",
+    "function revokeRole(bytes32 role, address account)",
+    "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+    "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+];
+
+const accessControlInterface = new Interface(ACCESS_CONTROL_ABI);
+
+/**
+ * Get human-readable role name for a role hash, falls back to the hash itself
+ */
+export function getRoleName(role: string): string {
+    const entry = Object.entries(ROLES).find(([, hash]) => hash.toLowerCase() === role.toLowerCase());
+    return entry ? entry[0] : role;
+}
+
+/**
+ * Find current role holders by replaying RoleGranted/RoleRevoked events.
+ * None of our contracts use AccessControlEnumerable, so events are the only way to enumerate members.
+ * Returns role hash -> holder addresses (checked against hasRole at the latest block)
+ *
+ * @param fromBlock first block to scan, use the deployment block when known
+ * @param chunkSize max block range per eth_getLogs request
+ */
+export async function getRoleHolders(
+    provider: Provider,
+    address: string,
+    fromBlock: number = 0,
+    chunkSize: number = Number(process.env.LOGS_CHUNK_SIZE || 50_000),
+): Promise<Map<string, string[]>> {
+    const latestBlock = await provider.getBlockNumber();
+    const grantedTopic = accessControlInterface.getEvent("RoleGranted")!.topicHash;
+    const revokedTopic = accessControlInterface.getEvent("RoleRevoked")!.topicHash;
+
+    // role -> account -> granted
+    const state = new Map<string, Map<string, boolean>>();
+
+    for (let start = fromBlock; start <= latestBlock; start += chunkSize) {
+        const end = Math.min(start + chunkSize - 1, latestBlock);
+        const logs = await provider.getLogs({
+            address,
+            fromBlock: start,
+            toBlock: end,
+            topics: [[grantedTopic, revokedTopic]],
+        });
+
+        for (const log of logs) {
+            const parsed = accessControlInterface.parseLog(log);
+            if (!parsed) continue;
+            const role = (parsed.args.role as string).toLowerCase();
+            const account = parsed.args.account as string;
+            if (!state.has(role)) {
+                state.set(role, new Map());
+            }
+            state.get(role)!.set(account, parsed.name === "RoleGranted");
+        }
+    }
+
+    // Double-check against current state, events could be missed if fromBlock is too late
+    const contract = new Contract(address, ACCESS_CONTROL_ABI, provider);
+    const holders = new Map<string, string[]>();
+    for (const [role, accounts] of state) {
+        const members: string[] = [];
+        for (const [account, granted] of accounts) {
+            if (granted && await contract.hasRole(role, account)) {
+                members.push(account);
+            }
+        }
+        holders.set(role, members);
+    }
+
+    return holders;
+}
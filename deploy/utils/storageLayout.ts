@@ -0,0 +1,272 @@
+import * as fs from "fs";
+import * as path from "path";
+import {execSync} from "child_process";
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+
+// Storage layout snapshots live in <repo>/storage-layouts/<Contract>/<release>.json and are committed to git.
+// Each snapshot lists the implementations deployed from that release, so the layout of a live implementation
+// can be found from the proxy's ERC1967 slot.
+export const STORAGE_LAYOUTS_DIR = path.join(__dirname, "..", "..", "storage-layouts");
+
+// ERC1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/**
+ * One state variable, type is a canonical description independent of AST ids and contract names
+ */
+export interface StorageVariable {
+    label: string;
+    slot: number;
+    offset: number;
+    type: string;
+    bytes: number;
+}
+
+export interface StorageLayoutSnapshot {
+    contract: string;
+    release: string;
+    implementations: { network: string; address: string; timestamp: string }[];
+    storage: StorageVariable[];
+}
+
+export interface LayoutIssue {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export class StorageLayoutError extends Error {
+    constructor(contract: string, readonly issues: LayoutIssue[]) {
+        super(`Incompatible storage layout for ${contract}:\n${issues.map(issue => `  - ${issue.message}`).join('\n')}`);
+        this.name = "StorageLayoutError";
+    }
+}
+
+// solc storageLayout output
+interface SolcStorageLayout {
+    storage: { label: string; slot: string; offset: number; type: string }[];
+    types: Record<string, {
+        label: string;
+        numberOfBytes: string;
+        key?: string;
+        value?: string;
+        base?: string;
+        members?: { label: string; slot: string; offset: number; type: string }[];
+    }> | null;
+}
+
+// Contract entry of the build info output, the hardhat type does not declare storageLayout
+type ContractOutputWithLayout = { storageLayout?: SolcStorageLayout };
+
+function describeType(layout: SolcStorageLayout, typeId: string): string {
+    const type = layout.types?.[typeId];
+    if (!type) {
+        return typeId;
+    }
+    if (type.key && type.value) {
+        return `mapping(${describeType(layout, type.key)} => ${describeType(layout, type.value)})`;
+    }
+    if (type.members) {
+        const members = type.members.map(member => `${describeType(layout, member.type)} ${member.label}@${member.slot}:${member.offset}`);
+        return `struct {${members.join('; ')}}`;
+    }
+    if (type.base) {
+        return describeType(layout, type.base) + type.label.slice(type.label.lastIndexOf('['));
+    }
+    // Interfaces and contracts are stored as addresses, changing the declared type keeps the layout
+    return type.label.startsWith('contract ') ? 'address' : type.label;
+}
+
+export function normalizeStorageLayout(layout: SolcStorageLayout): StorageVariable[] {
+    return layout.storage.map(variable => ({
+        label: variable.label,
+        slot: Number(variable.slot),
+        offset: variable.offset,
+        type: describeType(layout, variable.type),
+        bytes: Number(layout.types?.[variable.type]?.numberOfBytes ?? 0),
+    }));
+}
+
+/**
+ * Storage layout of a compiled contract from its build info
+ * Needs "storageLayout" in the compiler outputSelection (hardhat.config.ts / hardhat.config.evm.ts)
+ */
+export async function getArtifactStorageLayout(hre: HardhatRuntimeEnvironment, contract: string): Promise<StorageVariable[]> {
+    const artifact = await hre.artifacts.readArtifact(contract);
+    const fullName = `${artifact.sourceName}:${artifact.contractName}`;
+    const buildInfo = await hre.artifacts.getBuildInfo(fullName);
+    const layout = (buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName] as ContractOutputWithLayout | undefined)?.storageLayout;
+    if (!layout) {
+        throw new Error(`No storage layout in the build info of ${fullName}, add "storageLayout" to outputSelection and recompile with --force`);
+    }
+    return normalizeStorageLayout(layout);
+}
+
+/**
+ * Compare the layout of a new implementation with the live one.
+ * Every existing variable must keep its slot, offset and type; new variables may only be appended.
+ * Renames keep the data and are reported as warnings.
+ */
+export function compareStorageLayouts(previous: StorageVariable[], next: StorageVariable[]): LayoutIssue[] {
+    const issues: LayoutIssue[] = [];
+    for (const variable of previous) {
+        const position = `slot ${variable.slot}, offset ${variable.offset}`;
+        const replacement = next.find(v => v.slot === variable.slot && v.offset === variable.offset);
+        if (!replacement) {
+            const moved = next.find(v => v.label === variable.label);
+            issues.push({
+                severity: 'error',
+                message: moved
+                    ? `${variable.label} moved from ${position} to slot ${moved.slot}, offset ${moved.offset}`
+                    : `${variable.label} (${position}) was removed`,
+            });
+            continue;
+        }
+        if (replacement.type !== variable.type || replacement.bytes !== variable.bytes) {
+            issues.push({
+                severity: 'error',
+                message: `${variable.label} (${position}) changed type from ${variable.type} to ${replacement.type}`,
+            });
+        } else if (replacement.label !== variable.label) {
+            issues.push({
+                severity: 'warning',
+                message: `${variable.label} (${position}) was renamed to ${replacement.label}`,
+            });
+        }
+    }
+
+    // Anything new must start after the last byte used by the previous layout
+    const last = previous[previous.length - 1];
+    const end = last ? last.slot * 32 + last.offset + last.bytes : 0;
+    for (const variable of next) {
+        const known = previous.some(v => v.slot === variable.slot && v.offset === variable.offset);
+        if (!known && variable.slot * 32 + variable.offset < end) {
+            issues.push({
+                severity: 'error',
+                message: `${variable.label} was inserted at slot ${variable.slot}, offset ${variable.offset}, new variables must be appended`,
+            });
+        }
+    }
+    return issues;
+}
+
+function getSnapshotPath(contract: string, release: string): string {
+    return path.join(STORAGE_LAYOUTS_DIR, contract, `${release}.json`);
+}
+
+export function hasStorageLayoutSnapshot(contract: string, release: string): boolean {
+    return fs.existsSync(getSnapshotPath(contract, release));
+}
+
+export function loadStorageLayoutSnapshots(contract: string): StorageLayoutSnapshot[] {
+    const dir = path.join(STORAGE_LAYOUTS_DIR, contract);
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .map(file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+}
+
+/**
+ * Snapshot of the release the implementation was deployed from
+ */
+export function findStorageLayoutSnapshot(contract: string, implementation: string): StorageLayoutSnapshot | undefined {
+    return loadStorageLayoutSnapshots(contract)
+        .find(snapshot => snapshot.implementations.some(impl => impl.address.toLowerCase() === implementation.toLowerCase()));
+}
+
+/**
+ * Release name of the snapshot written for this checkout: RELEASE (e.g. v1.1.0), or the release tag on HEAD
+ */
+export function getReleaseName(): string {
+    if (process.env.RELEASE) {
+        return process.env.RELEASE;
+    }
+    try {
+        return execSync('git describe --tags --exact-match', {encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore']}).trim();
+    } catch (error) {
+        throw new Error("HEAD has no release tag, set RELEASE to the version being deployed (e.g. RELEASE=v1.1.0)");
+    }
+}
+
+/**
+ * Add an implementation to the snapshot of its release, creating the snapshot on first use.
+ * Without storage the release must already have a snapshot (e.g. attaching a live implementation to a past release).
+ * Refuses to reuse a release name for a different layout.
+ */
+export function recordStorageLayout(contract: string, release: string, storage: StorageVariable[] | undefined, implementation: { network: string; address: string }) {
+    const file = getSnapshotPath(contract, release);
+    let snapshot: StorageLayoutSnapshot;
+    if (fs.existsSync(file)) {
+        snapshot = JSON.parse(fs.readFileSync(file, 'utf8'));
+        if (storage && JSON.stringify(snapshot.storage) !== JSON.stringify(storage)) {
+            throw new Error(`storage-layouts/${contract}/${release}.json was recorded with a different layout, set RELEASE to a new name`);
+        }
+    } else if (storage) {
+        snapshot = {contract, release, implementations: [], storage};
+    } else {
+        throw new Error(`No storage-layouts/${contract}/${release}.json`);
+    }
+
+    if (!snapshot.implementations.some(impl => impl.address.toLowerCase() === implementation.address.toLowerCase())) {
+        snapshot.implementations.push({...implementation, timestamp: new Date().toISOString()});
+    }
+
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+    console.log(`📝 Recorded ${contract} layout for ${implementation.address} in storage-layouts/${contract}/${release}.json`);
+}
+
+export async function getImplementationAddress(hre: HardhatRuntimeEnvironment, proxyAddress: string): Promise<string> {
+    const value = await hre.ethers.provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT);
+    return hre.ethers.getAddress("0x" + value.slice(-40));
+}
+
+/**
+ * Check the compiled contract against the recorded layout of the proxy's live implementation.
+ * Throws StorageLayoutError for incompatible layouts and when the live implementation has no snapshot,
+ * unless BASELINE_RELEASE names the release to compare against instead.
+ * Returns the new layout, to be recorded with recordStorageLayout once the new implementation is deployed.
+ */
+export async function validateUpgradeLayout(hre: HardhatRuntimeEnvironment, contract: string, proxyAddress: string): Promise<StorageVariable[]> {
+    const next = await getArtifactStorageLayout(hre, contract);
+    const liveImplementation = await getImplementationAddress(hre, proxyAddress);
+
+    console.log(`\n🔍 Checking ${contract} storage layout against live implementation ${liveImplementation}...`);
+    let snapshot = findStorageLayoutSnapshot(contract, liveImplementation);
+    if (!snapshot && process.env.BASELINE_RELEASE) {
+        // Explicit opt-in for implementations deployed before their addresses were recorded
+        const baseline = process.env.BASELINE_RELEASE;
+        snapshot = loadStorageLayoutSnapshots(contract).find(candidate => candidate.release === baseline);
+        if (!snapshot) {
+            throw new Error(`BASELINE_RELEASE=${baseline} but there is no storage-layouts/${contract}/${baseline}.json`);
+        }
+        console.log(`  ⚠️  ${liveImplementation} is in no snapshot, comparing against release ${baseline} (BASELINE_RELEASE)`);
+    }
+    if (!snapshot) {
+        throw new StorageLayoutError(contract, [{
+            severity: 'error',
+            message: `no snapshot in storage-layouts/${contract} lists ${liveImplementation}, attach it to the release it was deployed from with storage-layout.ts (LAYOUT_MODE=record RELEASE=<release>) or set BASELINE_RELEASE=<release> to compare against that release`,
+        }]);
+    }
+
+    const issues = compareStorageLayouts(snapshot.storage, next);
+    for (const issue of issues.filter(i => i.severity === 'warning')) {
+        console.log(`  ⚠️  ${issue.message}`);
+    }
+    const errors = issues.filter(i => i.severity === 'error');
+    if (errors.length > 0) {
+        throw new StorageLayoutError(contract, errors);
+    }
+
+    // recordStorageLayout runs after the upgrade, catch a reused release name before anything is deployed
+    const release = getReleaseName();
+    const current = loadStorageLayoutSnapshots(contract).find(candidate => candidate.release === release);
+    if (current && JSON.stringify(current.storage) !== JSON.stringify(next)) {
+        throw new Error(`storage-layouts/${contract}/${release}.json was recorded with a different layout, set RELEASE to a new name`);
+    }
+
+    const added = next.length - snapshot.storage.length;
+    console.log(`  ✅ Compatible with release ${snapshot.release}${added > 0 ? `, ${added} variable(s) appended` : ''}`);
+    return next;
+}
@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as readline from "readline";
+import { Result } from "ethers";
+
+/**
+ * Auto-confirm prompts in CI: --yes flag (hardhat run) or SYNC_YES=1
+ */
+export function isAutoConfirm(): boolean {
+    return process.argv.includes('--yes') || process.env.SYNC_YES === '1';
+}
+
+/**
+ * Ask user for confirmation, answers yes without prompting when auto-confirm is enabled
+ */
+export async function askConfirmation(question: string): Promise<boolean> {
+    if (isAutoConfirm()) {
+        console.log(`${question} (auto-confirmed)`);
+        return true;
+    }
+
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout
+    });
+
+    return new Promise((resolve) => {
+        rl.question(`${question} (y/N): `, (answer) => {
+            rl.close();
+            resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+        });
+    });
+}
+
+/**
+ * Write machine-readable diff report to REPORT_FILE (if set)
+ * bigint values are written as decimal strings, contract call results as plain objects
+ */
+export function writeDiffReport(name: string, network: string, report: Record<string, any>, totalChanges: number) {
+    const file = process.env.REPORT_FILE;
+    if (!file) return;
+
+    const content = {
+        script: name,
+        network,
+        timestamp: new Date().toISOString(),
+        inSync: totalChanges === 0,
+        totalChanges,
+        ...report,
+    };
+
+    fs.writeFileSync(file, JSON.stringify(toPlain(content), null, 2));
+    console.log(`📄 Diff report written to ${file}`);
+}
+
+/**
+ * Fail the run when chain state drifted from config (SYNC_MODE=check)
+ */
+export function assertNoDrift(totalChanges: number) {
+    if (totalChanges > 0) {
+        throw new Error(`Drift detected: ${totalChanges} change(s) needed to match config`);
+    }
+    console.log("✅ No drift detected");
+}
+
+function toPlain(value: any): any {
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (value instanceof Result) {
+        try {
+            return toPlain(value.toObject());
+        } catch {
+            // Unnamed values
+            return Array.from(value).map(toPlain);
+        }
+    }
+    if (Array.isArray(value)) {
+        return value.map(toPlain);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlain(item)]));
+    }
+    return value;
+}
@@ -0,0 +1,39 @@
+import {HardhatRuntimeEnvironment} from "hardhat/types";
+import {configs} from "./config-env";
+import {validateConfig} from "./utils/configValidation";
+
+// Validate every environment in deploy/environments/ without sending transactions
+// Usage: npm run validate-configs
+
+export default async function (hre: HardhatRuntimeEnvironment) {
+    const networks = Object.keys(hre.config.networks);
+    let invalid = 0;
+
+    for (const [env, config] of Object.entries(configs)) {
+        const errors = validateConfig(config, networks);
+        if (errors.length === 0) {
+            console.log(`✅ ${env} (${config.network})`);
+            continue;
+        }
+
+        invalid++;
+        console.log(`\n❌ ${env} (${config.network}): ${errors.length} problem(s)`);
+        errors.forEach(error => console.log(`    • ${error}`));
+        console.log();
+    }
+
+    if (invalid > 0) {
+        throw new Error(`${invalid} of ${Object.keys(configs).length} environment(s) have invalid configuration`);
+    }
+}
+
+// Support for `hardhat run`
+if (require.main === module) {
+    const hre = require("hardhat") as HardhatRuntimeEnvironment;
+    module.exports.default(hre)
+        .then(() => process.exit(0))
+        .catch((error: Error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
@@ -78,6 +78,8 @@ const config: HardhatUserConfig = {
                         runs: 200,
                     },
                     evmVersion: "paris",
+                    // storageLayout is read by the upgrade scripts, see deploy/utils/storageLayout.ts
+                    outputSelection: { "*": { "*": ["storageLayout"] } },
                 },
             },
             {
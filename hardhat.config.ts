@@ -88,7 +88,11 @@ const config: HardhatUserConfig = {
 
     solidity: {
         compilers: [
-            { version: "0.8.24" },
+            {
+                version: "0.8.24",
+                // storageLayout is read by the upgrade scripts, see deploy/utils/storageLayout.ts
+                settings: { outputSelection: { "*": { "*": ["storageLayout"] } } },
+            },
             { version: "0.8.13" },  // for Velodrome contracts
         ],
     },
@@ -0,0 +1,2 @@
+// Reactor status client for the game UI, see README "Reactor status"
+export * from "./status";
@@ -0,0 +1,106 @@
+import { Contract, ContractRunner } from "ethers";
+
+const REACTOR_STATUS_ABI = [
+    "function getReactorStatus(address user) view returns (tuple(uint256 itemId, uint256 seriesId, uint256 activationLevel, bool canActivate, uint256[] batteryHistory, uint256 predictedFinalItemId, uint256 activeUntil, uint256 remainingTime)[] reactors)",
+    "function activationCount() view returns (uint256)",
+];
+
+/**
+ * One owned reactor item, Reactor.ReactorStatus
+ */
+export interface ReactorStatus {
+    itemId: number;
+    seriesId: number;
+    activationLevel: number;
+    canActivate: boolean;
+    batteryHistory: number[];
+    // Final variant from the batteries used so far, the last battery can still raise it
+    predictedFinalItemId: number;
+    // Unix seconds, the series can be activated again once it has passed (cooldowns are per series)
+    activeUntil: number;
+    remainingTime: number;
+}
+
+export interface UserReactorStatus {
+    reactors: ReactorStatus[];
+    activationCount: number;
+}
+
+/**
+ * Reactor status of a user from Reactor.getReactorStatus, in one call instead of reading the raw mappings
+ */
+export async function fetchReactorStatus(runner: ContractRunner, reactor: string, user: string): Promise<UserReactorStatus> {
+    const contract = new Contract(reactor, REACTOR_STATUS_ABI, runner);
+    const [reactors, activationCount] = await Promise.all([
+        contract.getReactorStatus(user),
+        contract.activationCount(),
+    ]);
+    return {
+        reactors: reactors.map((r: any) => ({
+            itemId: Number(r.itemId),
+            seriesId: Number(r.seriesId),
+            activationLevel: Number(r.activationLevel),
+            canActivate: r.canActivate,
+            batteryHistory: r.batteryHistory.map(Number),
+            predictedFinalItemId: Number(r.predictedFinalItemId),
+            activeUntil: Number(r.activeUntil),
+            remainingTime: Number(r.remainingTime),
+        })),
+        activationCount: Number(activationCount),
+    };
+}
+
+/**
+ * ready: can be activated now; cooldown: can be activated once the running activation of its series ends; complete: final variant
+ */
+export type ReactorState = "ready" | "cooldown" | "complete";
+
+export interface ReactorView {
+    itemId: number;
+    name: string;
+    seriesName: string;
+    state: ReactorState;
+    // e.g. "2/4"
+    progress: string;
+    batteries: string[];
+    predictedFinal: string;
+    // e.g. "12m 30s", empty when no activation of the series is running
+    cooldown: string;
+    readyAt?: Date;
+}
+
+export interface RenderOptions {
+    // Display name of an item ID, defaults to "#<id>"
+    itemName?: (itemId: number) => string;
+}
+
+/**
+ * Seconds as "1h 5m", "12m 30s" or "45s"
+ */
+export function formatDuration(seconds: number): string {
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    if (h > 0) {
+        return `${h}h ${m}m`;
+    }
+    return m > 0 ? `${m}m ${s}s` : `${s}s`;
+}
+
+/**
+ * Display model of a user's reactors for the game UI
+ */
+export function renderReactorStatus(status: UserReactorStatus, options: RenderOptions = {}): ReactorView[] {
+    const name = options.itemName ?? ((itemId: number) => `#${itemId}`);
+    return status.reactors.map(reactor => ({
+        itemId: reactor.itemId,
+        name: name(reactor.itemId),
+        seriesName: name(reactor.seriesId),
+        state: !reactor.canActivate ? "complete" : reactor.remainingTime > 0 ? "cooldown" : "ready",
+        progress: `${reactor.activationLevel}/${status.activationCount}`,
+        batteries: reactor.batteryHistory.map(name),
+        predictedFinal: name(reactor.predictedFinalItemId),
+        cooldown: reactor.remainingTime > 0 ? formatDuration(reactor.remainingTime) : "",
+        readyAt: reactor.remainingTime > 0 ? new Date(reactor.activeUntil * 1000) : undefined,
+    }));
+}
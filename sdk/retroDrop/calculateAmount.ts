@@ -0,0 +1,67 @@
+import { BigNumberish, MaxUint256, toBigInt } from "ethers";
+
+// RetroDrop.PRECISION
+const PRECISION = 10n ** 18n;
+
+/**
+ * Parameters of a deployed RetroDrop: DIVISOR is MAX_LOCK_WEEKS + 1
+ */
+export interface RetroDropParams {
+    maxLockWeeks: BigNumberish;
+}
+
+// Checked uint256 arithmetic, Solidity reverts with a panic where these throw
+function checked(value: bigint): bigint {
+    if (value < 0n || value > MaxUint256) {
+        throw new RangeError("uint256 overflow");
+    }
+    return value;
+}
+
+/**
+ * RetroDrop._sqrt: Babylonian integer square root, rounded down
+ */
+export function retroDropSqrt(x: bigint): bigint {
+    checked(x);
+    if (x === 0n) {
+        return 0n;
+    }
+    let z = checked(x + 1n) / 2n;
+    let y = x;
+    while (z < y) {
+        y = z;
+        z = (x / z + z) / 2n;
+    }
+    return y;
+}
+
+/**
+ * RetroDrop.calculateAmount: roachMax * sqrt((lockWeeks + 1) / DIVISOR), bit-exact with the contract
+ */
+export function calculateRetroDropAmount(roachMax: BigNumberish, lockWeeks: BigNumberish, params: RetroDropParams): bigint {
+    const divisor = checked(toBigInt(params.maxLockWeeks) + 1n);
+    const numerator = checked(checked(toBigInt(lockWeeks) + 1n) * PRECISION);
+    const denominator = checked(divisor * PRECISION);
+    return checked(toBigInt(roachMax) * retroDropSqrt(numerator)) / retroDropSqrt(denominator);
+}
+
+/**
+ * RetroDrop.previewClaim: 0 for lockWeeks above MAX_LOCK_WEEKS
+ */
+export function previewRetroDropClaim(roachMax: BigNumberish, lockWeeks: BigNumberish, params: RetroDropParams): bigint {
+    if (toBigInt(lockWeeks) > toBigInt(params.maxLockWeeks)) {
+        return 0n;
+    }
+    return calculateRetroDropAmount(roachMax, lockWeeks, params);
+}
+
+/**
+ * Amount for every lockWeeks choice 0..MAX_LOCK_WEEKS, index = lockWeeks
+ */
+export function previewRetroDropClaims(roachMax: BigNumberish, params: RetroDropParams): bigint[] {
+    const amounts: bigint[] = [];
+    for (let lockWeeks = 0n; lockWeeks <= toBigInt(params.maxLockWeeks); lockWeeks++) {
+        amounts.push(calculateRetroDropAmount(roachMax, lockWeeks, params));
+    }
+    return amounts;
+}
@@ -0,0 +1,4 @@
+// Off-chain helpers for RetroDrop, see README "RetroDrop Merkle mode" and "RetroDrop claim window"
+export * from "./calculateAmount";
+export * from "./merkleTree";
+export * from "./report";
@@ -0,0 +1,120 @@
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+
+/**
+ * One leaf of the RetroDrop Merkle tree
+ */
+export interface RetroDropAllocation {
+    account: string;
+    // Maximum claimable amount at MAX_LOCK_WEEKS lock (wei)
+    roachMax: bigint;
+}
+
+/**
+ * Proofs file consumed by the frontend: claimWithProof(lockWeeks, roachMax, proof)
+ */
+export interface RetroDropProofs {
+    merkleRoot: string;
+    // Sum of roachMax, the most the drop can pay out
+    total: string;
+    claims: Record<string, { roachMax: string; proof: string[] }>;
+}
+
+/**
+ * RetroDrop.claimWithProof leaf: keccak256(bytes.concat(keccak256(abi.encode(account, roachMax))))
+ * Same encoding as OpenZeppelin StandardMerkleTree with ["address", "uint256"]
+ */
+export function retroDropLeaf(account: string, roachMax: bigint): string {
+    return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [account, roachMax])));
+}
+
+// MerkleProof.verify hashes sorted pairs
+function hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Merkle tree of RetroDrop allocations, laid out like OpenZeppelin StandardMerkleTree
+ * (leaves sorted by hash, stored at the end of a complete binary tree array)
+ */
+export class RetroDropMerkleTree {
+    private readonly tree: string[];
+    // account (checksummed) => index in tree
+    private readonly leafIndex = new Map<string, number>();
+
+    constructor(readonly allocations: RetroDropAllocation[]) {
+        if (allocations.length === 0) {
+            throw new Error("No allocations");
+        }
+        const leaves = allocations.map(allocation => {
+            const account = getAddress(allocation.account);
+            if (this.leafIndex.has(account)) {
+                throw new Error(`Duplicate account ${account}`);
+            }
+            this.leafIndex.set(account, -1);
+            return { account, hash: retroDropLeaf(account, allocation.roachMax) };
+        }).sort((a, b) => (BigInt(a.hash) < BigInt(b.hash) ? -1 : 1));
+
+        this.tree = new Array(2 * leaves.length - 1);
+        leaves.forEach((leaf, i) => {
+            const index = this.tree.length - 1 - i;
+            this.tree[index] = leaf.hash;
+            this.leafIndex.set(leaf.account, index);
+        });
+        for (let i = this.tree.length - 1 - leaves.length; i >= 0; i--) {
+            this.tree[i] = hashPair(this.tree[2 * i + 1], this.tree[2 * i + 2]);
+        }
+    }
+
+    get root(): string {
+        return this.tree[0];
+    }
+
+    get total(): bigint {
+        return this.allocations.reduce((sum, allocation) => sum + allocation.roachMax, 0n);
+    }
+
+    getProof(account: string): string[] {
+        let index = this.leafIndex.get(getAddress(account));
+        if (index === undefined) {
+            throw new Error(`${account} is not in the tree`);
+        }
+        const proof: string[] = [];
+        while (index > 0) {
+            proof.push(this.tree[index % 2 === 0 ? index - 1 : index + 1]);
+            index = Math.floor((index - 1) / 2);
+        }
+        return proof;
+    }
+
+    toJSON(): RetroDropProofs {
+        const claims: RetroDropProofs["claims"] = {};
+        for (const allocation of this.allocations) {
+            const account = getAddress(allocation.account);
+            claims[account] = { roachMax: allocation.roachMax.toString(), proof: this.getProof(account) };
+        }
+        return { merkleRoot: this.root, total: this.total.toString(), claims };
+    }
+}
+
+/**
+ * Parse `account,roachMax` CSV lines (roachMax in wei), a header line and empty lines are skipped
+ */
+export function parseAllocationsCsv(csv: string): RetroDropAllocation[] {
+    const allocations: RetroDropAllocation[] = [];
+    csv.split(/\r?\n/).forEach((line, i) => {
+        const [account, roachMax] = line.split(",").map(cell => cell.trim());
+        if (!account || (i === 0 && !/^0x/i.test(account))) {
+            return;
+        }
+        try {
+            const allocation = { account: getAddress(account), roachMax: BigInt(roachMax) };
+            if (allocation.roachMax <= 0n) {
+                throw new Error();
+            }
+            allocations.push(allocation);
+        } catch {
+            throw new Error(`Line ${i + 1}: expected "account,roachMax" with a positive roachMax in wei, got "${line}"`);
+        }
+    });
+    return allocations;
+}
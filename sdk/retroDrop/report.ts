@@ -0,0 +1,110 @@
+import { Interface, Provider } from "ethers";
+
+const CLAIMED_EVENTS = [
+    "event Claimed(address indexed account, uint256 indexed signId, uint256 roachMax, uint256 lockWeeks, uint256 actualAmount, uint256 tokenId)",
+    "event ClaimedWithProof(address indexed account, uint256 roachMax, uint256 lockWeeks, uint256 actualAmount, uint256 tokenId)",
+];
+
+/**
+ * One RetroDrop Claimed (claim) or ClaimedWithProof (claimWithProof) event
+ */
+export interface RetroDropClaim {
+    account: string;
+    // undefined for claimWithProof
+    signId?: bigint;
+    roachMax: bigint;
+    lockWeeks: number;
+    actualAmount: bigint;
+    // VotingEscrow NFT id, 0 for a direct transfer
+    tokenId: bigint;
+    txHash: string;
+    blockNumber: number;
+}
+
+export interface RetroDropReport {
+    claims: number;
+    accounts: number;
+    merkleClaims: number;
+    totalRoachMax: bigint;
+    totalClaimed: bigint;
+    // Part of totalClaimed locked in VotingEscrow
+    totalLocked: bigint;
+    // lockWeeks => number of claims and amount claimed
+    lockWeeks: Record<number, { claims: number; amount: bigint }>;
+    tokenIds: bigint[];
+}
+
+export interface ClaimScanOptions {
+    fromBlock: number;
+    toBlock?: number;
+    // getLogs window, RPCs limit the range of a single query (default 10000)
+    blockRange?: number;
+}
+
+/**
+ * Claimed and ClaimedWithProof events of a RetroDrop in [fromBlock, toBlock], in chain order
+ */
+export async function findRetroDropClaims(provider: Provider, contract: string, options: ClaimScanOptions): Promise<RetroDropClaim[]> {
+    const iface = new Interface(CLAIMED_EVENTS);
+    const topics = [iface.getEvent("Claimed")!.topicHash, iface.getEvent("ClaimedWithProof")!.topicHash];
+    const toBlock = options.toBlock ?? await provider.getBlockNumber();
+    const blockRange = options.blockRange ?? 10000;
+
+    const claims: RetroDropClaim[] = [];
+    for (let from = options.fromBlock; from <= toBlock; from += blockRange) {
+        const logs = await provider.getLogs({
+            address: contract,
+            topics: [topics],
+            fromBlock: from,
+            toBlock: Math.min(from + blockRange - 1, toBlock),
+        });
+        for (const log of logs) {
+            const parsed = iface.parseLog(log);
+            if (!parsed) {
+                continue;
+            }
+            claims.push({
+                account: parsed.args.account,
+                signId: parsed.name === "Claimed" ? parsed.args.signId : undefined,
+                roachMax: parsed.args.roachMax,
+                lockWeeks: Number(parsed.args.lockWeeks),
+                actualAmount: parsed.args.actualAmount,
+                tokenId: parsed.args.tokenId,
+                txHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+            });
+        }
+    }
+    return claims;
+}
+
+/**
+ * Totals, lockWeeks distribution and VotingEscrow token ids of a set of claims
+ */
+export function summarizeRetroDropClaims(claims: RetroDropClaim[]): RetroDropReport {
+    const report: RetroDropReport = {
+        claims: claims.length,
+        accounts: new Set(claims.map(claim => claim.account.toLowerCase())).size,
+        merkleClaims: 0,
+        totalRoachMax: 0n,
+        totalClaimed: 0n,
+        totalLocked: 0n,
+        lockWeeks: {},
+        tokenIds: [],
+    };
+    for (const claim of claims) {
+        report.totalRoachMax += claim.roachMax;
+        report.totalClaimed += claim.actualAmount;
+        if (claim.signId === undefined) {
+            report.merkleClaims++;
+        }
+        if (claim.tokenId !== 0n) {
+            report.totalLocked += claim.actualAmount;
+            report.tokenIds.push(claim.tokenId);
+        }
+        const bucket = report.lockWeeks[claim.lockWeeks] ??= { claims: 0, amount: 0n };
+        bucket.claims++;
+        bucket.amount += claim.actualAmount;
+    }
+    return report;
+}
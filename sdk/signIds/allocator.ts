@@ -0,0 +1,104 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { SignIdContractType } from "./sources";
+
+/**
+ * What a signId was issued for, kept so reconciliation can tell consumed, pending and expired signatures apart
+ */
+export interface IssuedSignId {
+    kind: string;
+    account: string;
+    // Unix seconds, absent for messages without a deadline (Gridle.claimEth, token use, Badges)
+    deadline?: number;
+    issuedAt: number;
+}
+
+export interface AllocatedContract {
+    type: SignIdContractType;
+    nextSignId: string;
+    issued: Record<string, IssuedSignId>;
+}
+
+export interface AllocatorData {
+    // contract address (lowercase) => allocation state
+    contracts: Record<string, AllocatedContract>;
+}
+
+/**
+ * Hands out signIds per contract and records what each one was issued for, persisted to a JSON file after
+ * every change (in memory only without a file).
+ *
+ * signIds grow monotonically per contract: Gridle, GridleToken and Bank only run auto-withdrawal for a signId
+ * above lastSignId, so a smaller id would be accepted but skip it. Use `ensureAbove` with the on-chain
+ * lastSignId when starting from a fresh file against existing contracts.
+ */
+export class SignIdAllocator<T extends AllocatorData = AllocatorData> {
+    protected data: T;
+
+    /**
+     * @param file JSON file to load and persist to
+     * @param firstSignId signId for contracts seen for the first time. Defaults to the current time in ms,
+     *                    so a fresh file does not reissue signIds already used on a long-running node
+     */
+    constructor(protected readonly file?: string, private readonly firstSignId: bigint = BigInt(Date.now())) {
+        this.data = file && existsSync(file)
+            ? JSON.parse(readFileSync(file, "utf8"))
+            : this.emptyData();
+    }
+
+    /**
+     * Reserve the next signId of a contract and record what it was issued for
+     */
+    allocate(contract: string, type: SignIdContractType, issued: IssuedSignId): bigint {
+        const state = this.contractState(contract, type);
+        const signId = BigInt(state.nextSignId);
+        state.nextSignId = (signId + 1n).toString();
+        state.issued[signId.toString()] = { ...issued, account: issued.account.toLowerCase() };
+        this.save();
+        return signId;
+    }
+
+    /**
+     * Make sure the next allocated signId is above `signId`, e.g. the on-chain lastSignId
+     */
+    ensureAbove(contract: string, type: SignIdContractType, signId: bigint) {
+        const state = this.contractState(contract, type);
+        if (BigInt(state.nextSignId) <= signId) {
+            state.nextSignId = (signId + 1n).toString();
+            this.save();
+        }
+    }
+
+    issued(contract: string, signId: bigint): IssuedSignId | undefined {
+        return this.data.contracts[contract.toLowerCase()]?.issued[signId.toString()];
+    }
+
+    /**
+     * Contracts with at least one allocation, keyed by lowercase address
+     */
+    contracts(): Record<string, AllocatedContract> {
+        return this.data.contracts;
+    }
+
+    protected emptyData(): T {
+        return { contracts: {} } as T;
+    }
+
+    protected save() {
+        if (!this.file) {
+            return;
+        }
+        // Write to a temp file first, a crash mid-write must not lose issued signIds
+        const tmp = `${this.file}.tmp`;
+        writeFileSync(tmp, JSON.stringify(this.data, null, 2));
+        renameSync(tmp, this.file);
+    }
+
+    private contractState(contract: string, type: SignIdContractType): AllocatedContract {
+        const key = contract.toLowerCase();
+        const state = this.data.contracts[key] ??= { type, nextSignId: this.firstSignId.toString(), issued: {} };
+        if (state.type !== type) {
+            throw new Error(`${contract} is allocated as ${state.type}, not ${type}`);
+        }
+        return state;
+    }
+}
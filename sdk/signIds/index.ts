@@ -0,0 +1,4 @@
+// signId allocation per contract and reconciliation of issued signIds with on-chain state, see README "signId allocation"
+export * from "./sources";
+export * from "./allocator";
+export * from "./reconcile";
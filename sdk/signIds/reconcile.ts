@@ -0,0 +1,122 @@
+import { Contract, FunctionFragment, Interface, Provider } from "ethers";
+import { AllocatedContract, IssuedSignId } from "./allocator";
+import { SIGN_ID_SOURCES, SignIdContractType } from "./sources";
+
+/**
+ * consumed: used on-chain; pending: not used yet and still valid; expired: not used and past its deadline, can never land
+ */
+export type SignIdStatus = "consumed" | "pending" | "expired";
+
+export interface SignIdEvent {
+    event: string;
+    txHash: string;
+    blockNumber: number;
+    account?: string;
+}
+
+export interface SignIdReport extends Partial<IssuedSignId> {
+    contract: string;
+    type: SignIdContractType;
+    signId: string;
+    status: SignIdStatus;
+    // Set when the consuming event was found in the scanned block range
+    consumedBy?: SignIdEvent;
+}
+
+export interface ReconcileOptions {
+    fromBlock: number;
+    toBlock?: number;
+    // getLogs window, RPCs limit the range of a single query (default 10000)
+    blockRange?: number;
+    // Current time in seconds to compare deadlines with, defaults to the latest block timestamp
+    now?: number;
+}
+
+/**
+ * Events consuming signIds of a contract in [fromBlock, toBlock], keyed by signId
+ */
+export async function findSignIdEvents(
+    provider: Provider,
+    contract: string,
+    type: SignIdContractType,
+    options: ReconcileOptions,
+): Promise<Map<string, SignIdEvent>> {
+    const iface = new Interface(SIGN_ID_SOURCES[type].events);
+    const topics: string[] = [];
+    iface.forEachEvent(event => topics.push(event.topicHash));
+    const toBlock = options.toBlock ?? await provider.getBlockNumber();
+    const blockRange = options.blockRange ?? 10000;
+
+    const found = new Map<string, SignIdEvent>();
+    for (let from = options.fromBlock; from <= toBlock; from += blockRange) {
+        const logs = await provider.getLogs({
+            address: contract,
+            topics: [topics],
+            fromBlock: from,
+            toBlock: Math.min(from + blockRange - 1, toBlock),
+        });
+        for (const log of logs) {
+            const parsed = iface.parseLog(log);
+            if (!parsed) {
+                continue;
+            }
+            const signId = parsed.args.getValue(parsed.fragment.inputs.some(input => input.name === "signId") ? "signId" : "id");
+            const accountInput = parsed.fragment.inputs.find(input => input.type === "address" && input.name !== "token");
+            found.set(signId.toString(), {
+                event: parsed.name,
+                txHash: log.transactionHash,
+                blockNumber: log.blockNumber,
+                account: accountInput ? parsed.args.getValue(accountInput.name) : undefined,
+            });
+        }
+    }
+    return found;
+}
+
+/**
+ * Check signIds of one contract against the used-signId view and consuming events
+ */
+export async function reconcileSignIds(
+    provider: Provider,
+    contract: string,
+    type: SignIdContractType,
+    signIds: Array<{ signId: bigint; issued?: IssuedSignId }>,
+    options: ReconcileOptions,
+): Promise<SignIdReport[]> {
+    const source = SIGN_ID_SOURCES[type];
+    const usedView = source.usedFunction ? new Contract(contract, [source.usedFunction], provider) : undefined;
+    const usedFunction = source.usedFunction ? FunctionFragment.from(source.usedFunction).name : undefined;
+    const events = await findSignIdEvents(provider, contract, type, options);
+    const now = options.now ?? (await provider.getBlock("latest"))!.timestamp;
+
+    const reports: SignIdReport[] = [];
+    for (const { signId, issued } of signIds) {
+        const consumedBy = events.get(signId.toString());
+        // The view is authoritative, events may be outside the scanned range
+        const used = usedView && usedFunction
+            ? await usedView.getFunction(usedFunction)(signId) as boolean
+            : consumedBy !== undefined;
+
+        let status: SignIdStatus = "pending";
+        if (used) {
+            status = "consumed";
+        } else if (issued?.deadline !== undefined && now > issued.deadline) {
+            status = "expired";
+        }
+        reports.push({ contract, type, signId: signId.toString(), ...issued, status, consumedBy });
+    }
+    return reports;
+}
+
+/**
+ * Reconcile every signId the allocator issued for a contract
+ */
+export function reconcileAllocated(
+    provider: Provider,
+    contract: string,
+    state: AllocatedContract,
+    options: ReconcileOptions,
+): Promise<SignIdReport[]> {
+    const signIds = Object.entries(state.issued).map(([signId, issued]) => ({ signId: BigInt(signId), issued }));
+    return reconcileSignIds(provider, contract, state.type, signIds, options);
+}
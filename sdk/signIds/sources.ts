@@ -0,0 +1,94 @@
+/**
+ * Signature-gated contracts whose signIds are allocated and reconciled
+ */
+export type SignIdContractType =
+    | "inventory"
+    | "claimer"
+    | "bankV2"
+    | "retroDrop"
+    | "gridle"
+    | "gridleToken"
+    | "bank"
+    | "badges"
+    | "trax"
+    | "acid"
+    | "roach";
+
+/**
+ * Where a contract records consumed signIds
+ */
+export interface SignIdSource {
+    // View returning true for a consumed signId, Badges has none and is reconciled from events only
+    usedFunction?: string;
+    // Events carrying the signId (named `signId`, or `id` for TRAX / ACID / ROACH)
+    events: string[];
+}
+
+const TOKEN_USED_EVENT = "event Used(uint256 indexed id, uint256 value, address indexed sender, uint256 indexed param)";
+
+export const SIGN_ID_SOURCES: Record<SignIdContractType, SignIdSource> = {
+    inventory: {
+        usedFunction: "function usedSignId(uint256) view returns (bool)",
+        events: [
+            "event Claimed(uint indexed signId, address indexed account, uint256 indexed tokenId, uint amount, bytes data)",
+            "event SignUsed(uint indexed signId, address indexed account, uint256 indexed id, uint amount, bytes data)",
+        ],
+    },
+    claimer: {
+        usedFunction: "function isSignIdUsed(uint256) view returns (bool)",
+        events: [
+            "event Claimed(address indexed account, address indexed token, uint256 value, uint256 deadline, uint256 signId)",
+            "event ClaimedEth(address indexed account, uint256 value, uint256 deadline, uint256 signId)",
+            "event ClaimedTrax(address indexed account, uint256 value, uint256 deadline, uint256 signId)",
+        ],
+    },
+    bankV2: {
+        usedFunction: "function isSignIdUsed(uint256) view returns (bool)",
+        events: [
+            "event Used(uint256 indexed signId, uint256 value, address indexed token, address indexed sender, uint256 param)",
+            "event Claimed(address indexed account, address indexed token, uint256 value, uint256 deadline, uint256 signId)",
+        ],
+    },
+    retroDrop: {
+        usedFunction: "function isSignIdUsed(uint256) view returns (bool)",
+        events: [
+            "event Claimed(address indexed account, uint256 indexed signId, uint256 roachMax, uint256 lockWeeks, uint256 actualAmount, uint256 tokenId)",
+        ],
+    },
+    gridle: {
+        usedFunction: "function processedOrders(uint256) view returns (bool)",
+        events: [
+            "event EthDeposited(uint indexed signId, address indexed depositor, uint256 amount)",
+            "event EthClaimed(uint indexed signId, address indexed account, uint256 amount)",
+        ],
+    },
+    gridleToken: {
+        usedFunction: "function processedOrders(uint256) view returns (bool)",
+        events: [
+            "event TokenDeposited(uint indexed signId, address indexed depositor, address indexed token, uint256 amount)",
+            "event TokenClaimed(uint indexed signId, address indexed account, address indexed token, uint256 amount)",
+        ],
+    },
+    bank: {
+        usedFunction: "function processedOrders(uint256) view returns (bool)",
+        events: [
+            "event TokenDeposited(uint indexed signId, address indexed depositor, address indexed token, uint256 amount)",
+            "event TokenClaimed(uint indexed signId, address indexed account, address indexed token, uint256 amount)",
+        ],
+    },
+    badges: {
+        events: ["event Claimed(uint indexed signId, address indexed account, uint indexed id)"],
+    },
+    trax: {
+        usedFunction: "function usedId(uint256) view returns (bool)",
+        events: [TOKEN_USED_EVENT],
+    },
+    acid: {
+        usedFunction: "function usedId(uint256) view returns (bool)",
+        events: [TOKEN_USED_EVENT, "event Claimed(uint256 indexed id, address indexed account, uint256 amount)"],
+    },
+    roach: {
+        usedFunction: "function usedId(uint256) view returns (bool)",
+        events: [TOKEN_USED_EVENT],
+    },
+};
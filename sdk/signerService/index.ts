@@ -0,0 +1,4 @@
+// Local stand-in for the backend signer (Inventory, Claimer, BankV2, RetroDrop, Gridle), see README "Local signer service"
+export * from "./store";
+export * from "./service";
+export * from "./server";
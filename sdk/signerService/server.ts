@@ -0,0 +1,65 @@
+import { IncomingMessage, Server, createServer } from "http";
+import { SIGN_KINDS, SignerService, SignerServiceError } from "./service";
+
+// Request bodies are a few fields, anything larger is not a sign request
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * HTTP API of the signer service:
+ *   GET  /health       -> {ok: true, kinds}
+ *   POST /sign/<kind>  -> signed message, body {account, ...kind fields, ttl?}
+ * Errors are returned as {error} with 400 (bad request), 404 (unknown kind or contract) or 429 (quota).
+ * CORS is open so a local frontend can call it directly.
+ */
+export function createSignerServer(service: SignerService): Server {
+    return createServer(async (req, res) => {
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Access-Control-Allow-Origin", "*");
+        res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+
+        const reply = (status: number, body: unknown) => {
+            res.statusCode = status;
+            res.end(JSON.stringify(body));
+        };
+
+        try {
+            const path = (req.url ?? "/").split("?")[0];
+            if (req.method === "OPTIONS") {
+                reply(204, {});
+            } else if (req.method === "GET" && path === "/health") {
+                reply(200, { ok: true, kinds: SIGN_KINDS });
+            } else if (req.method === "POST" && path.startsWith("/sign/")) {
+                const body = await readJson(req);
+                reply(200, await service.sign(path.slice("/sign/".length), body));
+            } else {
+                reply(404, { error: `Not found: ${req.method} ${path}` });
+            }
+        } catch (e) {
+            if (e instanceof SignerServiceError) {
+                reply(e.status, { error: e.message });
+            } else {
+                console.error(e);
+                reply(500, { error: "Internal error" });
+            }
+        }
+    });
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+    let body = "";
+    for await (const chunk of req) {
+        body += chunk;
+        if (body.length > MAX_BODY_SIZE) {
+            throw new SignerServiceError("Request body too large", 413);
+        }
+    }
+    try {
+        const parsed = JSON.parse(body || "{}");
+        if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+            throw new Error();
+        }
+        return parsed;
+    } catch {
+        throw new SignerServiceError("Request body must be a JSON object");
+    }
+}
@@ -0,0 +1,204 @@
+import { getAddress } from "ethers";
+import {
+    BigNumberish,
+    RawSigner,
+    Signature,
+    signBankV2Claim,
+    signBankV2ClaimEth,
+    signBankV2ClaimTrax,
+    signBankV2UseETH,
+    signBankV2UseToken,
+    signClaimerClaim,
+    signClaimerClaimEth,
+    signClaimerClaimTrax,
+    signGridleClaimEth,
+    signGridleDepositEth,
+    signInventoryClaim,
+    signInventoryUse,
+    signRetroDropClaim,
+} from "../signers";
+import { SignIdStore } from "./store";
+
+/**
+ * Addresses of the contracts the service signs for, kinds of a missing contract are rejected
+ */
+export interface SignerServiceContracts {
+    inventory?: string;
+    claimer?: string;
+    bankV2?: string;
+    retroDrop?: string;
+    gridle?: string;
+    // TRAX address signed by claimerClaimTrax / bankV2ClaimTrax
+    trax?: string;
+}
+
+export interface SignerServiceOptions {
+    signer: RawSigner;
+    chainId: BigNumberish;
+    contracts: SignerServiceContracts;
+    store: SignIdStore;
+    // Requests per account per quotaWindow, across all kinds (default 20)
+    quota?: number;
+    // Seconds (default 86400)
+    quotaWindow?: number;
+    // Deadline = now + ttl, requests may ask for a shorter ttl (default and max 3600 seconds)
+    maxTtl?: number;
+    // Current time in seconds, the runner passes the latest block timestamp so deadlines follow evm_increaseTime
+    now?: () => Promise<number>;
+}
+
+/**
+ * Request body, numbers may be passed as decimal strings
+ */
+export interface SignRequest {
+    account: string;
+    ttl?: number;
+    [field: string]: unknown;
+}
+
+/**
+ * Signed message: signId and deadline chosen by the service, the request fields and {v, r, s}
+ */
+export type SignResponse = Record<string, unknown> & Signature & { kind: SignKind; signId: string; contract: string };
+
+export class SignerServiceError extends Error {
+    constructor(message: string, readonly status: number = 400) {
+        super(message);
+    }
+}
+
+interface KindSpec {
+    contract: Exclude<keyof SignerServiceContracts, "trax">;
+    // Gridle.claimEth signs no deadline
+    deadline: boolean;
+    // Request fields copied into the message, missing optional fields default to 0 / "0x"
+    fields: Record<string, "uint" | "address" | "bytes" | "uint?" | "bytes?">;
+    sign: (signer: RawSigner, m: any) => Signature;
+}
+
+const KINDS = {
+    inventoryClaim: { contract: "inventory", deadline: true, fields: { tokenId: "uint", amount: "uint", fee: "uint?", data: "bytes?" }, sign: signInventoryClaim },
+    inventoryUse: { contract: "inventory", deadline: true, fields: { id: "uint", amount: "uint", fee: "uint?", data: "bytes?" }, sign: signInventoryUse },
+    claimerClaim: { contract: "claimer", deadline: true, fields: { token: "address", value: "uint", fee: "uint?" }, sign: signClaimerClaim },
+    claimerClaimEth: { contract: "claimer", deadline: true, fields: { value: "uint" }, sign: signClaimerClaimEth },
+    claimerClaimTrax: { contract: "claimer", deadline: true, fields: { value: "uint", fee: "uint?" }, sign: signClaimerClaimTrax },
+    bankV2UseETH: { contract: "bankV2", deadline: true, fields: { value: "uint", param: "uint?" }, sign: signBankV2UseETH },
+    bankV2UseToken: { contract: "bankV2", deadline: true, fields: { token: "address", value: "uint", param: "uint?" }, sign: signBankV2UseToken },
+    bankV2Claim: { contract: "bankV2", deadline: true, fields: { token: "address", value: "uint", fee: "uint?" }, sign: signBankV2Claim },
+    bankV2ClaimEth: { contract: "bankV2", deadline: true, fields: { value: "uint", fee: "uint?" }, sign: signBankV2ClaimEth },
+    bankV2ClaimTrax: { contract: "bankV2", deadline: true, fields: { value: "uint", fee: "uint?" }, sign: signBankV2ClaimTrax },
+    retroDropClaim: { contract: "retroDrop", deadline: true, fields: { roachMax: "uint" }, sign: signRetroDropClaim },
+    gridleDepositEth: { contract: "gridle", deadline: true, fields: { value: "uint", systemBalance: "uint?" }, sign: signGridleDepositEth },
+    gridleClaimEth: { contract: "gridle", deadline: false, fields: { value: "uint" }, sign: signGridleClaimEth },
+} satisfies Record<string, KindSpec>;
+
+export type SignKind = keyof typeof KINDS;
+
+export const SIGN_KINDS = Object.keys(KINDS) as SignKind[];
+
+/**
+ * Stand-in for the game backend signer: allocates a unique signId per contract, enforces per-account quotas
+ * and deadlines, and signs with the sdk/signers layouts. For local and QA environments only, there is no auth.
+ */
+export class SignerService {
+    private readonly quota: number;
+    private readonly quotaWindow: number;
+    private readonly maxTtl: number;
+    private readonly now: () => Promise<number>;
+
+    constructor(private readonly options: SignerServiceOptions) {
+        this.quota = options.quota ?? 20;
+        this.quotaWindow = options.quotaWindow ?? 86400;
+        this.maxTtl = options.maxTtl ?? 3600;
+        this.now = options.now ?? (async () => Math.floor(Date.now() / 1000));
+    }
+
+    async sign(kind: string, request: SignRequest): Promise<SignResponse> {
+        if (!(kind in KINDS)) {
+            throw new SignerServiceError(`Unknown kind: ${kind}. Available: ${SIGN_KINDS.join(", ")}`, 404);
+        }
+        const spec: KindSpec = KINDS[kind as SignKind];
+        const contract = this.options.contracts[spec.contract];
+        if (!contract) {
+            throw new SignerServiceError(`${spec.contract} address is not configured`, 404);
+        }
+
+        const account = parseAddress("account", request.account);
+        const message: Record<string, unknown> = { account, contract, chainId: BigInt(this.options.chainId) };
+        for (const [field, type] of Object.entries(spec.fields)) {
+            message[field] = parseField(field, type, request[field]);
+        }
+        if (kind === "claimerClaimTrax" || kind === "bankV2ClaimTrax") {
+            if (!this.options.contracts.trax) {
+                throw new SignerServiceError("trax address is not configured", 404);
+            }
+            message.traxToken = this.options.contracts.trax;
+        }
+
+        const now = await this.now();
+        const ttl = request.ttl === undefined ? this.maxTtl : Number(request.ttl);
+        if (!Number.isInteger(ttl) || ttl <= 0 || ttl > this.maxTtl) {
+            throw new SignerServiceError(`ttl must be between 1 and ${this.maxTtl} seconds`);
+        }
+        if (spec.deadline) {
+            message.deadline = now + ttl;
+        }
+
+        const used = this.options.store.countRequests(account, now - this.quotaWindow);
+        if (used >= this.quota) {
+            throw new SignerServiceError(`Quota exceeded for ${account}: ${this.quota} signatures per ${this.quotaWindow}s`, 429);
+        }
+        this.options.store.addRequest(account, now);
+
+        const signId = this.options.store.allocate(contract, spec.contract, {
+            kind, account, deadline: message.deadline as number | undefined, issuedAt: now,
+        });
+        message.signId = signId;
+
+        const sig = spec.sign(this.options.signer, message);
+        return toJson({ kind, ...message, ...sig }) as SignResponse;
+    }
+}
+
+function parseAddress(field: string, value: unknown): string {
+    try {
+        return getAddress(String(value));
+    } catch {
+        throw new SignerServiceError(`${field} is not a valid address`);
+    }
+}
+
+function parseField(field: string, type: KindSpec["fields"][string], value: unknown): unknown {
+    const optional = type.endsWith("?");
+    if (value === undefined || value === null) {
+        if (!optional) {
+            throw new SignerServiceError(`${field} is required`);
+        }
+        return type === "bytes?" ? "0x" : 0n;
+    }
+    switch (type) {
+        case "address":
+            return parseAddress(field, value);
+        case "bytes":
+        case "bytes?":
+            if (typeof value !== "string" || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+                throw new SignerServiceError(`${field} must be 0x-prefixed hex`);
+            }
+            return value;
+        default:
+            try {
+                const parsed = BigInt(value as string | number);
+                if (parsed < 0n) {
+                    throw new Error();
+                }
+                return parsed;
+            } catch {
+                throw new SignerServiceError(`${field} must be a non-negative integer`);
+            }
+    }
+}
+
+// bigint is not JSON serializable, uints are returned as decimal strings
+function toJson(message: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(message).map(([key, value]) => [key, typeof value === "bigint" ? value.toString() : value]));
+}
@@ -0,0 +1,32 @@
+import { AllocatorData, SignIdAllocator } from "../signIds";
+
+interface StoreData extends AllocatorData {
+    // account (lowercase) => issuedAt timestamps inside the current quota window
+    requests: Record<string, number[]>;
+}
+
+/**
+ * Issued signIds (see SignIdAllocator) and per-account request history, persisted to one JSON file.
+ * The file can be passed to reconcile-sign-ids.ts as SIGN_ID_STORE.
+ */
+export class SignIdStore extends SignIdAllocator<StoreData> {
+    /**
+     * Number of requests of an account since `since`, older entries are dropped
+     */
+    countRequests(account: string, since: number): number {
+        const key = account.toLowerCase();
+        const recent = (this.data.requests[key] ?? []).filter(time => time >= since);
+        this.data.requests[key] = recent;
+        return recent.length;
+    }
+
+    addRequest(account: string, time: number) {
+        const key = account.toLowerCase();
+        (this.data.requests[key] ??= []).push(time);
+        this.save();
+    }
+
+    protected emptyData(): StoreData {
+        return { contracts: {}, requests: {} };
+    }
+}
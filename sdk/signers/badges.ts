@@ -0,0 +1,25 @@
+import { BigNumberish, RawSigner, Signature, hashAbiEncoded, signHash } from "./common";
+
+/**
+ * Badges.claim: abi.encode(signId, account, id, fee, address(this))
+ */
+export interface BadgesClaimMessage {
+    signId: BigNumberish;
+    // Caller of claim (msg.sender)
+    account: string;
+    id: BigNumberish;
+    fee: BigNumberish;
+    // Badges address
+    contract: string;
+}
+
+export function hashBadgesClaim(m: BadgesClaimMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "uint256", "uint256", "address"],
+        [m.signId, m.account, m.id, m.fee, m.contract],
+    );
+}
+
+export function signBadgesClaim(signer: RawSigner, m: BadgesClaimMessage): Signature {
+    return signHash(signer, hashBadgesClaim(m));
+}
@@ -0,0 +1,93 @@
+import { ZeroAddress } from "ethers";
+import { BigNumberish, RawSigner, Signature, hashAbiEncoded, signHash } from "./common";
+
+/**
+ * BankV2.useETH / useToken: abi.encode('use', signId, value, token, account, param, fee, deadline, address(this))
+ * Both entrypoints pass fee = 0
+ */
+export interface BankV2UseMessage {
+    signId: BigNumberish;
+    // msg.value for useETH, token amount for useToken
+    value: BigNumberish;
+    // Caller (msg.sender)
+    account: string;
+    param: BigNumberish;
+    deadline: BigNumberish;
+    // BankV2 address
+    contract: string;
+}
+
+export interface BankV2UseTokenMessage extends BankV2UseMessage {
+    token: string;
+}
+
+/**
+ * BankV2.claim / claimEth / claimTrax: abi.encode('claim', signId, account, token, value, fee, deadline, address(this))
+ */
+export interface BankV2ClaimMessage {
+    signId: BigNumberish;
+    account: string;
+    token: string;
+    value: BigNumberish;
+    fee: BigNumberish;
+    deadline: BigNumberish;
+    // BankV2 address
+    contract: string;
+}
+
+export type BankV2ClaimEthMessage = Omit<BankV2ClaimMessage, 'token'>;
+
+export interface BankV2ClaimTraxMessage extends Omit<BankV2ClaimMessage, 'token'> {
+    // BankV2.traxToken()
+    traxToken: string;
+}
+
+function hashBankV2Use(m: BankV2UseMessage, token: string): string {
+    return hashAbiEncoded(
+        ["string", "uint256", "uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
+        ["use", m.signId, m.value, token, m.account, m.param, 0, m.deadline, m.contract],
+    );
+}
+
+export function hashBankV2UseETH(m: BankV2UseMessage): string {
+    return hashBankV2Use(m, ZeroAddress);
+}
+
+export function signBankV2UseETH(signer: RawSigner, m: BankV2UseMessage): Signature {
+    return signHash(signer, hashBankV2UseETH(m));
+}
+
+export function hashBankV2UseToken(m: BankV2UseTokenMessage): string {
+    return hashBankV2Use(m, m.token);
+}
+
+export function signBankV2UseToken(signer: RawSigner, m: BankV2UseTokenMessage): Signature {
+    return signHash(signer, hashBankV2UseToken(m));
+}
+
+export function hashBankV2Claim(m: BankV2ClaimMessage): string {
+    return hashAbiEncoded(
+        ["string", "uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
+        ["claim", m.signId, m.account, m.token, m.value, m.fee, m.deadline, m.contract],
+    );
+}
+
+export function signBankV2Claim(signer: RawSigner, m: BankV2ClaimMessage): Signature {
+    return signHash(signer, hashBankV2Claim(m));
+}
+
+export function hashBankV2ClaimEth(m: BankV2ClaimEthMessage): string {
+    return hashBankV2Claim({ ...m, token: ZeroAddress });
+}
+
+export function signBankV2ClaimEth(signer: RawSigner, m: BankV2ClaimEthMessage): Signature {
+    return signHash(signer, hashBankV2ClaimEth(m));
+}
+
+export function hashBankV2ClaimTrax(m: BankV2ClaimTraxMessage): string {
+    return hashBankV2Claim({ ...m, token: m.traxToken });
+}
+
+export function signBankV2ClaimTrax(signer: RawSigner, m: BankV2ClaimTraxMessage): Signature {
+    return signHash(signer, hashBankV2ClaimTrax(m));
+}
@@ -0,0 +1,95 @@
+import { ZeroAddress } from "ethers";
+import { BigNumberish, RawSigner, Signature, signHash } from "./common";
+import { signClaimerClaim, signClaimerClaimEth } from "./claimer";
+import { signBankV2Claim } from "./bankV2";
+import {
+    TypedChain,
+    bankV2ClaimTypedData,
+    claimerClaimEthTypedData,
+    claimerClaimTypedData,
+    hashTypedData,
+} from "./typedData";
+
+/**
+ * One payload of a batch: token = ZeroAddress claims ETH, token = traxToken mints TRAX, any other token is ERC20
+ */
+export interface ClaimBatchItem {
+    token: string;
+    value: BigNumberish;
+    // Claimer does not sign a fee for ETH items, it is sent as 0
+    fee?: BigNumberish;
+    deadline: BigNumberish;
+    signId: BigNumberish;
+}
+
+/**
+ * Claimer.claimBatch / BankV2.claimBatch: every item is signed as the matching single claim
+ */
+export interface ClaimBatchMessage {
+    account: string;
+    items: ClaimBatchItem[];
+    // Claimer or BankV2 address
+    contract: string;
+}
+
+/**
+ * ClaimRequest struct as passed to claimBatch
+ */
+export interface ClaimRequest {
+    token: string;
+    value: BigNumberish;
+    fee: BigNumberish;
+    deadline: BigNumberish;
+    signId: BigNumberish;
+    sigV: number;
+    sigR: string;
+    sigS: string;
+}
+
+/**
+ * Arguments of `claimBatch(account, claims, {value: fee})`
+ */
+export interface ClaimBatch {
+    account: string;
+    claims: ClaimRequest[];
+    // One fee per transaction: the highest fee of the batch
+    fee: bigint;
+}
+
+function toClaimBatch(m: ClaimBatchMessage, sign: (item: ClaimBatchItem & { fee: BigNumberish }) => Signature, feeFreeEth: boolean): ClaimBatch {
+    let batchFee = 0n;
+    const claims = m.items.map(item => {
+        const fee = feeFreeEth && item.token === ZeroAddress ? 0 : item.fee ?? 0;
+        if (BigInt(fee) > batchFee) {
+            batchFee = BigInt(fee);
+        }
+        const sig = sign({ ...item, fee });
+        return { token: item.token, value: item.value, fee, deadline: item.deadline, signId: item.signId, sigV: sig.v, sigR: sig.r, sigS: sig.s };
+    });
+    return { account: m.account, claims, fee: batchFee };
+}
+
+// Claimer: ETH items use the claimEth layout (no fee), TRAX and ERC20 items the claim layout
+
+export function signClaimerClaimBatch(signer: RawSigner, m: ClaimBatchMessage): ClaimBatch {
+    return toClaimBatch(m, item => item.token === ZeroAddress
+        ? signClaimerClaimEth(signer, { ...item, account: m.account, contract: m.contract })
+        : signClaimerClaim(signer, { ...item, account: m.account, contract: m.contract }), true);
+}
+
+export function signClaimerClaimBatchTyped(signer: RawSigner, m: ClaimBatchMessage & TypedChain): ClaimBatch {
+    return toClaimBatch(m, item => signHash(signer, hashTypedData(item.token === ZeroAddress
+        ? claimerClaimEthTypedData({ ...item, account: m.account, contract: m.contract, chainId: m.chainId })
+        : claimerClaimTypedData({ ...item, account: m.account, contract: m.contract, chainId: m.chainId }))), true);
+}
+
+// BankV2: all items use the claim layout with the item token (ZeroAddress for ETH)
+
+export function signBankV2ClaimBatch(signer: RawSigner, m: ClaimBatchMessage): ClaimBatch {
+    return toClaimBatch(m, item => signBankV2Claim(signer, { ...item, account: m.account, contract: m.contract }), false);
+}
+
+export function signBankV2ClaimBatchTyped(signer: RawSigner, m: ClaimBatchMessage & TypedChain): ClaimBatch {
+    return toClaimBatch(m, item => signHash(signer, hashTypedData(
+        bankV2ClaimTypedData({ ...item, account: m.account, contract: m.contract, chainId: m.chainId }))), false);
+}
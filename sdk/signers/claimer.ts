@@ -0,0 +1,66 @@
+import { ZeroAddress } from "ethers";
+import { BigNumberish, RawSigner, Signature, hashAbiEncoded, signHash } from "./common";
+
+/**
+ * Claimer.claim: abi.encode(signId, account, token, value, fee, deadline, address(this))
+ */
+export interface ClaimerClaimMessage {
+    signId: BigNumberish;
+    account: string;
+    token: string;
+    value: BigNumberish;
+    fee: BigNumberish;
+    deadline: BigNumberish;
+    // Claimer address
+    contract: string;
+}
+
+/**
+ * Claimer.claimTrax: same layout as claim with token = TRAX address
+ */
+export interface ClaimerClaimTraxMessage extends Omit<ClaimerClaimMessage, 'token'> {
+    // Claimer.traxToken()
+    traxToken: string;
+}
+
+/**
+ * Claimer.claimEth: abi.encode(signId, account, address(0), value, deadline, address(this)), no fee
+ */
+export interface ClaimerClaimEthMessage {
+    signId: BigNumberish;
+    account: string;
+    value: BigNumberish;
+    deadline: BigNumberish;
+    // Claimer address
+    contract: string;
+}
+
+export function hashClaimerClaim(m: ClaimerClaimMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
+        [m.signId, m.account, m.token, m.value, m.fee, m.deadline, m.contract],
+    );
+}
+
+export function signClaimerClaim(signer: RawSigner, m: ClaimerClaimMessage): Signature {
+    return signHash(signer, hashClaimerClaim(m));
+}
+
+export function hashClaimerClaimTrax(m: ClaimerClaimTraxMessage): string {
+    return hashClaimerClaim({ ...m, token: m.traxToken });
+}
+
+export function signClaimerClaimTrax(signer: RawSigner, m: ClaimerClaimTraxMessage): Signature {
+    return signHash(signer, hashClaimerClaimTrax(m));
+}
+
+export function hashClaimerClaimEth(m: ClaimerClaimEthMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "address", "uint256", "uint256", "address"],
+        [m.signId, m.account, ZeroAddress, m.value, m.deadline, m.contract],
+    );
+}
+
+export function signClaimerClaimEth(signer: RawSigner, m: ClaimerClaimEthMessage): Signature {
+    return signHash(signer, hashClaimerClaimEth(m));
+}
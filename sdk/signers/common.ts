@@ -0,0 +1,37 @@
+import { AbiCoder, BigNumberish, BytesLike, SigningKey, keccak256 } from "ethers";
+
+/**
+ * Signature split into the (v, r, s) components every signed entrypoint takes
+ */
+export interface Signature {
+    v: number;
+    r: string;
+    s: string;
+}
+
+/**
+ * Anything holding the signer private key: a SigningKey or a Wallet (ethers or zksync-ethers)
+ */
+export type RawSigner = SigningKey | { signingKey: SigningKey };
+
+export type { BigNumberish, BytesLike };
+
+/**
+ * keccak256(abi.encode(...)) with the same layout as the Solidity side
+ */
+export function hashAbiEncoded(types: string[], values: unknown[]): string {
+    return keccak256(AbiCoder.defaultAbiCoder().encode(types, values));
+}
+
+/**
+ * Sign a message hash directly, without the EIP-191 prefix, as contracts call ecrecover on the raw hash
+ */
+export function signHash(signer: RawSigner, hash: string): Signature {
+    const signingKey = "signingKey" in signer ? signer.signingKey : signer;
+    const sig = signingKey.sign(hash);
+    return {
+        v: sig.v,
+        r: sig.r,
+        s: sig.s,
+    };
+}
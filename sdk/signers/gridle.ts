@@ -0,0 +1,99 @@
+import { BigNumberish, RawSigner, Signature, hashAbiEncoded, signHash } from "./common";
+
+/**
+ * Gridle.depositEth: abi.encode(signId, account, value, deadline, systemBalance, address(this))
+ */
+export interface GridleDepositEthMessage {
+    signId: BigNumberish;
+    // Caller (msg.sender)
+    account: string;
+    // msg.value
+    value: BigNumberish;
+    deadline: BigNumberish;
+    systemBalance: BigNumberish;
+    // Gridle address
+    contract: string;
+}
+
+/**
+ * Gridle.claimEth: abi.encode(signId, account, value, address(this))
+ */
+export interface GridleClaimEthMessage {
+    signId: BigNumberish;
+    account: string;
+    value: BigNumberish;
+    // Gridle address
+    contract: string;
+}
+
+/**
+ * GridleToken.depositToken and Bank.depositToken:
+ * abi.encode(signId, account, token, amount, deadline, systemBalance, address(this))
+ */
+export interface DepositTokenMessage {
+    signId: BigNumberish;
+    // Caller (msg.sender)
+    account: string;
+    token: string;
+    amount: BigNumberish;
+    deadline: BigNumberish;
+    systemBalance: BigNumberish;
+    // GridleToken or Bank address
+    contract: string;
+}
+
+/**
+ * GridleToken.claimToken and Bank.claimToken: abi.encode(signId, account, token, amount, address(this))
+ */
+export interface ClaimTokenMessage {
+    signId: BigNumberish;
+    account: string;
+    token: string;
+    amount: BigNumberish;
+    // GridleToken or Bank address
+    contract: string;
+}
+
+export function hashGridleDepositEth(m: GridleDepositEthMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "uint256", "uint256", "uint256", "address"],
+        [m.signId, m.account, m.value, m.deadline, m.systemBalance, m.contract],
+    );
+}
+
+export function signGridleDepositEth(signer: RawSigner, m: GridleDepositEthMessage): Signature {
+    return signHash(signer, hashGridleDepositEth(m));
+}
+
+export function hashGridleClaimEth(m: GridleClaimEthMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "uint256", "address"],
+        [m.signId, m.account, m.value, m.contract],
+    );
+}
+
+export function signGridleClaimEth(signer: RawSigner, m: GridleClaimEthMessage): Signature {
+    return signHash(signer, hashGridleClaimEth(m));
+}
+
+export function hashDepositToken(m: DepositTokenMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
+        [m.signId, m.account, m.token, m.amount, m.deadline, m.systemBalance, m.contract],
+    );
+}
+
+export function signDepositToken(signer: RawSigner, m: DepositTokenMessage): Signature {
+    return signHash(signer, hashDepositToken(m));
+}
+
+export function hashClaimToken(m: ClaimTokenMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "address", "uint256", "address"],
+        [m.signId, m.account, m.token, m.amount, m.contract],
+    );
+}
+
+export function signClaimToken(signer: RawSigner, m: ClaimTokenMessage): Signature {
+    return signHash(signer, hashClaimToken(m));
+}
@@ -0,0 +1,12 @@
+// Message hashing and signing for every signature-gated entrypoint.
+// Layouts mirror the abi.encode calls (and EIP-712 structs of the *Typed variants) in contracts/, used by the backend signer and tests
+export * from "./common";
+export * from "./inventory";
+export * from "./claimer";
+export * from "./bankV2";
+export * from "./retroDrop";
+export * from "./gridle";
+export * from "./tokens";
+export * from "./badges";
+export * from "./typedData";
+export * from "./claimBatch";
@@ -0,0 +1,55 @@
+import { BigNumberish, BytesLike, RawSigner, Signature, hashAbiEncoded, signHash } from "./common";
+
+/**
+ * Inventory.claim: abi.encode(signId, account, tokenId, amount, fee, deadline, data, address(this), "claim")
+ */
+export interface InventoryClaimMessage {
+    signId: BigNumberish;
+    // Caller of claim (msg.sender), receives the tokens
+    account: string;
+    tokenId: BigNumberish;
+    amount: BigNumberish;
+    fee: BigNumberish;
+    deadline: BigNumberish;
+    data: BytesLike;
+    // Inventory proxy address
+    contract: string;
+}
+
+/**
+ * Inventory.use: abi.encode(signId, account, id, amount, fee, deadline, data, address(this), "use")
+ */
+export interface InventoryUseMessage {
+    signId: BigNumberish;
+    // Caller of use (msg.sender)
+    account: string;
+    id: BigNumberish;
+    amount: BigNumberish;
+    fee: BigNumberish;
+    deadline: BigNumberish;
+    data: BytesLike;
+    // Inventory proxy address
+    contract: string;
+}
+
+export function hashInventoryClaim(m: InventoryClaimMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "uint256", "uint256", "uint256", "uint256", "bytes", "address", "string"],
+        [m.signId, m.account, m.tokenId, m.amount, m.fee, m.deadline, m.data, m.contract, "claim"],
+    );
+}
+
+export function signInventoryClaim(signer: RawSigner, m: InventoryClaimMessage): Signature {
+    return signHash(signer, hashInventoryClaim(m));
+}
+
+export function hashInventoryUse(m: InventoryUseMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "uint256", "uint256", "uint256", "uint256", "bytes", "address", "string"],
+        [m.signId, m.account, m.id, m.amount, m.fee, m.deadline, m.data, m.contract, "use"],
+    );
+}
+
+export function signInventoryUse(signer: RawSigner, m: InventoryUseMessage): Signature {
+    return signHash(signer, hashInventoryUse(m));
+}
@@ -0,0 +1,26 @@
+import { BigNumberish, RawSigner, Signature, hashAbiEncoded, signHash } from "./common";
+
+/**
+ * RetroDrop.claim: abi.encode(signId, account, roachMax, deadline, block.chainid, address(this))
+ */
+export interface RetroDropClaimMessage {
+    signId: BigNumberish;
+    // Caller of claim (msg.sender)
+    account: string;
+    roachMax: BigNumberish;
+    deadline: BigNumberish;
+    chainId: BigNumberish;
+    // RetroDrop address
+    contract: string;
+}
+
+export function hashRetroDropClaim(m: RetroDropClaimMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "address", "uint256", "uint256", "uint256", "address"],
+        [m.signId, m.account, m.roachMax, m.deadline, m.chainId, m.contract],
+    );
+}
+
+export function signRetroDropClaim(signer: RawSigner, m: RetroDropClaimMessage): Signature {
+    return signHash(signer, hashRetroDropClaim(m));
+}
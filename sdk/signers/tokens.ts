@@ -0,0 +1,48 @@
+import { BigNumberish, RawSigner, Signature, hashAbiEncoded, signHash } from "./common";
+
+/**
+ * TRAX / ACID / ROACH use and useFrom: abi.encode(id, value, account, param, address(this))
+ * For useFrom the signed account is the caller (spender), not the token owner
+ */
+export interface TokenUseMessage {
+    id: BigNumberish;
+    value: BigNumberish;
+    // Caller (msg.sender)
+    account: string;
+    param: BigNumberish;
+    // Token address
+    contract: string;
+}
+
+/**
+ * ACID.claim: abi.encode('claim', id, account, amount, address(this))
+ */
+export interface AcidClaimMessage {
+    id: BigNumberish;
+    account: string;
+    amount: BigNumberish;
+    // ACID address
+    contract: string;
+}
+
+export function hashTokenUse(m: TokenUseMessage): string {
+    return hashAbiEncoded(
+        ["uint256", "uint256", "address", "uint256", "address"],
+        [m.id, m.value, m.account, m.param, m.contract],
+    );
+}
+
+export function signTokenUse(signer: RawSigner, m: TokenUseMessage): Signature {
+    return signHash(signer, hashTokenUse(m));
+}
+
+export function hashAcidClaim(m: AcidClaimMessage): string {
+    return hashAbiEncoded(
+        ["string", "uint256", "address", "uint256", "address"],
+        ["claim", m.id, m.account, m.amount, m.contract],
+    );
+}
+
+export function signAcidClaim(signer: RawSigner, m: AcidClaimMessage): Signature {
+    return signHash(signer, hashAcidClaim(m));
+}
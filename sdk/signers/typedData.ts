@@ -0,0 +1,226 @@
+import { TypedDataDomain, TypedDataEncoder, TypedDataField, ZeroAddress } from "ethers";
+import { BigNumberish, RawSigner, Signature, signHash } from "./common";
+import { InventoryClaimMessage, InventoryUseMessage } from "./inventory";
+import { ClaimerClaimEthMessage, ClaimerClaimMessage, ClaimerClaimTraxMessage } from "./claimer";
+import { BankV2ClaimEthMessage, BankV2ClaimMessage, BankV2ClaimTraxMessage, BankV2UseMessage, BankV2UseTokenMessage } from "./bankV2";
+import { GridleClaimEthMessage, GridleDepositEthMessage } from "./gridle";
+import { TokenUseMessage } from "./tokens";
+
+/**
+ * EIP-712 payload for the *Typed entrypoints, arguments of ethers `signer.signTypedData(domain, types, message)`
+ */
+export interface TypedData {
+    domain: TypedDataDomain;
+    types: Record<string, TypedDataField[]>;
+    primaryType: string;
+    message: Record<string, unknown>;
+}
+
+/**
+ * Chain of the verifying contract, part of the EIP-712 domain
+ */
+export interface TypedChain {
+    chainId: BigNumberish;
+}
+
+// Domain names as passed to the EIP712 constructor (Inventory returns it from _EIP712Name)
+export type TypedDomainName = "Inventory" | "Claimer" | "BankV2" | "Gridle" | "TRAX" | "ACID" | "ROACH";
+
+export const TYPED_DOMAIN_VERSION = "1";
+
+// Struct types, field order matches the *_TYPEHASH constants in contracts/
+export const INVENTORY_CLAIM_TYPES: Record<string, TypedDataField[]> = {
+    Claim: [
+        { name: "signId", type: "uint256" },
+        { name: "account", type: "address" },
+        { name: "tokenId", type: "uint256" },
+        { name: "amount", type: "uint256" },
+        { name: "fee", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "data", type: "bytes" },
+    ],
+};
+
+export const INVENTORY_USE_TYPES: Record<string, TypedDataField[]> = {
+    Use: [
+        { name: "signId", type: "uint256" },
+        { name: "account", type: "address" },
+        { name: "id", type: "uint256" },
+        { name: "amount", type: "uint256" },
+        { name: "fee", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "data", type: "bytes" },
+    ],
+};
+
+// Claimer and BankV2 share the Claim struct
+export const CLAIM_TYPES: Record<string, TypedDataField[]> = {
+    Claim: [
+        { name: "signId", type: "uint256" },
+        { name: "account", type: "address" },
+        { name: "token", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "fee", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+export const BANK_V2_USE_TYPES: Record<string, TypedDataField[]> = {
+    Use: [
+        { name: "signId", type: "uint256" },
+        { name: "value", type: "uint256" },
+        { name: "token", type: "address" },
+        { name: "account", type: "address" },
+        { name: "param", type: "uint256" },
+        { name: "fee", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+export const GRIDLE_DEPOSIT_TYPES: Record<string, TypedDataField[]> = {
+    Deposit: [
+        { name: "signId", type: "uint256" },
+        { name: "account", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "systemBalance", type: "uint256" },
+    ],
+};
+
+export const GRIDLE_CLAIM_TYPES: Record<string, TypedDataField[]> = {
+    Claim: [
+        { name: "signId", type: "uint256" },
+        { name: "account", type: "address" },
+        { name: "value", type: "uint256" },
+    ],
+};
+
+export const TOKEN_USE_TYPES: Record<string, TypedDataField[]> = {
+    Use: [
+        { name: "id", type: "uint256" },
+        { name: "value", type: "uint256" },
+        { name: "account", type: "address" },
+        { name: "param", type: "uint256" },
+    ],
+};
+
+export function typedDomain(name: TypedDomainName, chainId: BigNumberish, contract: string): TypedDataDomain {
+    return {
+        name,
+        version: TYPED_DOMAIN_VERSION,
+        chainId,
+        verifyingContract: contract,
+    };
+}
+
+function typedData(
+    name: TypedDomainName,
+    types: Record<string, TypedDataField[]>,
+    m: TypedChain & { contract: string },
+    message: Record<string, unknown>,
+): TypedData {
+    return {
+        domain: typedDomain(name, m.chainId, m.contract),
+        types,
+        primaryType: Object.keys(types)[0],
+        message,
+    };
+}
+
+/**
+ * EIP-712 digest the contract passes to ecrecover
+ */
+export function hashTypedData(data: TypedData): string {
+    return TypedDataEncoder.hash(data.domain, data.types, data.message);
+}
+
+/**
+ * Sign typed data with a raw key, same result as `wallet.signTypedData(domain, types, message)`
+ */
+export function signTypedData(signer: RawSigner, data: TypedData): Signature {
+    return signHash(signer, hashTypedData(data));
+}
+
+// Inventory.claimTyped / useTyped
+
+export function inventoryClaimTypedData(m: InventoryClaimMessage & TypedChain): TypedData {
+    return typedData("Inventory", INVENTORY_CLAIM_TYPES, m, {
+        signId: m.signId, account: m.account, tokenId: m.tokenId, amount: m.amount, fee: m.fee, deadline: m.deadline, data: m.data,
+    });
+}
+
+export function inventoryUseTypedData(m: InventoryUseMessage & TypedChain): TypedData {
+    return typedData("Inventory", INVENTORY_USE_TYPES, m, {
+        signId: m.signId, account: m.account, id: m.id, amount: m.amount, fee: m.fee, deadline: m.deadline, data: m.data,
+    });
+}
+
+// Claimer.claimTyped / claimEthTyped / claimTraxTyped
+
+export function claimerClaimTypedData(m: ClaimerClaimMessage & TypedChain): TypedData {
+    return typedData("Claimer", CLAIM_TYPES, m, {
+        signId: m.signId, account: m.account, token: m.token, value: m.value, fee: m.fee, deadline: m.deadline,
+    });
+}
+
+// claimEthTyped signs token = address(0) and fee = 0
+export function claimerClaimEthTypedData(m: ClaimerClaimEthMessage & TypedChain): TypedData {
+    return claimerClaimTypedData({ ...m, token: ZeroAddress, fee: 0 });
+}
+
+export function claimerClaimTraxTypedData(m: ClaimerClaimTraxMessage & TypedChain): TypedData {
+    return claimerClaimTypedData({ ...m, token: m.traxToken });
+}
+
+// BankV2.useETHTyped / useTokenTyped / claimTyped / claimEthTyped / claimTraxTyped
+
+// Both use entrypoints sign fee = 0
+function bankV2UseTypedData(m: BankV2UseMessage & TypedChain, token: string): TypedData {
+    return typedData("BankV2", BANK_V2_USE_TYPES, m, {
+        signId: m.signId, value: m.value, token, account: m.account, param: m.param, fee: 0, deadline: m.deadline,
+    });
+}
+
+export function bankV2UseETHTypedData(m: BankV2UseMessage & TypedChain): TypedData {
+    return bankV2UseTypedData(m, ZeroAddress);
+}
+
+export function bankV2UseTokenTypedData(m: BankV2UseTokenMessage & TypedChain): TypedData {
+    return bankV2UseTypedData(m, m.token);
+}
+
+export function bankV2ClaimTypedData(m: BankV2ClaimMessage & TypedChain): TypedData {
+    return typedData("BankV2", CLAIM_TYPES, m, {
+        signId: m.signId, account: m.account, token: m.token, value: m.value, fee: m.fee, deadline: m.deadline,
+    });
+}
+
+export function bankV2ClaimEthTypedData(m: BankV2ClaimEthMessage & TypedChain): TypedData {
+    return bankV2ClaimTypedData({ ...m, token: ZeroAddress });
+}
+
+export function bankV2ClaimTraxTypedData(m: BankV2ClaimTraxMessage & TypedChain): TypedData {
+    return bankV2ClaimTypedData({ ...m, token: m.traxToken });
+}
+
+// Gridle.depositEthTyped / claimEthTyped
+
+export function gridleDepositEthTypedData(m: GridleDepositEthMessage & TypedChain): TypedData {
+    return typedData("Gridle", GRIDLE_DEPOSIT_TYPES, m, {
+        signId: m.signId, account: m.account, value: m.value, deadline: m.deadline, systemBalance: m.systemBalance,
+    });
+}
+
+export function gridleClaimEthTypedData(m: GridleClaimEthMessage & TypedChain): TypedData {
+    return typedData("Gridle", GRIDLE_CLAIM_TYPES, m, {
+        signId: m.signId, account: m.account, value: m.value,
+    });
+}
+
+// TRAX / ACID / ROACH useTyped / useFromTyped, account is the caller as in the legacy layout
+
+export function tokenUseTypedData(name: "TRAX" | "ACID" | "ROACH", m: TokenUseMessage & TypedChain): TypedData {
+    return typedData(name, TOKEN_USE_TYPES, m, {
+        id: m.id, value: m.value, account: m.account, param: m.param,
+    });
+}
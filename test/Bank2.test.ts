@@ -3,6 +3,7 @@ import { Wallet } from "zksync-ethers";
 import * as hre from "hardhat";
 import { Deployer } from "@matterlabs/hardhat-zksync";
 import "@nomicfoundation/hardhat-chai-matchers";
+import { signBankV2Claim, signBankV2UseToken } from "../sdk/signers";
 
 // Use ZKsync's default rich wallet for local testing
 const RICH_WALLET_PK = "0x7726827caac94a7f9e1b160f7ea819f172f7b6f9d2a97f992c38edeab82d4110";
@@ -28,25 +29,11 @@ describe("BankV2", function () {
         token: string,
         account: string,
         param: number,
-        fee: bigint,
         deadline: number,
         contractAddress: string,
         signerWallet: Wallet
     ) {
-        const messageHash = hre.ethers.keccak256(
-            hre.ethers.AbiCoder.defaultAbiCoder().encode(
-                ["string", "uint256", "uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
-                ["use", signId, value, token, account, param, fee, deadline, contractAddress]
-            )
-        );
-
-        const sig = signerWallet.signingKey.sign(messageHash);
-
-        return {
-            v: sig.v,
-            r: sig.r,
-            s: sig.s
-        };
+        return signBankV2UseToken(signerWallet, {signId, value, token, account, param, deadline, contract: contractAddress});
     }
 
     // Helper function to create a signature for claim/claimEth
@@ -60,20 +47,7 @@ describe("BankV2", function () {
         contractAddress: string,
         signerWallet: Wallet
     ) {
-        const messageHash = hre.ethers.keccak256(
-            hre.ethers.AbiCoder.defaultAbiCoder().encode(
-                ["string", "uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
-                ["claim", signId, account, token, value, fee, deadline, contractAddress]
-            )
-        );
-
-        const sig = signerWallet.signingKey.sign(messageHash);
-
-        return {
-            v: sig.v,
-            r: sig.r,
-            s: sig.s
-        };
+        return signBankV2Claim(signerWallet, {signId, account, token, value, fee, deadline, contract: contractAddress});
     }
 
     beforeEach(async () => {
@@ -190,7 +164,6 @@ describe("BankV2", function () {
                 hre.ethers.ZeroAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
@@ -218,7 +191,6 @@ describe("BankV2", function () {
                 hre.ethers.ZeroAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
@@ -243,7 +215,6 @@ describe("BankV2", function () {
                 hre.ethers.ZeroAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
@@ -268,7 +239,6 @@ describe("BankV2", function () {
                 hre.ethers.ZeroAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 wallet // Wrong signer!
@@ -292,7 +262,6 @@ describe("BankV2", function () {
                 hre.ethers.ZeroAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
@@ -327,7 +296,6 @@ describe("BankV2", function () {
                 tokenAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
@@ -356,7 +324,6 @@ describe("BankV2", function () {
                 hre.ethers.ZeroAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
@@ -380,7 +347,6 @@ describe("BankV2", function () {
                 tokenAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
@@ -721,7 +687,6 @@ describe("BankV2", function () {
                 hre.ethers.ZeroAddress,
                 user.address,
                 param,
-                0n,
                 deadline,
                 await bank.getAddress(),
                 signer
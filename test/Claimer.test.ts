@@ -3,6 +3,7 @@ import { Wallet } from "zksync-ethers";
 import * as hre from "hardhat";
 import { Deployer } from "@matterlabs/hardhat-zksync";
 import "@nomicfoundation/hardhat-chai-matchers";
+import { signClaimerClaim, signClaimerClaimEth } from "../sdk/signers";
 
 // Use ZKsync's default rich wallet for local testing
 const RICH_WALLET_PK = "0x7726827caac94a7f9e1b160f7ea819f172f7b6f9d2a97f992c38edeab82d4110";
@@ -30,21 +31,7 @@ describe("Claimer", function () {
         contractAddress: string,
         signerWallet: Wallet
     ) {
-        const messageHash = hre.ethers.keccak256(
-            hre.ethers.AbiCoder.defaultAbiCoder().encode(
-                ["uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
-                [signId, account, token, value, fee, deadline, contractAddress]
-            )
-        );
-
-        // Sign the hash directly without EIP-191 prefix
-        const sig = signerWallet.signingKey.sign(messageHash);
-
-        return {
-            v: sig.v,
-            r: sig.r,
-            s: sig.s
-        };
+        return signClaimerClaim(signerWallet, {signId, account, token, value, fee, deadline, contract: contractAddress});
     }
 
     // Helper function to create a signature for claiming ETH (no fee)
@@ -56,21 +43,7 @@ describe("Claimer", function () {
         contractAddress: string,
         signerWallet: Wallet
     ) {
-        const messageHash = hre.ethers.keccak256(
-            hre.ethers.AbiCoder.defaultAbiCoder().encode(
-                ["uint256", "address", "address", "uint256", "uint256", "address"],
-                [signId, account, hre.ethers.ZeroAddress, value, deadline, contractAddress]
-            )
-        );
-
-        // Sign the hash directly without EIP-191 prefix
-        const sig = signerWallet.signingKey.sign(messageHash);
-
-        return {
-            v: sig.v,
-            r: sig.r,
-            s: sig.s
-        };
+        return signClaimerClaimEth(signerWallet, {signId, account, value, deadline, contract: contractAddress});
     }
 
     beforeEach(async () => {
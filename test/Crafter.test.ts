@@ -0,0 +1,237 @@
+const {expect} = require("chai");
+const {ethers} = require("hardhat");
+const {time} = require("@nomicfoundation/hardhat-network-helpers");
+require("@nomicfoundation/hardhat-chai-matchers");
+const sdk = require("../sdk/signers");
+
+describe("Crafter", function () {
+    const signerWallet = new ethers.Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+
+    let crafter;
+    let mockInventory;
+    let acid;
+    let roach;
+    let owner;
+    let user;
+
+    // 2x item 100 + 1x item 101 -> 1x item 200
+    const RECIPE_ID = 1;
+    const recipe = {
+        inputIds: [100, 101],
+        inputCounts: [2, 1],
+        outputIds: [200],
+        outputCounts: [1],
+        cooldown: 0,
+        priceInAcid: 0,
+        priceInRoach: 0,
+        startTime: 0,
+        deadline: 0,
+    };
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+
+        const MockInventory = await ethers.getContractFactory("MockInventory");
+        mockInventory = await MockInventory.deploy();
+        const ACID = await ethers.getContractFactory("ACID");
+        acid = await ACID.deploy(owner.address, owner.address, signerWallet.address);
+        const ROACH = await ethers.getContractFactory("ROACH");
+        roach = await ROACH.deploy(owner.address, owner.address, signerWallet.address);
+
+        // Deploy Crafter implementation behind CrafterProxy
+        const Crafter = await ethers.getContractFactory("Crafter");
+        const crafterImplementation = await Crafter.deploy();
+        const initializeData = crafterImplementation.interface.encodeFunctionData("initialize", [
+            await mockInventory.getAddress(),
+            await acid.getAddress(),
+            await roach.getAddress(),
+            owner.address
+        ]);
+        const CrafterProxy = await ethers.getContractFactory("CrafterProxy");
+        const proxy = await CrafterProxy.deploy(await crafterImplementation.getAddress(), initializeData);
+        crafter = crafterImplementation.attach(await proxy.getAddress());
+
+        await mockInventory.grantRole(await mockInventory.MINTER_ROLE(), await crafter.getAddress());
+        await mockInventory.grantRole(await mockInventory.BURNER_ROLE(), await crafter.getAddress());
+
+        await mockInventory.mint(user.address, 100, 4, "0x");
+        await mockInventory.mint(user.address, 101, 2, "0x");
+    });
+
+    function useSignature(token, value, signId) {
+        return sdk.signTokenUse(signerWallet, {id: signId, value, account: crafter.target, param: 0, contract: token.target});
+    }
+
+    describe("Deployment", function () {
+        it("Should grant admin and manager roles", async function () {
+            expect(await crafter.hasRole(ethers.ZeroHash, owner.address)).to.be.true;
+            expect(await crafter.hasRole(await crafter.MANAGER_ROLE(), owner.address)).to.be.true;
+            expect(await crafter.inventory()).to.equal(await mockInventory.getAddress());
+        });
+
+        it("Should not initialize twice", async function () {
+            await expect(crafter.initialize(owner.address, owner.address, owner.address, owner.address))
+                .to.be.revertedWithCustomError(crafter, "InvalidInitialization");
+        });
+
+        it("Should revert initialization with a zero admin", async function () {
+            const Crafter = await ethers.getContractFactory("Crafter");
+            const implementation = await Crafter.deploy();
+            const initializeData = implementation.interface.encodeFunctionData("initialize", [
+                await mockInventory.getAddress(),
+                await acid.getAddress(),
+                await roach.getAddress(),
+                ethers.ZeroAddress
+            ]);
+            const CrafterProxy = await ethers.getContractFactory("CrafterProxy");
+            await expect(CrafterProxy.deploy(await implementation.getAddress(), initializeData))
+                .to.be.revertedWithCustomError(implementation, "ZeroAddress");
+        });
+
+        it("Should only allow admin to upgrade", async function () {
+            const Crafter = await ethers.getContractFactory("Crafter");
+            const newImplementation = await Crafter.deploy();
+            await expect(crafter.connect(user).upgradeToAndCall(await newImplementation.getAddress(), "0x"))
+                .to.be.revertedWithCustomError(crafter, "AccessControlUnauthorizedAccount");
+            await expect(crafter.upgradeToAndCall(await newImplementation.getAddress(), "0x")).not.to.be.reverted;
+        });
+    });
+
+    describe("Recipe Management", function () {
+        it("Should set and read back a recipe", async function () {
+            await expect(crafter.setRecipe(RECIPE_ID, {...recipe, priceInAcid: 5, deadline: 1000}))
+                .to.emit(crafter, "RecipeSet")
+                .withArgs(RECIPE_ID, 5, 0, 0, 1000);
+
+            const stored = await crafter.getRecipe(RECIPE_ID);
+            expect(stored.inputIds).to.deep.equal([100n, 101n]);
+            expect(stored.inputCounts).to.deep.equal([2n, 1n]);
+            expect(stored.outputIds).to.deep.equal([200n]);
+            expect(stored.priceInAcid).to.equal(5);
+            expect(stored.deadline).to.equal(1000);
+        });
+
+        it("Should revert a recipe without outputs or with mismatched arrays", async function () {
+            await expect(crafter.setRecipe(RECIPE_ID, {...recipe, outputIds: [], outputCounts: []}))
+                .to.be.revertedWithCustomError(crafter, "InvalidRecipe");
+            await expect(crafter.setRecipe(RECIPE_ID, {...recipe, inputCounts: [2]}))
+                .to.be.revertedWithCustomError(crafter, "ArraysLengthMismatch");
+            await expect(crafter.setRecipe(RECIPE_ID, {...recipe, outputCounts: [1, 1]}))
+                .to.be.revertedWithCustomError(crafter, "ArraysLengthMismatch");
+        });
+
+        it("Should only allow manager to set recipes", async function () {
+            await expect(crafter.connect(user).setRecipe(RECIPE_ID, recipe))
+                .to.be.revertedWithCustomError(crafter, "AccessControlUnauthorizedAccount");
+        });
+    });
+
+    describe("craft", function () {
+        beforeEach(async function () {
+            await crafter.setRecipe(RECIPE_ID, recipe);
+        });
+
+        it("Should burn inputs and mint outputs", async function () {
+            await expect(crafter.connect(user).craft(RECIPE_ID))
+                .to.emit(crafter, "Crafted")
+                .withArgs(user.address, RECIPE_ID, 0, 0, 0);
+
+            expect(await mockInventory.balanceOf(user.address, 100)).to.equal(2);
+            expect(await mockInventory.balanceOf(user.address, 101)).to.equal(1);
+            expect(await mockInventory.balanceOf(user.address, 200)).to.equal(1);
+        });
+
+        it("Should revert without enough input items", async function () {
+            await crafter.connect(user).craft(RECIPE_ID);
+            await crafter.connect(user).craft(RECIPE_ID);
+            await expect(crafter.connect(user).craft(RECIPE_ID))
+                .to.be.revertedWithCustomError(crafter, "InsufficientItems");
+        });
+
+        it("Should revert for an unknown recipe", async function () {
+            await expect(crafter.connect(user).craft(2)).to.be.revertedWithCustomError(crafter, "InvalidRecipe");
+        });
+
+        it("Should enforce the crafting window", async function () {
+            const now = await time.latest();
+            await crafter.setRecipe(RECIPE_ID, {...recipe, startTime: now + 100});
+            await expect(crafter.connect(user).craft(RECIPE_ID)).to.be.revertedWithCustomError(crafter, "RecipeNotActive");
+
+            await crafter.setRecipe(RECIPE_ID, {...recipe, deadline: now});
+            await expect(crafter.connect(user).craft(RECIPE_ID)).to.be.revertedWithCustomError(crafter, "RecipeNotActive");
+        });
+
+        it("Should enforce the cooldown per account", async function () {
+            await crafter.setRecipe(RECIPE_ID, {...recipe, cooldown: 600});
+            await crafter.connect(user).craft(RECIPE_ID);
+            const craftedAt = await time.latest();
+
+            expect(await crafter.getNextCraftTime(user.address, RECIPE_ID)).to.equal(craftedAt + 600);
+            await expect(crafter.connect(user).craft(RECIPE_ID)).to.be.revertedWithCustomError(crafter, "CooldownActive");
+
+            await time.increase(600);
+            expect(await crafter.getNextCraftTime(user.address, RECIPE_ID)).to.equal(0);
+            await expect(crafter.connect(user).craft(RECIPE_ID)).not.to.be.reverted;
+        });
+
+        it("Should enforce the cooldown when crafting again from the receive hook", async function () {
+            const ReentrantCrafter = await ethers.getContractFactory("ReentrantCrafter");
+            const reentrant = await ReentrantCrafter.deploy(await crafter.getAddress());
+            await mockInventory.mint(await reentrant.getAddress(), 100, 4, "0x");
+            await mockInventory.mint(await reentrant.getAddress(), 101, 2, "0x");
+            await crafter.setRecipe(RECIPE_ID, {...recipe, cooldown: 600});
+
+            await expect(reentrant.craft(RECIPE_ID)).to.be.revertedWithCustomError(crafter, "CooldownActive");
+            expect(await mockInventory.balanceOf(await reentrant.getAddress(), 200)).to.equal(0);
+        });
+
+        it("Should require payment for priced recipes", async function () {
+            await crafter.setRecipe(RECIPE_ID, {...recipe, priceInRoach: 1});
+            await expect(crafter.connect(user).craft(RECIPE_ID)).to.be.revertedWithCustomError(crafter, "PaymentRequired");
+        });
+    });
+
+    describe("Paid crafting", function () {
+        const price = ethers.parseEther("10");
+
+        beforeEach(async function () {
+            await crafter.setRecipe(RECIPE_ID, {...recipe, priceInAcid: price});
+            await acid.mint(user.address, price);
+            await acid.connect(user).approve(await crafter.getAddress(), ethers.MaxUint256);
+        });
+
+        it("Should burn ACID and craft", async function () {
+            const sig = useSignature(acid, price, 1);
+            await expect(crafter.connect(user).craftForACID(RECIPE_ID, price, 1, sig.v, sig.r, sig.s))
+                .to.emit(crafter, "Crafted")
+                .withArgs(user.address, RECIPE_ID, price, 0, 1);
+
+            expect(await acid.balanceOf(user.address)).to.equal(0);
+            expect(await mockInventory.balanceOf(user.address, 200)).to.equal(1);
+        });
+
+        it("Should revert with insufficient payment", async function () {
+            const sig = useSignature(acid, price - 1n, 1);
+            await expect(crafter.connect(user).craftForACID(RECIPE_ID, price - 1n, 1, sig.v, sig.r, sig.s))
+                .to.be.revertedWithCustomError(crafter, "InsufficientPayment");
+        });
+
+        it("Should revert ROACH payment when the recipe has no ROACH price", async function () {
+            const sig = useSignature(roach, price, 1);
+            await expect(crafter.connect(user).craftForRoach(RECIPE_ID, price, 1, sig.v, sig.r, sig.s))
+                .to.be.revertedWithCustomError(crafter, "RoachPaymentNotAvailable");
+        });
+
+        it("Should burn ROACH and craft", async function () {
+            await crafter.setRecipe(RECIPE_ID, {...recipe, priceInRoach: price});
+            await roach.mint(user.address, price);
+            await roach.connect(user).approve(await crafter.getAddress(), ethers.MaxUint256);
+
+            const sig = useSignature(roach, price, 2);
+            await expect(crafter.connect(user).craftForRoach(RECIPE_ID, price, 2, sig.v, sig.r, sig.s))
+                .to.emit(crafter, "Crafted")
+                .withArgs(user.address, RECIPE_ID, 0, price, 2);
+            expect(await roach.balanceOf(user.address)).to.equal(0);
+        });
+    });
+});
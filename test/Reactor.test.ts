@@ -428,4 +428,293 @@ describe("Reactor", function () {
                 .to.be.reverted;
         });
     });
-});
\ No newline at end of file
+
+    describe("Status views", function () {
+        const {time} = require("@nomicfoundation/hardhat-network-helpers");
+        const reactorSdk = require("../sdk/reactor");
+
+        it("Should list owned reactors across series, levels and final variants", async function () {
+            expect(await reactor.getOwnedReactors(user.address)).to.deep.equal([]);
+
+            // 3006 = series 3000, final variant with battery offset 2
+            await mockInventory.mint(user.address, 2002, 1, "0x");
+            await mockInventory.mint(user.address, minReactorId, 1, "0x");
+            await mockInventory.mint(user.address, 3006, 1, "0x");
+
+            expect(await reactor.getOwnedReactors(user.address)).to.deep.equal([1000n, 2002n, 3006n]);
+        });
+
+        it("Should return battery history, predicted final variant and remaining time", async function () {
+            await mockInventory.mint(user.address, minReactorId, 1, "0x");
+            await mockInventory.mint(user.address, 3006, 1, "0x");
+            await mockInventory.mint(user.address, batteryItemIds[1], 1, "0x");
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[1]);
+            const activatedAt = await time.latest();
+
+            const reactors = await reactor.getReactorStatus(user.address);
+            expect(reactors.length).to.equal(2);
+            expect(reactors[0].itemId).to.equal(minReactorId + 1);
+            expect(reactors[0].seriesId).to.equal(minReactorId);
+            expect(reactors[0].activationLevel).to.equal(1);
+            expect(reactors[0].canActivate).to.be.true;
+            expect(reactors[0].batteryHistory).to.deep.equal([BigInt(batteryItemIds[1])]);
+            // Battery 998 has offset 1: series + activationCount + 1
+            expect(reactors[0].predictedFinalItemId).to.equal(minReactorId + activationCount + 1);
+            expect(reactors[0].activeUntil).to.equal(activatedAt + batteryDurations[1]);
+            expect(reactors[0].remainingTime).to.be.closeTo(batteryDurations[1], 1);
+
+            // Final variants report the capped level and cannot be activated
+            expect(reactors[1].itemId).to.equal(3006);
+            expect(reactors[1].activationLevel).to.equal(activationCount);
+            expect(reactors[1].canActivate).to.be.false;
+            // Cooldowns are per series, series 3000 is not affected
+            expect(reactors[1].remainingTime).to.equal(0);
+
+            await time.increase(batteryDurations[1]);
+            expect(await reactor.getRemainingActivationTime(user.address, minReactorId + 1)).to.equal(0);
+        });
+
+        it("Should return configured battery IDs", async function () {
+            expect(await reactor.getConfiguredBatteryIds()).to.deep.equal(batteryItemIds.map(BigInt));
+        });
+
+        it("Should render the status with the SDK client", async function () {
+            await mockInventory.mint(user.address, minReactorId, 1, "0x");
+            await mockInventory.mint(user.address, batteryItemIds[0], 1, "0x");
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+
+            const status = await reactorSdk.fetchReactorStatus(ethers.provider, await reactor.getAddress(), user.address);
+            expect(status.activationCount).to.equal(activationCount);
+            expect(status.reactors[0].batteryHistory).to.deep.equal([batteryItemIds[0]]);
+
+            const names = {[minReactorId]: "Reactor #1", [batteryItemIds[0]]: "Spark Cell"};
+            const [view] = reactorSdk.renderReactorStatus(status, {itemName: (id) => names[id] ?? `#${id}`});
+            expect(reactorSdk.formatDuration(300)).to.equal("5m 0s");
+            expect(view).to.deep.equal({
+                itemId: minReactorId + 1,
+                name: `#${minReactorId + 1}`,
+                seriesName: "Reactor #1",
+                state: "cooldown",
+                progress: "1/4",
+                batteries: ["Spark Cell"],
+                predictedFinal: `#${minReactorId + activationCount}`,
+                cooldown: reactorSdk.formatDuration(status.reactors[0].remainingTime),
+                readyAt: new Date(status.reactors[0].activeUntil * 1000),
+            });
+        });
+    });
+
+    // Reactor storage starts at slot 0 (OZ v5 upgradeable bases use namespaced storage), activeUntil is slot 6
+    async function setLegacyActiveUntil(account, timestamp) {
+        const slot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [account, 6]));
+        await ethers.provider.send("hardhat_setStorageAt", [
+            await reactor.getAddress(),
+            slot,
+            ethers.toBeHex(timestamp, 32),
+        ]);
+    }
+
+    describe("Per-series cooldowns", function () {
+        const {time} = require("@nomicfoundation/hardhat-network-helpers");
+        const secondSeries = minReactorId + reactorIdStep;
+
+        beforeEach(async function () {
+            // User holds two reactor families and a battery for each
+            await mockInventory.mint(user.address, minReactorId, 1, "0x");
+            await mockInventory.mint(user.address, secondSeries, 1, "0x");
+            await mockInventory.mint(user.address, batteryItemIds[0], 2, "0x");
+        });
+
+        it("Should activate another family while one is active", async function () {
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            await expect(reactor.connect(user).activate(secondSeries, batteryItemIds[0]))
+                .to.emit(reactor, "Activated");
+
+            expect(await mockInventory.balanceOf(user.address, minReactorId + 1)).to.equal(1);
+            expect(await mockInventory.balanceOf(user.address, secondSeries + 1)).to.equal(1);
+        });
+
+        it("Should keep the cooldown within a family", async function () {
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            await reactor.connect(user).activate(secondSeries, batteryItemIds[0]);
+
+            await mockInventory.mint(user.address, batteryItemIds[0], 1, "0x");
+            await expect(reactor.connect(user).activate(secondSeries + 1, batteryItemIds[0]))
+                .to.be.revertedWithCustomError(reactor, "ActivationStillActive");
+        });
+
+        it("Should track expiry per series", async function () {
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            const activatedAt = await time.latest();
+
+            expect(await reactor.seriesActiveUntil(user.address, minReactorId)).to.equal(activatedAt + batteryDurations[0]);
+            expect(await reactor.seriesActiveUntil(user.address, secondSeries)).to.equal(0);
+            expect(await reactor.getActiveUntil(user.address, minReactorId + 1)).to.equal(activatedAt + batteryDurations[0]);
+            expect(await reactor.activeUntil(user.address)).to.equal(0);
+        });
+
+        it("Should not share cooldowns between users", async function () {
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+
+            await mockInventory.mint(owner.address, minReactorId, 1, "0x");
+            await mockInventory.mint(owner.address, batteryItemIds[0], 1, "0x");
+            await expect(reactor.connect(owner).activate(minReactorId, batteryItemIds[0]))
+                .to.emit(reactor, "Activated");
+        });
+
+        it("Should honor a legacy per-user expiry for every series until it passes", async function () {
+            const legacyExpiry = (await time.latest()) + 300;
+            await setLegacyActiveUntil(user.address, legacyExpiry);
+            expect(await reactor.activeUntil(user.address)).to.equal(legacyExpiry);
+
+            await expect(reactor.connect(user).activate(minReactorId, batteryItemIds[0]))
+                .to.be.revertedWithCustomError(reactor, "ActivationStillActive");
+            await expect(reactor.connect(user).activate(secondSeries, batteryItemIds[0]))
+                .to.be.revertedWithCustomError(reactor, "ActivationStillActive");
+
+            await time.increaseTo(legacyExpiry + 1);
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            await expect(reactor.connect(user).activate(secondSeries, batteryItemIds[0]))
+                .to.emit(reactor, "Activated");
+        });
+
+        it("Should keep per-series state across an implementation upgrade", async function () {
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            const expiry = await reactor.seriesActiveUntil(user.address, minReactorId);
+
+            const Reactor = await ethers.getContractFactory("Reactor");
+            const newImplementation = await Reactor.deploy();
+            await reactor.upgradeToAndCall(await newImplementation.getAddress(), "0x");
+
+            expect(await reactor.seriesActiveUntil(user.address, minReactorId)).to.equal(expiry);
+            expect(await reactor.getBatteryHistory(user.address, minReactorId + 1)).to.deep.equal([BigInt(batteryItemIds[0])]);
+        });
+    });
+
+    describe("revertActivation", function () {
+        const {time} = require("@nomicfoundation/hardhat-network-helpers");
+
+        // Activates reactorItemId with batteryItemId and returns the minted item ID
+        async function activate(reactorItemId, batteryItemId) {
+            await mockInventory.mint(user.address, batteryItemId, 1, "0x");
+            await time.increase(batteryDurations[batteryDurations.length - 1] + 1);
+            const tx = await reactor.connect(user).activate(reactorItemId, batteryItemId);
+            const receipt = await tx.wait();
+            const event = receipt.logs.map(log => reactor.interface.parseLog(log)).find(log => log && log.name === "Activated");
+            return Number(event.args.newItemId);
+        }
+
+        beforeEach(async function () {
+            await mockInventory.mint(user.address, minReactorId, 1, "0x");
+        });
+
+        it("Should restore the previous level and pop the last battery", async function () {
+            const level1 = await activate(minReactorId, batteryItemIds[0]);
+            const level2 = await activate(level1, batteryItemIds[1]);
+
+            await expect(reactor.revertActivation(user.address, level2, false))
+                .to.emit(reactor, "ActivationReverted")
+                .withArgs(user.address, level2, level1, batteryItemIds[1], false);
+
+            expect(await mockInventory.balanceOf(user.address, level2)).to.equal(0);
+            expect(await mockInventory.balanceOf(user.address, level1)).to.equal(1);
+            expect(await mockInventory.balanceOf(user.address, batteryItemIds[1])).to.equal(0);
+            expect(await reactor.getBatteryHistory(user.address, level1)).to.deep.equal([BigInt(batteryItemIds[0])]);
+        });
+
+        it("Should refund the battery when requested", async function () {
+            const level1 = await activate(minReactorId, batteryItemIds[2]);
+
+            await expect(reactor.revertActivation(user.address, level1, true))
+                .to.emit(reactor, "ActivationReverted")
+                .withArgs(user.address, level1, minReactorId, batteryItemIds[2], true);
+
+            expect(await mockInventory.balanceOf(user.address, minReactorId)).to.equal(1);
+            expect(await mockInventory.balanceOf(user.address, batteryItemIds[2])).to.equal(1);
+            expect(await reactor.getBatteryHistory(user.address, minReactorId)).to.deep.equal([]);
+        });
+
+        it("Should restore the last activatable level from a final variant", async function () {
+            let itemId = minReactorId;
+            for (const batteryItemId of [batteryItemIds[0], batteryItemIds[1], batteryItemIds[2], batteryItemIds[1]]) {
+                itemId = await activate(itemId, batteryItemId);
+            }
+            const lastLevel = minReactorId + activationCount - 1;
+            expect(itemId).to.be.greaterThan(minReactorId + activationCount);
+
+            await expect(reactor.revertActivation(user.address, itemId, false))
+                .to.emit(reactor, "ActivationReverted")
+                .withArgs(user.address, itemId, lastLevel, batteryItemIds[1], false);
+
+            expect(await mockInventory.balanceOf(user.address, itemId)).to.equal(0);
+            expect(await mockInventory.balanceOf(user.address, lastLevel)).to.equal(1);
+            expect(await reactor.getBatteryHistory(user.address, lastLevel)).to.have.length(activationCount - 1);
+        });
+
+        it("Should clear the series cooldown", async function () {
+            await mockInventory.mint(user.address, batteryItemIds[0], 2, "0x");
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            expect(await reactor.getRemainingActivationTime(user.address, minReactorId + 1)).to.be.greaterThan(0);
+
+            await reactor.revertActivation(user.address, minReactorId + 1, false);
+
+            expect(await reactor.seriesActiveUntil(user.address, minReactorId)).to.equal(0);
+            await expect(reactor.connect(user).activate(minReactorId, batteryItemIds[0]))
+                .to.emit(reactor, "Activated");
+        });
+
+        it("Should not unlock other series when reverting one", async function () {
+            const secondSeries = minReactorId + reactorIdStep;
+            await mockInventory.mint(user.address, secondSeries, 1, "0x");
+            await mockInventory.mint(user.address, batteryItemIds[0], 2, "0x");
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            await reactor.connect(user).activate(secondSeries, batteryItemIds[0]);
+
+            await reactor.revertActivation(user.address, minReactorId + 1, false);
+
+            await expect(reactor.connect(user).activate(secondSeries + 1, batteryItemIds[0]))
+                .to.be.revertedWithCustomError(reactor, "ActivationStillActive");
+        });
+
+        it("Should leave a legacy per-user expiry set before the upgrade", async function () {
+            const secondSeries = minReactorId + reactorIdStep;
+            await mockInventory.mint(user.address, secondSeries, 1, "0x");
+            await mockInventory.mint(user.address, batteryItemIds[0], 2, "0x");
+            await reactor.connect(user).activate(minReactorId, batteryItemIds[0]);
+            const legacyExpiry = (await time.latest()) + 86400;
+            await setLegacyActiveUntil(user.address, legacyExpiry);
+
+            await reactor.revertActivation(user.address, minReactorId + 1, false);
+
+            expect(await reactor.activeUntil(user.address)).to.equal(legacyExpiry);
+            await expect(reactor.connect(user).activate(secondSeries, batteryItemIds[0]))
+                .to.be.revertedWithCustomError(reactor, "ActivationStillActive");
+        });
+
+        it("Should revert for a base level reactor", async function () {
+            await expect(reactor.revertActivation(user.address, minReactorId, false))
+                .to.be.revertedWithCustomError(reactor, "NoActivationToRevert");
+        });
+
+        it("Should revert without battery history", async function () {
+            await mockInventory.mint(user.address, minReactorId + 1, 1, "0x");
+
+            await expect(reactor.revertActivation(user.address, minReactorId + 1, false))
+                .to.be.revertedWithCustomError(reactor, "NoActivationToRevert");
+        });
+
+        it("Should revert if the user doesn't own the reactor", async function () {
+            const level1 = await activate(minReactorId, batteryItemIds[0]);
+
+            await expect(reactor.revertActivation(owner.address, level1, false))
+                .to.be.revertedWithCustomError(reactor, "ItemNotOwned");
+        });
+
+        it("Should revert if caller is not a manager", async function () {
+            const level1 = await activate(minReactorId, batteryItemIds[0]);
+
+            await expect(reactor.connect(user).revertActivation(user.address, level1, true))
+                .to.be.revertedWithCustomError(reactor, "AccessControlUnauthorizedAccount");
+        });
+    });
+});
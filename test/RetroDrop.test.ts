@@ -3,6 +3,8 @@ import { Wallet } from "zksync-ethers";
 import * as hre from "hardhat";
 import { Deployer } from "@matterlabs/hardhat-zksync";
 import "@nomicfoundation/hardhat-chai-matchers";
+import { signRetroDropClaim } from "../sdk/signers";
+import { RetroDropMerkleTree, calculateRetroDropAmount, previewRetroDropClaim } from "../sdk/retroDrop";
 
 // Use ZKsync's default rich wallet for local testing
 const RICH_WALLET_PK = "0x7726827caac94a7f9e1b160f7ea819f172f7b6f9d2a97f992c38edeab82d4110";
@@ -30,21 +32,7 @@ describe("RetroDrop", function () {
         contractAddress: string,
         signerWallet: Wallet
     ) {
-        const messageHash = hre.ethers.keccak256(
-            hre.ethers.AbiCoder.defaultAbiCoder().encode(
-                ["uint256", "address", "uint256", "uint256", "uint256", "address"],
-                [signId, account, roachMax, deadline, chainId, contractAddress]
-            )
-        );
-
-        // Sign the hash directly without EIP-191 prefix
-        const sig = signerWallet.signingKey.sign(messageHash);
-
-        return {
-            v: sig.v,
-            r: sig.r,
-            s: sig.s
-        };
+        return signRetroDropClaim(signerWallet, {signId, account, roachMax, deadline, chainId, contract: contractAddress});
     }
 
     beforeEach(async () => {
@@ -80,7 +68,9 @@ describe("RetroDrop", function () {
             admin,
             signer.address,
             await roachToken.getAddress(),
-            await votingEscrow.getAddress()
+            await votingEscrow.getAddress(),
+            7 * 24 * 60 * 60, // epoch: 1 week
+            208 // maxLockWeeks
         ]);
 
         // Mint ROACH tokens to the RetroDrop contract
@@ -161,6 +151,68 @@ describe("RetroDrop", function () {
         });
     });
 
+    describe("Off-chain calculator", () => {
+        const params = {maxLockWeeks: 208};
+        const PRECISION = 10n ** 18n;
+
+        // Deterministic pseudo-random uint256 so failures reproduce
+        function random(label: string, i: number): bigint {
+            return BigInt(hre.ethers.keccak256(hre.ethers.toUtf8Bytes(`${label}-${i}`)));
+        }
+
+        // Largest roachMax for which roachMax * sqrt((lockWeeks + 1) * PRECISION) does not overflow
+        function maxRoachMax(lockWeeks: bigint): bigint {
+            let sqrt = 0n;
+            for (let bit = 128n; bit >= 0n; bit--) {
+                const candidate = sqrt | (1n << bit);
+                if (candidate * candidate <= (lockWeeks + 1n) * PRECISION) {
+                    sqrt = candidate;
+                }
+            }
+            return hre.ethers.MaxUint256 / sqrt;
+        }
+
+        async function expectMatch(roachMax: bigint, lockWeeks: bigint) {
+            let expected: bigint | undefined;
+            try {
+                expected = await retroDrop.calculateAmount(roachMax, lockWeeks);
+            } catch {
+                // Contract reverted on overflow, the port must throw as well
+            }
+            if (expected === undefined) {
+                expect(() => calculateRetroDropAmount(roachMax, lockWeeks, params), `roachMax=${roachMax} lockWeeks=${lockWeeks}`)
+                    .to.throw(RangeError);
+                return;
+            }
+            expect(calculateRetroDropAmount(roachMax, lockWeeks, params), `roachMax=${roachMax} lockWeeks=${lockWeeks}`).to.equal(expected);
+            expect(previewRetroDropClaim(roachMax, lockWeeks, params)).to.equal(await retroDrop.previewClaim(roachMax, lockWeeks));
+        }
+
+        it("Should match calculateAmount for randomized roachMax and lockWeeks", async () => {
+            for (let i = 0; i < 40; i++) {
+                const lockWeeks = random("lockWeeks", i) % 210n;
+                // Spread roachMax over magnitudes from wei to the overflow bound
+                const roachMax = random("roachMax", i) >> (random("shift", i) % 256n);
+                await expectMatch(roachMax, lockWeeks);
+            }
+        });
+
+        it("Should match at the MAX_LOCK_WEEKS and DIVISOR edges", async () => {
+            expect(await retroDrop.MAX_LOCK_WEEKS()).to.equal(208);
+            expect(await retroDrop.DIVISOR()).to.equal(209);
+            for (const lockWeeks of [0n, 1n, 207n, 208n, 209n]) {
+                for (const roachMax of [0n, 1n, hre.ethers.parseEther("1000"), maxRoachMax(lockWeeks), maxRoachMax(lockWeeks) + 1n]) {
+                    await expectMatch(roachMax, lockWeeks);
+                }
+            }
+        });
+
+        it("Should throw where calculateAmount overflows", async () => {
+            await expectMatch(hre.ethers.MaxUint256, 0n);
+            await expectMatch(1n, hre.ethers.MaxUint256 / PRECISION);
+        });
+    });
+
     describe("Claiming with lockWeeks=0 (direct transfer)", () => {
         it("Should transfer tokens directly for lockWeeks=0", async () => {
             const roachMax = hre.ethers.parseEther("1000");
@@ -361,6 +413,18 @@ describe("RetroDrop", function () {
             ).to.be.revertedWithCustomError(retroDrop, "SignIdAlreadyUsed");
         });
 
+        it("Should allow several signed claims by the same account with different signIds", async () => {
+            const roachMax = hre.ethers.parseEther("1000");
+            const deadline = Math.floor(Date.now() / 1000) + 3600;
+            const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+            const first = await createClaimSignature(16, user.address, roachMax, deadline, chainId, await retroDrop.getAddress(), signer);
+            const second = await createClaimSignature(17, user.address, roachMax, deadline, chainId, await retroDrop.getAddress(), signer);
+
+            await retroDrop.connect(user).claim(0, 16, roachMax, deadline, first.v, first.r, first.s);
+            await expect(retroDrop.connect(user).claim(0, 17, roachMax, deadline, second.v, second.r, second.s))
+                .not.to.be.reverted;
+        });
+
         it("Should revert if signature is invalid (wrong signer)", async () => {
             const roachMax = hre.ethers.parseEther("1000");
             const deadline = Math.floor(Date.now() / 1000) + 3600;
@@ -426,6 +490,180 @@ describe("RetroDrop", function () {
         });
     });
 
+    describe("Merkle mode", () => {
+        const roachMax = hre.ethers.parseEther("1000");
+        let tree: RetroDropMerkleTree;
+
+        beforeEach(async () => {
+            tree = new RetroDropMerkleTree([
+                {account: user.address, roachMax},
+                {account: Wallet.createRandom().address, roachMax: hre.ethers.parseEther("500")},
+                {account: Wallet.createRandom().address, roachMax: hre.ethers.parseEther("250")},
+            ]);
+            await retroDrop.setMerkleRoot(tree.root);
+        });
+
+        it("Should claim with a proof and lock for lockWeeks", async () => {
+            const lockWeeks = 52;
+            const expectedAmount = await retroDrop.calculateAmount(roachMax, lockWeeks);
+
+            await expect(retroDrop.connect(user).claimWithProof(lockWeeks, roachMax, tree.getProof(user.address)))
+                .to.emit(retroDrop, "ClaimedWithProof")
+                .withArgs(user.address, roachMax, lockWeeks, expectedAmount, 1);
+
+            expect(await votingEscrow.ownerOf(1)).to.equal(user.address);
+            expect(await retroDrop.merkleClaimed(user.address)).to.be.true;
+        });
+
+        it("Should transfer directly for lockWeeks=0", async () => {
+            await retroDrop.connect(user).claimWithProof(0, roachMax, tree.getProof(user.address));
+            expect(await roachToken.balanceOf(user.address)).to.equal(await retroDrop.calculateAmount(roachMax, 0));
+        });
+
+        it("Should revert a second claim by the same account", async () => {
+            const proof = tree.getProof(user.address);
+            await retroDrop.connect(user).claimWithProof(0, roachMax, proof);
+            await expect(retroDrop.connect(user).claimWithProof(0, roachMax, proof))
+                .to.be.revertedWithCustomError(retroDrop, "AlreadyClaimed");
+        });
+
+        it("Should keep signature claims independent of proof claims", async () => {
+            const deadline = Math.floor(Date.now() / 1000) + 3600;
+            const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+            const sig = await createClaimSignature(21, user.address, roachMax, deadline, chainId, await retroDrop.getAddress(), signer);
+
+            await retroDrop.connect(user).claim(0, 21, roachMax, deadline, sig.v, sig.r, sig.s);
+            expect(await retroDrop.merkleClaimed(user.address)).to.be.false;
+            await expect(retroDrop.connect(user).claimWithProof(0, roachMax, tree.getProof(user.address)))
+                .to.emit(retroDrop, "ClaimedWithProof");
+        });
+
+        it("Should revert with a wrong roachMax or another account's proof", async () => {
+            const proof = tree.getProof(user.address);
+            await expect(retroDrop.connect(user).claimWithProof(0, roachMax + 1n, proof))
+                .to.be.revertedWithCustomError(retroDrop, "InvalidProof");
+            await expect(retroDrop.connect(wallet).claimWithProof(0, roachMax, proof))
+                .to.be.revertedWithCustomError(retroDrop, "InvalidProof");
+        });
+
+        it("Should revert if lockWeeks > 208", async () => {
+            await expect(retroDrop.connect(user).claimWithProof(209, roachMax, tree.getProof(user.address)))
+                .to.be.revertedWithCustomError(retroDrop, "InvalidLockWeeks");
+        });
+
+        it("Should revert when the root is not set", async () => {
+            await retroDrop.setMerkleRoot(hre.ethers.ZeroHash);
+            await expect(retroDrop.connect(user).claimWithProof(0, roachMax, tree.getProof(user.address)))
+                .to.be.revertedWithCustomError(retroDrop, "MerkleRootNotSet");
+        });
+
+        it("Should only allow admin to set the root", async () => {
+            await expect(retroDrop.connect(user).setMerkleRoot(tree.root))
+                .to.be.revertedWithCustomError(retroDrop, "AccessControlUnauthorizedAccount");
+            await expect(retroDrop.setMerkleRoot(tree.root))
+                .to.emit(retroDrop, "MerkleRootSet")
+                .withArgs(tree.root);
+        });
+    });
+
+    describe("Claim window", () => {
+        const roachMax = hre.ethers.parseEther("1000");
+
+        async function latestTimestamp(): Promise<number> {
+            return (await hre.ethers.provider.getBlock("latest"))!.timestamp;
+        }
+
+        async function claimAs(signId: number) {
+            const deadline = (await latestTimestamp()) + 3600;
+            const chainId = (await hre.ethers.provider.getNetwork()).chainId;
+            const sig = await createClaimSignature(signId, user.address, roachMax, deadline, chainId, await retroDrop.getAddress(), signer);
+            return retroDrop.connect(user).claim(0, signId, roachMax, deadline, sig.v, sig.r, sig.s);
+        }
+
+        it("Should claim without a window by default", async () => {
+            expect(await retroDrop.claimStart()).to.equal(0);
+            expect(await retroDrop.claimEnd()).to.equal(0);
+            await expect(claimAs(1)).not.to.be.reverted;
+        });
+
+        it("Should revert before claimStart and after claimEnd", async () => {
+            const now = await latestTimestamp();
+            await retroDrop.setClaimWindow(now + 3600, now + 7200);
+            await expect(claimAs(1)).to.be.revertedWithCustomError(retroDrop, "ClaimNotStarted");
+
+            await retroDrop.setClaimWindow(now - 3600, now - 1);
+            await expect(claimAs(1)).to.be.revertedWithCustomError(retroDrop, "ClaimEnded");
+        });
+
+        it("Should apply the window to claimWithProof", async () => {
+            const tree = new RetroDropMerkleTree([{account: user.address, roachMax}]);
+            await retroDrop.setMerkleRoot(tree.root);
+            const now = await latestTimestamp();
+            await retroDrop.setClaimWindow(now - 3600, now - 1);
+
+            await expect(retroDrop.connect(user).claimWithProof(0, roachMax, tree.getProof(user.address)))
+                .to.be.revertedWithCustomError(retroDrop, "ClaimEnded");
+        });
+
+        it("Should only allow admin to set a valid window", async () => {
+            await expect(retroDrop.connect(user).setClaimWindow(0, 0))
+                .to.be.revertedWithCustomError(retroDrop, "AccessControlUnauthorizedAccount");
+            await expect(retroDrop.setClaimWindow(100, 100))
+                .to.be.revertedWithCustomError(retroDrop, "InvalidClaimWindow");
+            await expect(retroDrop.setClaimWindow(100, 200))
+                .to.emit(retroDrop, "ClaimWindowSet")
+                .withArgs(100, 200);
+        });
+
+        it("Should revert sweep while the window is open or unbounded", async () => {
+            await expect(retroDrop.sweep(admin, 0)).to.be.revertedWithCustomError(retroDrop, "ClaimWindowOpen");
+
+            const now = await latestTimestamp();
+            await retroDrop.setClaimWindow(0, now + 3600);
+            await expect(retroDrop.sweep(admin, 0)).to.be.revertedWithCustomError(retroDrop, "ClaimWindowOpen");
+        });
+
+        it("Should sweep the remainder to the treasury", async () => {
+            await claimAs(1);
+            const remainder = await retroDrop.getRoachBalance();
+            const treasury = Wallet.createRandom().address;
+            const now = await latestTimestamp();
+            await retroDrop.setClaimWindow(0, now - 1);
+
+            await expect(retroDrop.sweep(treasury, 0))
+                .to.emit(retroDrop, "Swept")
+                .withArgs(treasury, remainder, 0, 0);
+
+            expect(await roachToken.balanceOf(treasury)).to.equal(remainder);
+            expect(await retroDrop.getRoachBalance()).to.equal(0);
+            await expect(retroDrop.sweep(treasury, 0)).to.be.revertedWithCustomError(retroDrop, "ZeroValue");
+        });
+
+        it("Should sweep the remainder into a VotingEscrow lock for the treasury", async () => {
+            const remainder = await retroDrop.getRoachBalance();
+            const treasury = Wallet.createRandom().address;
+            const now = await latestTimestamp();
+            await retroDrop.setClaimWindow(0, now - 1);
+
+            await expect(retroDrop.sweep(treasury, 104))
+                .to.emit(retroDrop, "Swept")
+                .withArgs(treasury, remainder, 104, 1);
+
+            expect(await votingEscrow.ownerOf(1)).to.equal(treasury);
+            expect(await votingEscrow.balanceOfNFT(1)).to.be.gt(0);
+        });
+
+        it("Should validate sweep arguments and role", async () => {
+            const now = await latestTimestamp();
+            await retroDrop.setClaimWindow(0, now - 1);
+
+            await expect(retroDrop.sweep(hre.ethers.ZeroAddress, 0)).to.be.revertedWithCustomError(retroDrop, "ZeroAddress");
+            await expect(retroDrop.sweep(admin, 209)).to.be.revertedWithCustomError(retroDrop, "InvalidLockWeeks");
+            await expect(retroDrop.connect(user).sweep(user.address, 0))
+                .to.be.revertedWithCustomError(retroDrop, "AccessControlUnauthorizedAccount");
+        });
+    });
+
     describe("Withdrawal", () => {
         it("Should allow admin to withdraw specific amount", async () => {
             const withdrawAmount = hre.ethers.parseEther("100");
@@ -0,0 +1,154 @@
+const {expect} = require("chai");
+const {ethers} = require("hardhat");
+require("@nomicfoundation/hardhat-chai-matchers");
+const sdk = require("../sdk/signers");
+
+// claimBatch: mixed ERC20 / ETH / TRAX payloads are claimed atomically, one fee is charged per batch
+
+describe("Claim batch", function () {
+    const signerWallet = new ethers.Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+
+    let owner, user, chainId;
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+        ({chainId} = await ethers.provider.getNetwork());
+    });
+
+    async function deadline() {
+        const block = await ethers.provider.getBlock('latest');
+        return block.timestamp + 3600;
+    }
+
+    const CASES = [
+        {
+            name: "Claimer",
+            error: "InvalidSignature",
+            // Claimer does not sign a fee for ETH claims
+            ethFee: 0n,
+            unsignedEthFee: true,
+            deploy: async (trax) => {
+                const Claimer = await ethers.getContractFactory("Claimer");
+                return Claimer.deploy(owner.address, signerWallet.address, await trax.getAddress());
+            },
+            sign: sdk.signClaimerClaimBatch,
+            signTyped: sdk.signClaimerClaimBatchTyped,
+        },
+        {
+            name: "BankV2",
+            error: "WrongSignature",
+            ethFee: 3n,
+            deploy: async (trax) => {
+                const BankV2 = await ethers.getContractFactory("BankV2");
+                return BankV2.deploy(owner.address, owner.address, signerWallet.address, await trax.getAddress());
+            },
+            sign: sdk.signBankV2ClaimBatch,
+            signTyped: sdk.signBankV2ClaimBatchTyped,
+        },
+    ];
+
+    for (const testCase of CASES) {
+        describe(testCase.name, function () {
+            let contract, trax, testToken, items;
+
+            beforeEach(async function () {
+                const TRAX = await ethers.getContractFactory("TRAX");
+                trax = await TRAX.deploy(owner.address, owner.address, signerWallet.address);
+                const TestToken = await ethers.getContractFactory("TestToken");
+                testToken = await TestToken.deploy();
+                contract = await testCase.deploy(trax);
+
+                await trax.grantRole(await trax.MINTER_ROLE(), await contract.getAddress());
+                await testToken.mint(await contract.getAddress(), 1000n);
+                await owner.sendTransaction({to: await contract.getAddress(), value: 1000n});
+
+                const itemDeadline = await deadline();
+                items = [
+                    {token: await testToken.getAddress(), value: 100n, fee: 10n, deadline: itemDeadline, signId: 1},
+                    {token: ethers.ZeroAddress, value: 200n, fee: testCase.ethFee, deadline: itemDeadline, signId: 2},
+                    {token: await trax.getAddress(), value: 300n, fee: 5n, deadline: itemDeadline, signId: 3},
+                ];
+            });
+
+            function signBatch(batchItems, typed = false) {
+                const message = {account: user.address, items: batchItems, contract: contract.target, chainId};
+                return typed ? testCase.signTyped(signerWallet, message) : testCase.sign(signerWallet, message);
+            }
+
+            it("Should claim mixed ERC20, ETH and TRAX payloads", async function () {
+                const batch = signBatch(items);
+                expect(batch.fee).to.equal(10n);
+
+                const tx = contract.connect(owner).claimBatch(batch.account, batch.claims, {value: batch.fee});
+                await expect(tx).to.changeEtherBalance(user, 200n);
+                expect(await testToken.balanceOf(user.address)).to.equal(100n);
+                expect(await trax.balanceOf(user.address)).to.equal(300n);
+                for (const item of items) {
+                    expect(await contract.isSignIdUsed(item.signId)).to.be.true;
+                }
+            });
+
+            it("Should claim a typed batch", async function () {
+                const batch = signBatch(items, true);
+                await expect(contract.claimBatchTyped(batch.account, batch.claims, {value: batch.fee})).not.to.be.reverted;
+                expect(await trax.balanceOf(user.address)).to.equal(300n);
+            });
+
+            it("Should reject legacy signatures in claimBatchTyped", async function () {
+                const batch = signBatch(items);
+                await expect(contract.claimBatchTyped(batch.account, batch.claims, {value: batch.fee}))
+                    .to.be.revertedWithCustomError(contract, testCase.error);
+            });
+
+            it("Should require the highest fee of the batch once", async function () {
+                const batch = signBatch(items);
+                await expect(contract.claimBatch(batch.account, batch.claims, {value: batch.fee - 1n}))
+                    .to.be.revertedWithCustomError(contract, "InsufficientFee");
+
+                const tx = contract.claimBatch(batch.account, batch.claims, {value: 10n});
+                await expect(tx).to.changeEtherBalance(contract, 10n - 200n);
+            });
+
+            if (testCase.unsignedEthFee) {
+                it("Should reject a fee on ETH payloads", async function () {
+                    const batch = signBatch(items);
+                    const claims = batch.claims.map(claim => claim.token === ethers.ZeroAddress ? {...claim, fee: 1n} : claim);
+                    await expect(contract.claimBatch(batch.account, claims, {value: batch.fee}))
+                        .to.be.revertedWithCustomError(contract, "UnexpectedFee");
+                });
+            }
+
+            it("Should revert the whole batch if one signId is already used", async function () {
+                const single = signBatch([items[2]]);
+                await contract.claimBatch(single.account, single.claims, {value: single.fee});
+
+                const batch = signBatch(items);
+                await expect(contract.claimBatch(batch.account, batch.claims, {value: batch.fee}))
+                    .to.be.revertedWithCustomError(contract, "SignIdAlreadyUsed");
+
+                // Earlier items of the reverted batch are not consumed and can be claimed without the used one
+                expect(await contract.isSignIdUsed(items[0].signId)).to.be.false;
+                expect(await contract.isSignIdUsed(items[1].signId)).to.be.false;
+                const rest = signBatch(items.slice(0, 2));
+                await expect(contract.claimBatch(rest.account, rest.claims, {value: rest.fee})).not.to.be.reverted;
+                expect(await testToken.balanceOf(user.address)).to.equal(100n);
+            });
+
+            it("Should revert a batch repeating a signId", async function () {
+                const batch = signBatch([items[0], {...items[0]}]);
+                await expect(contract.claimBatch(batch.account, batch.claims, {value: batch.fee}))
+                    .to.be.revertedWithCustomError(contract, "SignIdAlreadyUsed");
+            });
+
+            it("Should reject a payload signed for another account", async function () {
+                const batch = signBatch(items);
+                await expect(contract.claimBatch(owner.address, batch.claims, {value: batch.fee}))
+                    .to.be.revertedWithCustomError(contract, testCase.error);
+            });
+
+            it("Should revert an empty batch", async function () {
+                await expect(contract.claimBatch(user.address, [])).to.be.revertedWithCustomError(contract, "EmptyBatch");
+            });
+        });
+    }
+});
@@ -1,6 +1,7 @@
 const {expect} = require("chai");
 const {ethers} = require("hardhat");
 require("@nomicfoundation/hardhat-chai-matchers");
+const {signGridleClaimEth, signGridleDepositEth} = require("../sdk/signers");
 
 describe("Gridle", function () {
     let grid, owner, withdrawRole, refundRole, signer, user1, user2;
@@ -25,38 +26,14 @@ describe("Gridle", function () {
         await grid.grantRole(await grid.REFUND_ROLE(), refundRole.address);
     });
 
-    // Common signing function
-    function signMessageHash(messageHash) {
-        const signingKey = new ethers.SigningKey(signerPrivateKey);
-        const signature = signingKey.sign(messageHash);
-
-        return {
-            v: signature.v,
-            r: signature.r,
-            s: signature.s
-        };
-    }
-
     // Helper function to create signatures for ETH deposit operations (with deadline and systemBalance)
     async function createDepositSignature(signId, account, value, contractAddress, deadline, systemBalance = 0) {
-        const messageHash = ethers.keccak256(
-            ethers.AbiCoder.defaultAbiCoder().encode(
-                ["uint256", "address", "uint256", "uint256", "uint256", "address"],
-                [signId, account, value, deadline, systemBalance, contractAddress]
-            )
-        );
-        return signMessageHash(messageHash);
+        return signGridleDepositEth(new ethers.SigningKey(signerPrivateKey), {signId, account, value, deadline, systemBalance, contract: contractAddress});
     }
 
     // Helper function to create signatures for ETH claim operations (without deadline)
     async function createClaimSignature(signId, account, value, contractAddress) {
-        const messageHash = ethers.keccak256(
-            ethers.AbiCoder.defaultAbiCoder().encode(
-                ["uint256", "address", "uint256", "address"],
-                [signId, account, value, contractAddress]
-            )
-        );
-        return signMessageHash(messageHash);
+        return signGridleClaimEth(new ethers.SigningKey(signerPrivateKey), {signId, account, value, contract: contractAddress});
     }
 
     describe("Deployment", function () {
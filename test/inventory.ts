@@ -1,6 +1,7 @@
 const {expect} = require("chai");
 const {ethers} = require("hardhat");
 require("@nomicfoundation/hardhat-chai-matchers");
+const {signInventoryClaim, signInventoryUse} = require("../sdk/signers");
 
 describe("Inventory", function () {
     let inventory, owner, minter, burner, banRole, withdrawRole, pauserRole, signer, user1, user2;
@@ -222,21 +223,7 @@ describe("Inventory", function () {
         });
 
         function createClaimSignature(signId, account, id, amount, fee, deadline, data, contractAddress) {
-            const messageHash = ethers.keccak256(
-                ethers.AbiCoder.defaultAbiCoder().encode(
-                    ["uint256", "address", "uint256", "uint256", "uint256", "uint256", "bytes", "address", "string"],
-                    [signId, account, id, amount, fee, deadline, data, contractAddress, "claim"]
-                )
-            );
-
-            const signingKey = new ethers.SigningKey(signerPrivateKey);
-            const signature = signingKey.sign(messageHash);
-
-            return {
-                v: signature.v,
-                r: signature.r,
-                s: signature.s
-            };
+            return signInventoryClaim(new ethers.SigningKey(signerPrivateKey), {signId, account, tokenId: id, amount, fee, deadline, data, contract: contractAddress});
         }
 
         it("Should allow valid claims with signature", async function () {
@@ -413,21 +400,7 @@ describe("Inventory", function () {
         });
 
         function createUseSignature(signId, account, id, amount, fee, deadline, data, contractAddress) {
-            const messageHash = ethers.keccak256(
-                ethers.AbiCoder.defaultAbiCoder().encode(
-                    ["uint256", "address", "uint256", "uint256", "uint256", "uint256", "bytes", "address", "string"],
-                    [signId, account, id, amount, fee, deadline, data, contractAddress, "use"]
-                )
-            );
-            
-            const signingKey = new ethers.SigningKey(signerPrivateKey);
-            const signature = signingKey.sign(messageHash);
-            
-            return {
-                v: signature.v,
-                r: signature.r,
-                s: signature.s
-            };
+            return signInventoryUse(new ethers.SigningKey(signerPrivateKey), {signId, account, id, amount, fee, deadline, data, contract: contractAddress});
         }
 
         it("Should allow valid use with signature and deadline", async function () {
@@ -562,21 +535,7 @@ describe("Inventory", function () {
             const data = "0x1234";
 
             function createClaimSignature(signId, account, id, amount, fee, deadline, data, contractAddress) {
-                const messageHash = ethers.keccak256(
-                    ethers.AbiCoder.defaultAbiCoder().encode(
-                        ["uint256", "address", "uint256", "uint256", "uint256", "uint256", "bytes", "address", "string"],
-                        [signId, account, id, amount, fee, deadline, data, contractAddress, "claim"]
-                    )
-                );
-
-                const signingKey = new ethers.SigningKey(signerPrivateKey);
-                const signature = signingKey.sign(messageHash);
-
-                return {
-                    v: signature.v,
-                    r: signature.r,
-                    s: signature.s
-                };
+                return signInventoryClaim(new ethers.SigningKey(signerPrivateKey), {signId, account, tokenId: id, amount, fee, deadline, data, contract: contractAddress});
             }
 
             const sig = createClaimSignature(signId, user1.address, id, amount, fee, deadline, data, await inventory.getAddress());
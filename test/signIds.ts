@@ -0,0 +1,124 @@
+const {expect} = require("chai");
+const {ethers} = require("hardhat");
+require("@nomicfoundation/hardhat-chai-matchers");
+const os = require("os");
+const path = require("path");
+const fs = require("fs");
+const sdk = require("../sdk/signers");
+const {SignIdAllocator, reconcileAllocated, reconcileSignIds} = require("../sdk/signIds");
+
+describe("signId allocation", function () {
+    const signerWallet = new ethers.Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+    const contractA = "0x000000000000000000000000000000000000000A";
+    const contractB = "0x000000000000000000000000000000000000000B";
+
+    let owner, user;
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+    });
+
+    function issued(account, deadline?: number) {
+        return {kind: "claimerClaimTrax", account, deadline, issuedAt: 0};
+    }
+
+    describe("SignIdAllocator", function () {
+        it("Should allocate increasing signIds per contract", async function () {
+            const allocator = new SignIdAllocator(undefined, 100n);
+            expect(allocator.allocate(contractA, "claimer", issued(user.address))).to.equal(100n);
+            expect(allocator.allocate(contractA, "claimer", issued(user.address))).to.equal(101n);
+            expect(allocator.allocate(contractB, "gridle", issued(user.address))).to.equal(100n);
+            expect(allocator.issued(contractA, 101n).account).to.equal(user.address.toLowerCase());
+        });
+
+        it("Should continue from the persisted file", async function () {
+            const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "sign-ids-")), "allocator.json");
+            new SignIdAllocator(file, 100n).allocate(contractA, "claimer", issued(user.address));
+
+            const reloaded = new SignIdAllocator(file, 1n);
+            expect(reloaded.allocate(contractA, "claimer", issued(user.address))).to.equal(101n);
+        });
+
+        it("Should skip past an on-chain lastSignId", async function () {
+            const allocator = new SignIdAllocator(undefined, 100n);
+            allocator.ensureAbove(contractA, "gridle", 500n);
+            expect(allocator.allocate(contractA, "gridle", issued(user.address))).to.equal(501n);
+            allocator.ensureAbove(contractA, "gridle", 10n);
+            expect(allocator.allocate(contractA, "gridle", issued(user.address))).to.equal(502n);
+        });
+
+        it("Should reject a contract allocated under another type", async function () {
+            const allocator = new SignIdAllocator(undefined, 100n);
+            allocator.allocate(contractA, "claimer", issued(user.address));
+            expect(() => allocator.allocate(contractA, "bankV2", issued(user.address))).to.throw("allocated as claimer");
+        });
+    });
+
+    describe("Reconciliation", function () {
+        let trax, claimer, allocator;
+
+        beforeEach(async function () {
+            const TRAX = await ethers.getContractFactory("TRAX");
+            trax = await TRAX.deploy(owner.address, owner.address, signerWallet.address);
+            const Claimer = await ethers.getContractFactory("Claimer");
+            claimer = await Claimer.deploy(owner.address, signerWallet.address, await trax.getAddress());
+            await trax.grantRole(await trax.MINTER_ROLE(), await claimer.getAddress());
+            allocator = new SignIdAllocator(undefined, 1n);
+        });
+
+        async function issueClaim(ttl) {
+            const block = await ethers.provider.getBlock('latest');
+            const deadline = block.timestamp + ttl;
+            const contract = await claimer.getAddress();
+            const signId = allocator.allocate(contract, "claimer", issued(user.address, deadline));
+            const message = {signId, account: user.address, value: 10n, fee: 0n, deadline, traxToken: await trax.getAddress(), contract};
+            return {message, sig: sdk.signClaimerClaimTrax(signerWallet, message)};
+        }
+
+        function claim({message, sig}) {
+            return claimer.connect(user).claimTrax(message.account, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s);
+        }
+
+        it("Should report consumed, pending and expired signIds", async function () {
+            const consumed = await issueClaim(3600);
+            const expired = await issueClaim(60);
+            const pending = await issueClaim(3600);
+            const tx = await claim(consumed);
+
+            await ethers.provider.send("evm_increaseTime", [120]);
+            await ethers.provider.send("evm_mine", []);
+
+            const contract = await claimer.getAddress();
+            const reports = await reconcileAllocated(ethers.provider, contract, allocator.contracts()[contract.toLowerCase()], {fromBlock: 0});
+            const byId = Object.fromEntries(reports.map(report => [report.signId, report]));
+
+            expect(byId[consumed.message.signId.toString()].status).to.equal("consumed");
+            expect(byId[consumed.message.signId.toString()].consumedBy.txHash).to.equal(tx.hash);
+            expect(byId[consumed.message.signId.toString()].consumedBy.event).to.equal("ClaimedTrax");
+            expect(byId[expired.message.signId.toString()].status).to.equal("expired");
+            expect(byId[pending.message.signId.toString()].status).to.equal("pending");
+        });
+
+        it("Should report consumed signIds outside the scanned block range", async function () {
+            const issuedClaim = await issueClaim(3600);
+            await claim(issuedClaim);
+
+            const [report] = await reconcileSignIds(ethers.provider, await claimer.getAddress(), "claimer",
+                [{signId: issuedClaim.message.signId}], {fromBlock: 0, toBlock: 0});
+            expect(report.status).to.equal("consumed");
+            expect(report.consumedBy).to.be.undefined;
+        });
+
+        it("Should reconcile TRAX use ids from Used events", async function () {
+            await trax.mint(user.address, 100n);
+            const contract = await trax.getAddress();
+            const sig = sdk.signTokenUse(signerWallet, {id: 7, value: 10n, account: user.address, param: 0, contract});
+            await trax.connect(user).use(10n, 7, 0, sig.v, sig.r, sig.s);
+
+            const reports = await reconcileSignIds(ethers.provider, contract, "trax", [{signId: 7n}, {signId: 8n}], {fromBlock: 0, blockRange: 2});
+            expect(reports.map(report => report.status)).to.deep.equal(["consumed", "pending"]);
+            expect(reports[0].consumedBy.event).to.equal("Used");
+            expect(reports[0].consumedBy.account).to.equal(user.address);
+        });
+    });
+});
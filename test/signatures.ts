@@ -0,0 +1,392 @@
+const {expect} = require("chai");
+const {ethers} = require("hardhat");
+require("@nomicfoundation/hardhat-chai-matchers");
+const sdk = require("../sdk/signers");
+
+// Signature layout conformance: for every signed entrypoint sign with the SDK and check the contract accepts it,
+// then change one signed field at a time and check the contract rejects the signature.
+// Catches field order, missing address(this) / block.chainid and tag mismatches between SDK and Solidity
+
+describe("Signature conformance", function () {
+    const signerPrivateKey = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+    const signingKey = new ethers.SigningKey(signerPrivateKey);
+    const signerAddress = new ethers.Wallet(signerPrivateKey).address;
+
+    let owner, user, other;
+
+    beforeEach(async function () {
+        [owner, user, other] = await ethers.getSigners();
+    });
+
+    async function deadline() {
+        const block = await ethers.provider.getBlock('latest');
+        return block.timestamp + 3600;
+    }
+
+    async function deployTestToken() {
+        const TestToken = await ethers.getContractFactory("TestToken");
+        return TestToken.deploy();
+    }
+
+    async function deployInventory() {
+        const Inventory = await ethers.getContractFactory("Inventory");
+        const implementation = await Inventory.deploy();
+        const initData = implementation.interface.encodeFunctionData("initialize", [
+            owner.address,
+            signerAddress,
+            "https://example.com/metadata/",
+            "https://example.com/contract-metadata"
+        ]);
+        const InventoryProxy = await ethers.getContractFactory("InventoryProxy");
+        const proxy = await InventoryProxy.deploy(await implementation.getAddress(), initData);
+        return implementation.attach(await proxy.getAddress());
+    }
+
+    // Change a signed value so that the resulting hash differs: numbers +1, addresses swapped, bytes extended
+    function mutate(value) {
+        if (typeof value === "string" && ethers.isAddress(value)) {
+            return value.toLowerCase() === other.address.toLowerCase() ? owner.address : other.address;
+        }
+        if (typeof value === "string") {
+            return ethers.concat([value, "0x00"]);
+        }
+        return BigInt(value) + 1n;
+    }
+
+    // Each case: contract with the signed entrypoint, SDK message, SDK hash function and the call to test.
+    // `fields` lists every signed message field, for `tagged` entrypoints `tagHash` re-hashes the message
+    // with another entrypoint tag ("claim" / "use")
+    interface SignedCall {
+        contract: any;
+        message: Record<string, any>;
+        hash: (message: any) => string;
+        call: (sig: any) => Promise<any>;
+    }
+
+    type SignatureCase = {
+        name: string;
+        error: string;
+        fields: string[];
+    } & ({
+        tagged?: false;
+        setup: () => Promise<SignedCall>;
+    } | {
+        tagged: true;
+        setup: () => Promise<SignedCall & { tagHash: (message: any) => string }>;
+    });
+
+    // TestToken stands in for the claimed ERC20 and TRAX, its mint is public
+    async function deployBankV2WithFunds() {
+        const testToken = await deployTestToken();
+        const BankV2 = await ethers.getContractFactory("BankV2");
+        const bank = await BankV2.deploy(owner.address, owner.address, signerAddress, await testToken.getAddress());
+        await testToken.mint(await bank.getAddress(), 1000n);
+        await owner.sendTransaction({to: await bank.getAddress(), value: 1000n});
+        const base = {signId: 1, account: user.address, value: 100n, fee: 10n, deadline: await deadline(), contract: await bank.getAddress()};
+        return {bank, testToken, base};
+    }
+
+    const CASES: SignatureCase[] = [
+        {
+            name: "Inventory.claim",
+            error: "WrongSignature",
+            tagged: true,
+            fields: ["signId", "account", "tokenId", "amount", "fee", "deadline", "data", "contract"],
+            setup: async () => {
+                const inventory = await deployInventory();
+                const message = {signId: 1, account: user.address, tokenId: 10, amount: 5, fee: 100n, deadline: await deadline(), data: "0x1234", contract: await inventory.getAddress()};
+                return {
+                    contract: inventory,
+                    message,
+                    hash: sdk.hashInventoryClaim,
+                    tagHash: (m) => sdk.hashInventoryUse({...m, id: m.tokenId}),
+                    call: (sig) => inventory.connect(user).claim(message.signId, message.tokenId, message.amount, message.fee, message.deadline, sig.v, sig.r, sig.s, message.data, {value: message.fee}),
+                };
+            },
+        },
+        {
+            name: "Inventory.use",
+            error: "WrongSignature",
+            tagged: true,
+            fields: ["signId", "account", "id", "amount", "fee", "deadline", "data", "contract"],
+            setup: async () => {
+                const inventory = await deployInventory();
+                await inventory.grantRole(await inventory.MINTER_ROLE(), owner.address);
+                await inventory.mint(user.address, 10, 5, "0x");
+                const message = {signId: 1, account: user.address, id: 10, amount: 5, fee: 100n, deadline: await deadline(), data: "0x1234", contract: await inventory.getAddress()};
+                return {
+                    contract: inventory,
+                    message,
+                    hash: sdk.hashInventoryUse,
+                    tagHash: (m) => sdk.hashInventoryClaim({...m, tokenId: m.id}),
+                    call: (sig) => inventory.connect(user).use(message.signId, message.id, message.amount, message.fee, message.deadline, sig.v, sig.r, sig.s, message.data, {value: message.fee}),
+                };
+            },
+        },
+        ...["claim", "claimTrax", "claimEth"].map((method): SignatureCase => ({
+            name: `Claimer.${method}`,
+            error: "InvalidSignature",
+            fields: method === "claim" ? ["signId", "account", "token", "value", "fee", "deadline", "contract"]
+                : method === "claimTrax" ? ["signId", "account", "traxToken", "value", "fee", "deadline", "contract"]
+                : ["signId", "account", "value", "deadline", "contract"],
+            setup: async () => {
+                const testToken = await deployTestToken();
+                const TRAX = await ethers.getContractFactory("TRAX");
+                const trax = await TRAX.deploy(owner.address, owner.address, signerAddress);
+                const Claimer = await ethers.getContractFactory("Claimer");
+                const claimer = await Claimer.deploy(owner.address, signerAddress, await trax.getAddress());
+                await testToken.mint(await claimer.getAddress(), 1000n);
+                await trax.grantRole(await trax.MINTER_ROLE(), await claimer.getAddress());
+                await owner.sendTransaction({to: await claimer.getAddress(), value: 1000n});
+
+                const base = {signId: 1, account: user.address, value: 100n, deadline: await deadline(), contract: await claimer.getAddress()};
+                if (method === "claim") {
+                    const message = {...base, token: await testToken.getAddress(), fee: 10n};
+                    return {
+                        contract: claimer, message, hash: sdk.hashClaimerClaim,
+                        call: (sig) => claimer.connect(user).claim(message.account, message.token, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                    };
+                }
+                if (method === "claimTrax") {
+                    const message = {...base, traxToken: await trax.getAddress(), fee: 10n};
+                    return {
+                        contract: claimer, message, hash: sdk.hashClaimerClaimTrax,
+                        call: (sig) => claimer.connect(user).claimTrax(message.account, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                    };
+                }
+                const message = base;
+                return {
+                    contract: claimer, message, hash: sdk.hashClaimerClaimEth,
+                    call: (sig) => claimer.connect(user).claimEth(message.account, message.value, message.deadline, message.signId, sig.v, sig.r, sig.s),
+                };
+            },
+        })),
+        ...["useETH", "useToken"].map((method): SignatureCase => ({
+            name: `BankV2.${method}`,
+            error: "WrongSignature",
+            tagged: true,
+            fields: method === "useETH" ? ["signId", "value", "account", "param", "deadline", "contract"]
+                : ["signId", "value", "token", "account", "param", "deadline", "contract"],
+            setup: async () => {
+                const testToken = await deployTestToken();
+                const BankV2 = await ethers.getContractFactory("BankV2");
+                const bank = await BankV2.deploy(owner.address, owner.address, signerAddress, await testToken.getAddress());
+                const base = {signId: 1, value: 100n, account: user.address, param: 7, deadline: await deadline(), contract: await bank.getAddress()};
+                // Same fields signed as a claim instead of a use
+                const tagHash = (m) => sdk.hashBankV2Claim({...m, token: m.token ?? ethers.ZeroAddress, fee: 0});
+
+                if (method === "useETH") {
+                    const message = base;
+                    return {
+                        contract: bank, message, hash: sdk.hashBankV2UseETH, tagHash,
+                        call: (sig) => bank.connect(user).useETH(message.signId, message.param, message.deadline, sig.v, sig.r, sig.s, {value: message.value}),
+                    };
+                }
+                await testToken.mint(user.address, 1000n);
+                await testToken.connect(user).approve(await bank.getAddress(), 1000n);
+                const message = {...base, token: await testToken.getAddress()};
+                return {
+                    contract: bank, message, hash: sdk.hashBankV2UseToken, tagHash,
+                    call: (sig) => bank.connect(user).useToken(message.token, message.value, message.signId, message.param, message.deadline, sig.v, sig.r, sig.s),
+                };
+            },
+        })),
+        {
+            name: "BankV2.claim",
+            error: "WrongSignature",
+            tagged: true,
+            fields: ["signId", "account", "token", "value", "fee", "deadline", "contract"],
+            setup: async () => {
+                const {bank, testToken, base} = await deployBankV2WithFunds();
+                const message = {...base, token: await testToken.getAddress()};
+                return {
+                    contract: bank, message, hash: sdk.hashBankV2Claim,
+                    tagHash: (m) => ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+                        ["string", "uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
+                        ["use", m.signId, m.account, m.token, m.value, m.fee, m.deadline, m.contract],
+                    )),
+                    call: (sig) => bank.connect(user).claim(message.account, message.token, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                };
+            },
+        },
+        ...["claimEth", "claimTrax"].map((method): SignatureCase => ({
+            name: `BankV2.${method}`,
+            error: "WrongSignature",
+            fields: method === "claimTrax" ? ["signId", "account", "traxToken", "value", "fee", "deadline", "contract"]
+                : ["signId", "account", "value", "fee", "deadline", "contract"],
+            setup: async () => {
+                const {bank, testToken, base} = await deployBankV2WithFunds();
+                if (method === "claimTrax") {
+                    const message = {...base, traxToken: await testToken.getAddress()};
+                    return {
+                        contract: bank, message, hash: sdk.hashBankV2ClaimTrax,
+                        call: (sig) => bank.connect(user).claimTrax(message.account, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                    };
+                }
+                const message = base;
+                return {
+                    contract: bank, message, hash: sdk.hashBankV2ClaimEth,
+                    call: (sig) => bank.connect(user).claimEth(message.account, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                };
+            },
+        })),
+        {
+            name: "RetroDrop.claim",
+            error: "InvalidSignature",
+            fields: ["signId", "account", "roachMax", "deadline", "chainId", "contract"],
+            setup: async () => {
+                const roach = await deployTestToken();
+                const RetroDrop = await ethers.getContractFactory("RetroDrop");
+                // lockWeeks = 0 transfers directly, VotingEscrow is not called
+                const retroDrop = await RetroDrop.deploy(owner.address, signerAddress, await roach.getAddress(), owner.address, 7 * 24 * 60 * 60, 208);
+                await roach.mint(await retroDrop.getAddress(), ethers.parseEther("1000"));
+                const {chainId} = await ethers.provider.getNetwork();
+                const message = {signId: 1, account: user.address, roachMax: ethers.parseEther("100"), deadline: await deadline(), chainId, contract: await retroDrop.getAddress()};
+                return {
+                    contract: retroDrop, message, hash: sdk.hashRetroDropClaim,
+                    call: (sig) => retroDrop.connect(user).claim(0, message.signId, message.roachMax, message.deadline, sig.v, sig.r, sig.s),
+                };
+            },
+        },
+        {
+            name: "Gridle.depositEth",
+            error: "WrongSignature",
+            fields: ["signId", "account", "value", "deadline", "systemBalance", "contract"],
+            setup: async () => {
+                const Gridle = await ethers.getContractFactory("Gridle");
+                const grid = await Gridle.deploy(owner.address, signerAddress);
+                const message = {signId: 1, account: user.address, value: 100n, deadline: await deadline(), systemBalance: 0, contract: await grid.getAddress()};
+                return {
+                    contract: grid, message, hash: sdk.hashGridleDepositEth,
+                    call: (sig) => grid.connect(user).depositEth(message.signId, message.deadline, message.systemBalance, sig.v, sig.r, sig.s, {value: message.value}),
+                };
+            },
+        },
+        {
+            name: "Gridle.claimEth",
+            error: "WrongSignature",
+            fields: ["signId", "account", "value", "contract"],
+            setup: async () => {
+                const Gridle = await ethers.getContractFactory("Gridle");
+                const grid = await Gridle.deploy(owner.address, signerAddress);
+                await owner.sendTransaction({to: await grid.getAddress(), value: 1000n});
+                const message = {signId: 1, account: user.address, value: 100n, contract: await grid.getAddress()};
+                return {
+                    contract: grid, message, hash: sdk.hashGridleClaimEth,
+                    call: (sig) => grid.connect(user).claimEth(message.signId, message.account, message.value, sig.v, sig.r, sig.s),
+                };
+            },
+        },
+        ...["GridleToken", "Bank"].flatMap(artifact => [
+            {
+                name: `${artifact}.depositToken`,
+                error: "WrongSignature",
+                fields: ["signId", "account", "token", "amount", "deadline", "systemBalance", "contract"],
+                setup: async () => {
+                    const testToken = await deployTestToken();
+                    const Factory = await ethers.getContractFactory(artifact);
+                    const bank = await Factory.deploy(owner.address, signerAddress);
+                    await testToken.mint(user.address, 1000n);
+                    await testToken.connect(user).approve(await bank.getAddress(), 1000n);
+                    const message = {signId: 1, account: user.address, token: await testToken.getAddress(), amount: 100n, deadline: await deadline(), systemBalance: 0, contract: await bank.getAddress()};
+                    return {
+                        contract: bank, message, hash: sdk.hashDepositToken,
+                        call: (sig) => bank.connect(user).depositToken(message.signId, message.token, message.amount, message.deadline, message.systemBalance, sig.v, sig.r, sig.s),
+                    };
+                },
+            },
+            {
+                name: `${artifact}.claimToken`,
+                error: "WrongSignature",
+                fields: ["signId", "account", "token", "amount", "contract"],
+                setup: async () => {
+                    const testToken = await deployTestToken();
+                    const Factory = await ethers.getContractFactory(artifact);
+                    const bank = await Factory.deploy(owner.address, signerAddress);
+                    await testToken.mint(await bank.getAddress(), 1000n);
+                    const message = {signId: 1, account: user.address, token: await testToken.getAddress(), amount: 100n, contract: await bank.getAddress()};
+                    return {
+                        contract: bank, message, hash: sdk.hashClaimToken,
+                        call: (sig) => bank.connect(user).claimToken(message.signId, message.account, message.token, message.amount, sig.v, sig.r, sig.s),
+                    };
+                },
+            },
+        ]),
+        ...["TRAX", "ACID", "ROACH"].map((artifact): SignatureCase => ({
+            name: `${artifact}.use`,
+            error: "WrongSignature",
+            fields: ["id", "value", "account", "param", "contract"],
+            setup: async () => {
+                const Factory = await ethers.getContractFactory(artifact);
+                const token = await Factory.deploy(owner.address, owner.address, signerAddress);
+                await token.mint(user.address, 1000n);
+                const message = {id: 1, value: 100n, account: user.address, param: 7, contract: await token.getAddress()};
+                return {
+                    contract: token, message, hash: sdk.hashTokenUse,
+                    call: (sig) => token.connect(user).use(message.value, message.id, message.param, sig.v, sig.r, sig.s),
+                };
+            },
+        })),
+        {
+            name: "ACID.claim",
+            error: "WrongSignature",
+            tagged: true,
+            fields: ["id", "account", "amount", "contract"],
+            setup: async () => {
+                const ACID = await ethers.getContractFactory("ACID");
+                const acid = await ACID.deploy(owner.address, owner.address, signerAddress);
+                const message = {id: 1, account: user.address, amount: 100n, contract: await acid.getAddress()};
+                return {
+                    contract: acid, message, hash: sdk.hashAcidClaim,
+                    // Same fields signed as a use (param = 0) instead of a claim
+                    tagHash: (m) => sdk.hashTokenUse({id: m.id, value: m.amount, account: m.account, param: 0, contract: m.contract}),
+                    call: (sig) => acid.connect(user).claim(message.id, message.account, message.amount, sig.v, sig.r, sig.s),
+                };
+            },
+        },
+        {
+            name: "Badges.claim",
+            error: "WrongSignature",
+            fields: ["signId", "account", "id", "fee", "contract"],
+            setup: async () => {
+                const Badges = await ethers.getContractFactory("Badges");
+                const badges = await Badges.deploy(owner.address, signerAddress, "");
+                const message = {signId: 1, account: user.address, id: 3, fee: 10n, contract: await badges.getAddress()};
+                return {
+                    contract: badges, message, hash: sdk.hashBadgesClaim,
+                    call: (sig) => badges.connect(user).claim(message.signId, message.id, message.fee, sig.v, sig.r, sig.s, {value: message.fee}),
+                };
+            },
+        },
+    ];
+
+    for (const testCase of CASES) {
+        describe(testCase.name, function () {
+            it("Should accept SDK signature", async function () {
+                const {message, hash, call} = await testCase.setup();
+                await expect(call(sdk.signHash(signingKey, hash(message)))).not.to.be.reverted;
+            });
+
+            for (const field of testCase.fields) {
+                it(`Should reject signature with changed ${field}`, async function () {
+                    const {contract, message, hash, call} = await testCase.setup();
+                    const sig = sdk.signHash(signingKey, hash({...message, [field]: mutate(message[field])}));
+                    await expect(call(sig)).to.be.revertedWithCustomError(contract, testCase.error);
+                });
+            }
+
+            if (testCase.tagged) {
+                it("Should reject signature made for another entrypoint tag", async function () {
+                    const {contract, message, tagHash, call} = await testCase.setup();
+                    await expect(call(sdk.signHash(signingKey, tagHash(message)))).to.be.revertedWithCustomError(contract, testCase.error);
+                });
+            }
+
+            it("Should reject signature from another key", async function () {
+                const {contract, message, hash, call} = await testCase.setup();
+                const sig = sdk.signHash(ethers.Wallet.createRandom().signingKey, hash(message));
+                await expect(call(sig)).to.be.revertedWithCustomError(contract, testCase.error);
+            });
+        });
+    }
+});
@@ -0,0 +1,126 @@
+const {expect} = require("chai");
+const {ethers} = require("hardhat");
+require("@nomicfoundation/hardhat-chai-matchers");
+const sdk = require("../sdk/signers");
+
+// Signer rotation: signerAddress and additional signers (addSigner) are both accepted,
+// additional signers stop being accepted after their expiry or removeSigner
+
+describe("Signer rotation", function () {
+    const oldSignerWallet = new ethers.Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+    const newSignerWallet = new ethers.Wallet("0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a");
+
+    let owner, user, other;
+
+    beforeEach(async function () {
+        [owner, user, other] = await ethers.getSigners();
+    });
+
+    async function now() {
+        const block = await ethers.provider.getBlock('latest');
+        return block.timestamp;
+    }
+
+    // Each case deploys with oldSignerWallet as signerAddress and returns a call taking the signing wallet and a fresh id
+    const CASES = [
+        ...["TRAX", "ACID", "ROACH"].map(artifact => ({
+            name: artifact,
+            setup: async () => {
+                const Factory = await ethers.getContractFactory(artifact);
+                const token = await Factory.deploy(owner.address, owner.address, oldSignerWallet.address);
+                await token.mint(user.address, 1000n);
+                const contract = await token.getAddress();
+                return {
+                    contract: token,
+                    call: (wallet, id) => {
+                        const sig = sdk.signTokenUse(wallet, {id, value: 10n, account: user.address, param: 0, contract});
+                        return token.connect(user).use(10n, id, 0, sig.v, sig.r, sig.s);
+                    },
+                };
+            },
+        })),
+        {
+            name: "Gridle",
+            setup: async () => {
+                const Gridle = await ethers.getContractFactory("Gridle");
+                const grid = await Gridle.deploy(owner.address, oldSignerWallet.address);
+                await owner.sendTransaction({to: await grid.getAddress(), value: 1000n});
+                const contract = await grid.getAddress();
+                return {
+                    contract: grid,
+                    call: (wallet, signId) => {
+                        const sig = sdk.signGridleClaimEth(wallet, {signId, account: user.address, value: 10n, contract});
+                        return grid.connect(user).claimEth(signId, user.address, 10n, sig.v, sig.r, sig.s);
+                    },
+                };
+            },
+        },
+    ];
+
+    for (const testCase of CASES) {
+        describe(testCase.name, function () {
+            it("Should accept old and added signer during the overlap", async function () {
+                const {contract, call} = await testCase.setup();
+                await expect(contract.addSigner(newSignerWallet.address, 0))
+                    .to.emit(contract, "SignerAdded").withArgs(newSignerWallet.address, 0);
+
+                expect(await contract.isSigner(oldSignerWallet.address)).to.be.true;
+                expect(await contract.isSigner(newSignerWallet.address)).to.be.true;
+                await expect(call(oldSignerWallet, 1)).not.to.be.reverted;
+                await expect(call(newSignerWallet, 2)).not.to.be.reverted;
+            });
+
+            it("Should reject added signer after expiry", async function () {
+                const {contract, call} = await testCase.setup();
+                const expiry = await now() + 100;
+                await contract.addSigner(newSignerWallet.address, expiry);
+                await expect(call(newSignerWallet, 1)).not.to.be.reverted;
+
+                await ethers.provider.send("evm_increaseTime", [101]);
+                await ethers.provider.send("evm_mine", []);
+
+                expect(await contract.isSigner(newSignerWallet.address)).to.be.false;
+                await expect(call(newSignerWallet, 2)).to.be.revertedWithCustomError(contract, "WrongSignature");
+            });
+
+            it("Should reject removed signer", async function () {
+                const {contract, call} = await testCase.setup();
+                await contract.addSigner(newSignerWallet.address, 0);
+                await expect(contract.removeSigner(newSignerWallet.address))
+                    .to.emit(contract, "SignerRemoved").withArgs(newSignerWallet.address);
+
+                expect(await contract.signerExpiry(newSignerWallet.address)).to.equal(0);
+                await expect(call(newSignerWallet, 1)).to.be.revertedWithCustomError(contract, "WrongSignature");
+            });
+
+            it("Should complete rotation with setSigner and removeSigner", async function () {
+                const {contract, call} = await testCase.setup();
+                await contract.addSigner(newSignerWallet.address, 0);
+                await contract.setSigner(newSignerWallet.address);
+                await contract.removeSigner(newSignerWallet.address);
+
+                expect(await contract.isSigner(newSignerWallet.address)).to.be.true;
+                await expect(call(newSignerWallet, 1)).not.to.be.reverted;
+                await expect(call(oldSignerWallet, 2)).to.be.revertedWithCustomError(contract, "WrongSignature");
+            });
+
+            it("Should revert addSigner with zero address", async function () {
+                const {contract} = await testCase.setup();
+                await expect(contract.addSigner(ethers.ZeroAddress, 0)).to.be.revertedWithCustomError(contract, "ZeroAddress");
+            });
+
+            it("Should not treat zero address as signer", async function () {
+                const {contract} = await testCase.setup();
+                expect(await contract.isSigner(ethers.ZeroAddress)).to.be.false;
+            });
+
+            it("Should revert addSigner and removeSigner from non-admin", async function () {
+                const {contract} = await testCase.setup();
+                await expect(contract.connect(other).addSigner(newSignerWallet.address, 0))
+                    .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+                await expect(contract.connect(other).removeSigner(oldSignerWallet.address))
+                    .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+            });
+        });
+    }
+});
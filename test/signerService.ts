@@ -0,0 +1,125 @@
+const {expect} = require("chai");
+const {ethers} = require("hardhat");
+require("@nomicfoundation/hardhat-chai-matchers");
+const os = require("os");
+const path = require("path");
+const fs = require("fs");
+const {SignIdStore, SignerService, createSignerServer} = require("../sdk/signerService");
+
+// Local signer service: signatures fetched over HTTP must be accepted by the contracts,
+// signIds never repeat (also across restarts) and quotas / deadlines are enforced
+
+describe("Signer service", function () {
+    const signerWallet = new ethers.Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+
+    let owner, user, other, chainId;
+    let trax, claimer, grid, storeFile, server, baseUrl;
+
+    beforeEach(async function () {
+        [owner, user, other] = await ethers.getSigners();
+        ({chainId} = await ethers.provider.getNetwork());
+
+        const TRAX = await ethers.getContractFactory("TRAX");
+        trax = await TRAX.deploy(owner.address, owner.address, signerWallet.address);
+        const Claimer = await ethers.getContractFactory("Claimer");
+        claimer = await Claimer.deploy(owner.address, signerWallet.address, await trax.getAddress());
+        await trax.grantRole(await trax.MINTER_ROLE(), await claimer.getAddress());
+        const Gridle = await ethers.getContractFactory("Gridle");
+        grid = await Gridle.deploy(owner.address, signerWallet.address);
+        await owner.sendTransaction({to: await grid.getAddress(), value: 1000n});
+
+        storeFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "signer-service-")), "store.json");
+        await startServer();
+    });
+
+    afterEach(async function () {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    async function startServer(options = {}) {
+        const service = new SignerService({
+            signer: signerWallet,
+            chainId,
+            contracts: {
+                claimer: await claimer.getAddress(),
+                gridle: await grid.getAddress(),
+                trax: await trax.getAddress(),
+            },
+            store: new SignIdStore(storeFile),
+            quota: 3,
+            maxTtl: 600,
+            now: async () => (await ethers.provider.getBlock('latest')).timestamp,
+            ...options,
+        });
+        server = createSignerServer(service);
+        await new Promise(resolve => server.listen(0, resolve));
+        baseUrl = `http://127.0.0.1:${server.address().port}`;
+    }
+
+    async function requestSignature(kind, body) {
+        const response = await fetch(`${baseUrl}/sign/${kind}`, {method: "POST", body: JSON.stringify(body)});
+        return {status: response.status, body: await response.json()};
+    }
+
+    function claimTrax(sig) {
+        return claimer.connect(user).claimTrax(sig.account, sig.value, sig.fee, sig.deadline, sig.signId, sig.v, sig.r, sig.s);
+    }
+
+    it("Should issue signatures accepted by Claimer and Gridle", async function () {
+        const traxSig = await requestSignature("claimerClaimTrax", {account: user.address, value: "100"});
+        expect(traxSig.status).to.equal(200);
+        await expect(claimTrax(traxSig.body)).not.to.be.reverted;
+        expect(await trax.balanceOf(user.address)).to.equal(100n);
+
+        const gridSig = await requestSignature("gridleClaimEth", {account: user.address, value: 10});
+        expect(gridSig.status).to.equal(200);
+        const s = gridSig.body;
+        await expect(grid.connect(user).claimEth(s.signId, s.account, s.value, s.v, s.r, s.s)).not.to.be.reverted;
+    });
+
+    it("Should issue unique signIds per contract across restarts", async function () {
+        const first = await requestSignature("claimerClaimTrax", {account: user.address, value: 1});
+        const second = await requestSignature("claimerClaimTrax", {account: user.address, value: 1});
+        expect(BigInt(second.body.signId)).to.equal(BigInt(first.body.signId) + 1n);
+
+        await new Promise(resolve => server.close(resolve));
+        await startServer();
+
+        const third = await requestSignature("claimerClaimTrax", {account: user.address, value: 1});
+        expect(BigInt(third.body.signId)).to.equal(BigInt(second.body.signId) + 1n);
+        for (const sig of [first, second, third]) {
+            await expect(claimTrax(sig.body)).not.to.be.reverted;
+        }
+    });
+
+    it("Should enforce per-account quota", async function () {
+        for (let i = 0; i < 3; i++) {
+            expect((await requestSignature("claimerClaimTrax", {account: user.address, value: 1})).status).to.equal(200);
+        }
+        const rejected = await requestSignature("claimerClaimTrax", {account: user.address, value: 1});
+        expect(rejected.status).to.equal(429);
+
+        expect((await requestSignature("claimerClaimTrax", {account: other.address, value: 1})).status).to.equal(200);
+    });
+
+    it("Should sign deadlines no later than maxTtl", async function () {
+        const tooLong = await requestSignature("claimerClaimTrax", {account: user.address, value: 1, ttl: 601});
+        expect(tooLong.status).to.equal(400);
+
+        const sig = await requestSignature("claimerClaimTrax", {account: user.address, value: 1, ttl: 60});
+        const block = await ethers.provider.getBlock('latest');
+        expect(sig.body.deadline).to.equal(block.timestamp + 60);
+
+        await ethers.provider.send("evm_increaseTime", [61]);
+        await ethers.provider.send("evm_mine", []);
+        await expect(claimTrax(sig.body)).to.be.revertedWithCustomError(claimer, "DeadlineExpired");
+    });
+
+    it("Should reject invalid requests", async function () {
+        expect((await requestSignature("claimerClaimTrax", {account: "0x1234", value: 1})).status).to.equal(400);
+        expect((await requestSignature("claimerClaimTrax", {account: user.address})).status).to.equal(400);
+        expect((await requestSignature("unknownKind", {account: user.address})).status).to.equal(404);
+        // BankV2 is not configured
+        expect((await requestSignature("bankV2ClaimEth", {account: user.address, value: 1})).status).to.equal(404);
+    });
+});
@@ -0,0 +1,56 @@
+const {expect} = require("chai");
+const hre = require("hardhat");
+const {compareStorageLayouts, getArtifactStorageLayout, loadStorageLayoutSnapshots} = require("../deploy/utils/storageLayout");
+
+// Upgrade layout check: existing variables keep slot, offset and type, new ones are appended
+
+describe("Storage layout", function () {
+    const layout = [
+        {label: "signerAddress", slot: 0, offset: 0, type: "address", bytes: 20},
+        {label: "paused", slot: 0, offset: 20, type: "bool", bytes: 1},
+        {label: "balances", slot: 1, offset: 0, type: "mapping(address => uint256)", bytes: 32},
+    ];
+
+    function errors(next) {
+        return compareStorageLayouts(layout, next).filter(issue => issue.severity === 'error');
+    }
+
+    it("Should accept appended variables", async function () {
+        const next = [...layout, {label: "expiry", slot: 2, offset: 0, type: "mapping(address => uint256)", bytes: 32}];
+        expect(compareStorageLayouts(layout, next)).to.deep.equal([]);
+    });
+
+    it("Should warn about renamed variables", async function () {
+        const next = layout.map(v => v.label === "paused" ? {...v, label: "frozen"} : v);
+        const issues = compareStorageLayouts(layout, next);
+        expect(issues).to.have.length(1);
+        expect(issues[0].severity).to.equal('warning');
+    });
+
+    it("Should reject type changes", async function () {
+        const next = layout.map(v => v.label === "balances" ? {...v, type: "mapping(address => uint128)"} : v);
+        expect(errors(next)).to.have.length(1);
+    });
+
+    it("Should reject removed and moved variables", async function () {
+        expect(errors(layout.slice(0, 2))[0].message).to.contain("balances (slot 1, offset 0) was removed");
+
+        const next = [layout[0], {...layout[2], slot: 2}, {...layout[1], slot: 1, offset: 0}];
+        expect(errors(next).map(issue => issue.message)).to.include("paused moved from slot 0, offset 20 to slot 1, offset 0");
+    });
+
+    it("Should reject variables inserted before the end of the previous layout", async function () {
+        const next = [layout[0], layout[1], {label: "fee", slot: 0, offset: 21, type: "uint8", bytes: 1}, layout[2]];
+        expect(errors(next)[0].message).to.contain("fee was inserted at slot 0, offset 21");
+    });
+
+    for (const contract of ["Reactor", "Inventory"]) {
+        it(`Should keep ${contract} compatible with every recorded release`, async function () {
+            const current = await getArtifactStorageLayout(hre, contract);
+            for (const snapshot of loadStorageLayoutSnapshots(contract)) {
+                expect(compareStorageLayouts(snapshot.storage, current).filter(issue => issue.severity === 'error'), snapshot.release)
+                    .to.deep.equal([]);
+            }
+        });
+    }
+});
@@ -1,6 +1,7 @@
 const {expect} = require("chai");
 const {ethers} = require("hardhat");
 require("@nomicfoundation/hardhat-chai-matchers");
+const {signClaimToken, signDepositToken} = require("../sdk/signers");
 
 describe("GridleToken", function () {
     let gridleToken, testToken, owner, withdrawRole, refundRole, signer, user1, user2;
@@ -35,38 +36,14 @@ describe("GridleToken", function () {
         await testToken.mint(owner.address, ethers.parseEther("1000"));
     });
 
-    // Common signing function
-    function signMessageHash(messageHash) {
-        const signingKey = new ethers.SigningKey(signerPrivateKey);
-        const signature = signingKey.sign(messageHash);
-        
-        return {
-            v: signature.v,
-            r: signature.r,
-            s: signature.s
-        };
-    }
-
     // Helper function to create signatures for token deposit operations
     async function createDepositSignature(signId, account, token, value, contractAddress, deadline, systemBalance = 0) {
-        const messageHash = ethers.keccak256(
-            ethers.AbiCoder.defaultAbiCoder().encode(
-                ["uint256", "address", "address", "uint256", "uint256", "uint256", "address"],
-                [signId, account, token, value, deadline, systemBalance, contractAddress]
-            )
-        );
-        return signMessageHash(messageHash);
+        return signDepositToken(new ethers.SigningKey(signerPrivateKey), {signId, account, token, amount: value, deadline, systemBalance, contract: contractAddress});
     }
 
     // Helper function to create signatures for token claim operations
     async function createClaimSignature(signId, account, token, value, contractAddress) {
-        const messageHash = ethers.keccak256(
-            ethers.AbiCoder.defaultAbiCoder().encode(
-                ["uint256", "address", "address", "uint256", "address"],
-                [signId, account, token, value, contractAddress]
-            )
-        );
-        return signMessageHash(messageHash);
+        return signClaimToken(new ethers.SigningKey(signerPrivateKey), {signId, account, token, amount: value, contract: contractAddress});
     }
 
     describe("Deployment", function () {
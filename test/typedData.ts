@@ -0,0 +1,270 @@
+const {expect} = require("chai");
+const {ethers} = require("hardhat");
+require("@nomicfoundation/hardhat-chai-matchers");
+const sdk = require("../sdk/signers");
+
+// EIP-712 variants of the signed entrypoints: a wallet signTypedData over the SDK typed data must be accepted,
+// while legacy signatures and typed data for another chain or contract must be rejected
+
+describe("EIP-712 typed entrypoints", function () {
+    const signerPrivateKey = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+    const signerWallet = new ethers.Wallet(signerPrivateKey);
+    const signerAddress = signerWallet.address;
+
+    let owner, user, other, chainId;
+
+    beforeEach(async function () {
+        [owner, user, other] = await ethers.getSigners();
+        ({chainId} = await ethers.provider.getNetwork());
+    });
+
+    async function deadline() {
+        const block = await ethers.provider.getBlock('latest');
+        return block.timestamp + 3600;
+    }
+
+    async function deployTestToken() {
+        const TestToken = await ethers.getContractFactory("TestToken");
+        return TestToken.deploy();
+    }
+
+    async function deployInventory() {
+        const Inventory = await ethers.getContractFactory("Inventory");
+        const implementation = await Inventory.deploy();
+        const initData = implementation.interface.encodeFunctionData("initialize", [
+            owner.address,
+            signerAddress,
+            "https://example.com/metadata/",
+            "https://example.com/contract-metadata"
+        ]);
+        const InventoryProxy = await ethers.getContractFactory("InventoryProxy");
+        const proxy = await InventoryProxy.deploy(await implementation.getAddress(), initData);
+        return implementation.attach(await proxy.getAddress());
+    }
+
+    async function signTyped(data) {
+        return ethers.Signature.from(await signerWallet.signTypedData(data.domain, data.types, data.message));
+    }
+
+    // Each case: contract, SDK message (with chainId), typed data builder, legacy hash of the same message
+    // and the call of the typed entrypoint
+    const CASES = [
+        {
+            name: "Inventory.claimTyped",
+            error: "WrongSignature",
+            setup: async () => {
+                const inventory = await deployInventory();
+                const message = {signId: 1, account: user.address, tokenId: 10, amount: 5, fee: 100n, deadline: await deadline(), data: "0x1234", contract: await inventory.getAddress(), chainId};
+                return {
+                    contract: inventory, message, typedData: sdk.inventoryClaimTypedData, legacyHash: sdk.hashInventoryClaim,
+                    call: (sig) => inventory.connect(user).claimTyped(message.signId, message.tokenId, message.amount, message.fee, message.deadline, sig.v, sig.r, sig.s, message.data, {value: message.fee}),
+                };
+            },
+        },
+        {
+            name: "Inventory.useTyped",
+            error: "WrongSignature",
+            setup: async () => {
+                const inventory = await deployInventory();
+                await inventory.grantRole(await inventory.MINTER_ROLE(), owner.address);
+                await inventory.mint(user.address, 10, 5, "0x");
+                const message = {signId: 1, account: user.address, id: 10, amount: 5, fee: 100n, deadline: await deadline(), data: "0x1234", contract: await inventory.getAddress(), chainId};
+                return {
+                    contract: inventory, message, typedData: sdk.inventoryUseTypedData, legacyHash: sdk.hashInventoryUse,
+                    call: (sig) => inventory.connect(user).useTyped(message.signId, message.id, message.amount, message.fee, message.deadline, sig.v, sig.r, sig.s, message.data, {value: message.fee}),
+                };
+            },
+        },
+        ...["claimTyped", "claimTraxTyped", "claimEthTyped"].map(method => ({
+            name: `Claimer.${method}`,
+            error: "InvalidSignature",
+            setup: async () => {
+                const testToken = await deployTestToken();
+                const TRAX = await ethers.getContractFactory("TRAX");
+                const trax = await TRAX.deploy(owner.address, owner.address, signerAddress);
+                const Claimer = await ethers.getContractFactory("Claimer");
+                const claimer = await Claimer.deploy(owner.address, signerAddress, await trax.getAddress());
+                await testToken.mint(await claimer.getAddress(), 1000n);
+                await trax.grantRole(await trax.MINTER_ROLE(), await claimer.getAddress());
+                await owner.sendTransaction({to: await claimer.getAddress(), value: 1000n});
+
+                const base = {signId: 1, account: user.address, value: 100n, deadline: await deadline(), contract: await claimer.getAddress(), chainId};
+                if (method === "claimTyped") {
+                    const message = {...base, token: await testToken.getAddress(), fee: 10n};
+                    return {
+                        contract: claimer, message, typedData: sdk.claimerClaimTypedData, legacyHash: sdk.hashClaimerClaim,
+                        call: (sig) => claimer.connect(user).claimTyped(message.account, message.token, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                    };
+                }
+                if (method === "claimTraxTyped") {
+                    const message = {...base, traxToken: await trax.getAddress(), fee: 10n};
+                    return {
+                        contract: claimer, message, typedData: sdk.claimerClaimTraxTypedData, legacyHash: sdk.hashClaimerClaimTrax,
+                        call: (sig) => claimer.connect(user).claimTraxTyped(message.account, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                    };
+                }
+                const message = base;
+                return {
+                    contract: claimer, message, typedData: sdk.claimerClaimEthTypedData, legacyHash: sdk.hashClaimerClaimEth,
+                    call: (sig) => claimer.connect(user).claimEthTyped(message.account, message.value, message.deadline, message.signId, sig.v, sig.r, sig.s),
+                };
+            },
+        })),
+        ...["useETHTyped", "useTokenTyped", "claimTyped", "claimEthTyped", "claimTraxTyped"].map(method => ({
+            name: `BankV2.${method}`,
+            error: "WrongSignature",
+            setup: async () => {
+                const testToken = await deployTestToken();
+                const BankV2 = await ethers.getContractFactory("BankV2");
+                // TestToken stands in for TRAX, its mint is public
+                const bank = await BankV2.deploy(owner.address, owner.address, signerAddress, await testToken.getAddress());
+                await testToken.mint(await bank.getAddress(), 1000n);
+                await owner.sendTransaction({to: await bank.getAddress(), value: 1000n});
+                const contract = await bank.getAddress();
+
+                if (method === "useETHTyped") {
+                    const message = {signId: 1, value: 100n, account: user.address, param: 7, deadline: await deadline(), contract, chainId};
+                    return {
+                        contract: bank, message, typedData: sdk.bankV2UseETHTypedData, legacyHash: sdk.hashBankV2UseETH,
+                        call: (sig) => bank.connect(user).useETHTyped(message.signId, message.param, message.deadline, sig.v, sig.r, sig.s, {value: message.value}),
+                    };
+                }
+                if (method === "useTokenTyped") {
+                    await testToken.mint(user.address, 1000n);
+                    await testToken.connect(user).approve(contract, 1000n);
+                    const message = {signId: 1, value: 100n, token: await testToken.getAddress(), account: user.address, param: 7, deadline: await deadline(), contract, chainId};
+                    return {
+                        contract: bank, message, typedData: sdk.bankV2UseTokenTypedData, legacyHash: sdk.hashBankV2UseToken,
+                        call: (sig) => bank.connect(user).useTokenTyped(message.token, message.value, message.signId, message.param, message.deadline, sig.v, sig.r, sig.s),
+                    };
+                }
+
+                const base = {signId: 1, account: user.address, value: 100n, fee: 10n, deadline: await deadline(), contract, chainId};
+                if (method === "claimTyped") {
+                    const message = {...base, token: await testToken.getAddress()};
+                    return {
+                        contract: bank, message, typedData: sdk.bankV2ClaimTypedData, legacyHash: sdk.hashBankV2Claim,
+                        call: (sig) => bank.connect(user).claimTyped(message.account, message.token, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                    };
+                }
+                if (method === "claimTraxTyped") {
+                    const message = {...base, traxToken: await testToken.getAddress()};
+                    return {
+                        contract: bank, message, typedData: sdk.bankV2ClaimTraxTypedData, legacyHash: sdk.hashBankV2ClaimTrax,
+                        call: (sig) => bank.connect(user).claimTraxTyped(message.account, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                    };
+                }
+                const message = base;
+                return {
+                    contract: bank, message, typedData: sdk.bankV2ClaimEthTypedData, legacyHash: sdk.hashBankV2ClaimEth,
+                    call: (sig) => bank.connect(user).claimEthTyped(message.account, message.value, message.fee, message.deadline, message.signId, sig.v, sig.r, sig.s, {value: message.fee}),
+                };
+            },
+        })),
+        {
+            name: "Gridle.depositEthTyped",
+            error: "WrongSignature",
+            setup: async () => {
+                const Gridle = await ethers.getContractFactory("Gridle");
+                const grid = await Gridle.deploy(owner.address, signerAddress);
+                const message = {signId: 1, account: user.address, value: 100n, deadline: await deadline(), systemBalance: 0, contract: await grid.getAddress(), chainId};
+                return {
+                    contract: grid, message, typedData: sdk.gridleDepositEthTypedData, legacyHash: sdk.hashGridleDepositEth,
+                    call: (sig) => grid.connect(user).depositEthTyped(message.signId, message.deadline, message.systemBalance, sig.v, sig.r, sig.s, {value: message.value}),
+                };
+            },
+        },
+        {
+            name: "Gridle.claimEthTyped",
+            error: "WrongSignature",
+            setup: async () => {
+                const Gridle = await ethers.getContractFactory("Gridle");
+                const grid = await Gridle.deploy(owner.address, signerAddress);
+                await owner.sendTransaction({to: await grid.getAddress(), value: 1000n});
+                const message = {signId: 1, account: user.address, value: 100n, contract: await grid.getAddress(), chainId};
+                return {
+                    contract: grid, message, typedData: sdk.gridleClaimEthTypedData, legacyHash: sdk.hashGridleClaimEth,
+                    call: (sig) => grid.connect(user).claimEthTyped(message.signId, message.account, message.value, sig.v, sig.r, sig.s),
+                };
+            },
+        },
+        ...["TRAX", "ACID", "ROACH"].map(artifact => ({
+            name: `${artifact}.useTyped`,
+            error: "WrongSignature",
+            setup: async () => {
+                const Factory = await ethers.getContractFactory(artifact);
+                const token = await Factory.deploy(owner.address, owner.address, signerAddress);
+                await token.mint(user.address, 1000n);
+                const message = {id: 1, value: 100n, account: user.address, param: 7, contract: await token.getAddress(), chainId};
+                return {
+                    contract: token, message, typedData: (m) => sdk.tokenUseTypedData(artifact, m), legacyHash: sdk.hashTokenUse,
+                    call: (sig) => token.connect(user).useTyped(message.value, message.id, message.param, sig.v, sig.r, sig.s),
+                };
+            },
+        })),
+    ];
+
+    for (const testCase of CASES) {
+        describe(testCase.name, function () {
+            it("Should accept signTypedData over SDK typed data", async function () {
+                const {message, typedData, call} = await testCase.setup();
+                await expect(call(await signTyped(typedData(message)))).not.to.be.reverted;
+            });
+
+            it("Should match SDK raw key signature", async function () {
+                const {message, typedData} = await testCase.setup();
+                const sig = await signTyped(typedData(message));
+                const sdkSig = sdk.signTypedData(signerWallet, typedData(message));
+                expect([sdkSig.v, sdkSig.r, sdkSig.s]).to.deep.equal([sig.v, sig.r, sig.s]);
+            });
+
+            it("Should reject legacy signature", async function () {
+                const {contract, message, legacyHash, call} = await testCase.setup();
+                await expect(call(sdk.signHash(signerWallet, legacyHash(message)))).to.be.revertedWithCustomError(contract, testCase.error);
+            });
+
+            it("Should reject typed data for another chain", async function () {
+                const {contract, message, typedData, call} = await testCase.setup();
+                const sig = await signTyped(typedData({...message, chainId: message.chainId + 1n}));
+                await expect(call(sig)).to.be.revertedWithCustomError(contract, testCase.error);
+            });
+
+            it("Should reject typed data for another contract", async function () {
+                const {contract, message, typedData, call} = await testCase.setup();
+                const sig = await signTyped(typedData({...message, contract: other.address}));
+                await expect(call(sig)).to.be.revertedWithCustomError(contract, testCase.error);
+            });
+        });
+    }
+
+    describe("Shared signature IDs", function () {
+        it("Should reject Claimer.claimTyped with a signId used by claim", async function () {
+            const testToken = await deployTestToken();
+            const Claimer = await ethers.getContractFactory("Claimer");
+            const claimer = await Claimer.deploy(owner.address, signerAddress, await testToken.getAddress());
+            await testToken.mint(await claimer.getAddress(), 1000n);
+            const message = {signId: 1, account: user.address, token: await testToken.getAddress(), value: 100n, fee: 0, deadline: await deadline(), contract: await claimer.getAddress(), chainId};
+
+            const legacySig = sdk.signClaimerClaim(signerWallet, message);
+            await claimer.connect(user).claim(message.account, message.token, message.value, message.fee, message.deadline, message.signId, legacySig.v, legacySig.r, legacySig.s);
+
+            const typedSig = await signTyped(sdk.claimerClaimTypedData(message));
+            await expect(claimer.connect(user).claimTyped(message.account, message.token, message.value, message.fee, message.deadline, message.signId, typedSig.v, typedSig.r, typedSig.s))
+                .to.be.revertedWithCustomError(claimer, "SignIdAlreadyUsed");
+        });
+
+        it("Should reject TRAX.use with an id used by useTyped", async function () {
+            const TRAX = await ethers.getContractFactory("TRAX");
+            const trax = await TRAX.deploy(owner.address, owner.address, signerAddress);
+            await trax.mint(user.address, 1000n);
+            const message = {id: 1, value: 100n, account: user.address, param: 7, contract: await trax.getAddress(), chainId};
+
+            const typedSig = await signTyped(sdk.tokenUseTypedData("TRAX", message));
+            await trax.connect(user).useTyped(message.value, message.id, message.param, typedSig.v, typedSig.r, typedSig.s);
+
+            const legacySig = sdk.signTokenUse(signerWallet, message);
+            await expect(trax.connect(user).use(message.value, message.id, message.param, legacySig.v, legacySig.r, legacySig.s))
+                .to.be.revertedWithCustomError(trax, "IdUsed");
+        });
+    });
+});